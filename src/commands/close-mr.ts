@@ -0,0 +1,186 @@
+import {
+  CommandContext,
+  createCommandContext,
+  runAbortable,
+} from '../lib/command-context.js';
+import { DuplicateMergeRequestsError } from '../lib/errors.js';
+import { BaseCommandOptions, CommandResult } from '../lib/types.js';
+import { createMRSourceBranchName } from '../lib/upsert-branch.js';
+import { defaultCommitMessageSalt } from '../lib/commit-message-salt.js';
+import { validateSyncBranchCommits } from '../lib/validate-sync-branch-commits.js';
+import { isGitlabBranchExists } from '../lib/gitlab-branch.js';
+
+/**
+ * Closes GitLab MR and deletes the source branch related to the GitHub repository branch,
+ * when the GitHub Pull Request is closed without merging
+ *
+ * @param options Command options, the GitLab client, Git factory, logger and abort signal are optional
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @returns Closed MR, its IID is `undefined` if the MR is not found
+ */
+export async function closeMr(
+  options: BaseCommandOptions,
+  commitMessageSalt = defaultCommitMessageSalt
+): Promise<CommandResult> {
+  const context = createCommandContext(options);
+
+  return runAbortable(context.signal, () =>
+    closeMergeRequest(options, context, commitMessageSalt)
+  );
+}
+
+/**
+ * Closes GitLab MR and deletes the source branch related to the GitHub repository branch,
+ * when the GitHub Pull Request is closed without merging
+ *
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param gitlabTargetBranch Target branch name in GitLab the MR was created for
+ * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
+ * @param githubRepositorySHA SHA of the last branch commit, mentioned in the MR note
+ * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param githubPullRequestUrl GitHub Pull Request URL, used in the MR note
+ * @param context GitLab client and logger of the command
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @returns Closed MR, its IID is `undefined` if the MR is not found
+ */
+async function closeMergeRequest(
+  {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    githubRepositoryBranch,
+    githubRepositorySHA,
+    githubProjectSubmoduleName,
+    githubPullRequestUrl,
+  }: BaseCommandOptions,
+  { gitlab, logger }: CommandContext,
+  commitMessageSalt: string
+): Promise<CommandResult> {
+  const gitlabSourceBranch = createMRSourceBranchName({
+    githubProjectSubmoduleName,
+    githubRepositoryBranch,
+  });
+
+  const isSourceBranchExists = await isGitlabBranchExists({
+    gitlab,
+    gitlabProjectId,
+    branch: gitlabSourceBranch,
+  });
+
+  if (isSourceBranchExists) {
+    logger.info(
+      `🔍 Validating branch related to "${githubRepositoryBranch}" contains only '${commitMessageSalt}' commits`
+    );
+
+    await validateSyncBranchCommits({
+      gitlab,
+      logger,
+      gitlabProjectId,
+      gitlabTargetBranch,
+      githubRepositoryBranch,
+      gitlabSourceBranch,
+      commitMessageSalt,
+    });
+
+    logger.info(`- ☑︎ Branch contains only submodule sync commits`);
+  }
+
+  const [mr, ...mrsRest] = await gitlab.MergeRequests.all({
+    projectId: gitlabProjectId,
+    targetBranch: gitlabTargetBranch,
+    sourceBranch: gitlabSourceBranch,
+    state: 'opened',
+  });
+
+  if (mrsRest.length) {
+    throw new DuplicateMergeRequestsError(
+      `Found more than one MR for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}"`,
+      [mr, ...mrsRest].map(({ iid }) => iid)
+    );
+  }
+
+  if (mr) {
+    logger.info(
+      `⏳︎ Closing merge request #${mr.iid} for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}"`
+    );
+
+    await gitlab.MergeRequestNotes.create(
+      gitlabProjectId,
+      mr.iid,
+      createCloseMergeRequestNote({
+        githubRepositoryBranch,
+        githubRepositorySHA,
+        githubPullRequestUrl,
+      })
+    );
+
+    await gitlab.MergeRequests.edit(gitlabProjectId, mr.iid, {
+      stateEvent: 'close',
+    });
+
+    logger.success(`✔︎ Merge request #${mr.iid} has been closed`);
+  } else {
+    logger.warn(
+      `⚠︎ Merge request not found for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}"`
+    );
+  }
+
+  const result: CommandResult = {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    gitlabSourceBranch,
+    mergeRequestIid: mr?.iid,
+    mergeRequestWebUrl: mr?.web_url,
+    mergeRequestState: mr ? 'closed' : undefined,
+    submodules: [
+      {
+        githubProjectSubmoduleName,
+        githubRepositoryBranch,
+        githubRepositorySHA,
+      },
+    ],
+    dryRun: false,
+  };
+
+  if (!isSourceBranchExists) {
+    logger.warn(
+      `⚠︎ Branch related to "${githubRepositoryBranch}" not found in the GitLab repository`
+    );
+
+    return result;
+  }
+
+  await gitlab.Branches.remove(gitlabProjectId, gitlabSourceBranch);
+
+  logger.success(
+    `✔︎ Branch related to "${githubRepositoryBranch}" has been deleted from the GitLab repository`
+  );
+  return result;
+}
+
+/**
+ * Creates the note explaining why the GitLab Merge Request was closed
+ *
+ * @param githubRepositoryBranch Branch name in the GitHub repository which was closed
+ * @param githubRepositorySHA SHA of the last branch commit
+ * @param githubPullRequestUrl GitHub Pull Request URL of the closed branch
+ */
+function createCloseMergeRequestNote({
+  githubRepositoryBranch,
+  githubRepositorySHA,
+  githubPullRequestUrl,
+}: Pick<
+  BaseCommandOptions,
+  'githubRepositoryBranch' | 'githubRepositorySHA' | 'githubPullRequestUrl'
+>) {
+  const submoduleBranchNameMarkdown = githubPullRequestUrl
+    ? `[\`${githubRepositoryBranch}\`](${githubPullRequestUrl})`
+    : `\`${githubRepositoryBranch}\``;
+
+  return [
+    `This MR is closed automatically, because the GitHub Pull Request for the ${submoduleBranchNameMarkdown} branch was closed without merging.`,
+    githubRepositorySHA &&
+      `The last synced submodule SHA commit was \`${githubRepositorySHA}\`.`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
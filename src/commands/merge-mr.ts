@@ -1,10 +1,74 @@
-import type { PipelineStatus } from '@gitbeaker/core';
-import { Gitlab } from '@gitbeaker/rest';
-
-import chalk from 'chalk';
-import { BaseCommandOptions } from '../lib/types.js';
+import type {
+  MergeRequestSchema,
+  PipelineSchema,
+  PipelineStatus,
+} from '@gitbeaker/core';
+import {
+  CommandContext,
+  createCommandContext,
+  runAbortable,
+} from '../lib/command-context.js';
+import {
+  DuplicateMergeRequestsError,
+  InvalidOptionsError,
+  MergeRequestConflictError,
+  MergeRequestNotFoundError,
+  MergeRequestNotMergedError,
+  SubmoduleSHAMismatchError,
+} from '../lib/errors.js';
+import {
+  BaseCommandOptions,
+  CommandResult,
+  GitlabClient,
+  SubmoduleUpdate,
+} from '../lib/types.js';
+import { getSubmoduleUpdates } from '../lib/submodule-updates.js';
 import { createMRSourceBranchName } from '../lib/upsert-branch.js';
-import { parseBooleanEnvVar } from '../lib/parse-boolean-env-var.js';
+import {
+  getGitlabSubmodule,
+  getGitlabSubmoduleSHA,
+} from '../lib/gitlab-submodule.js';
+import {
+  createPipelineFailedError,
+  waitForMergeRequestMerge,
+} from '../lib/wait-for-merge-request.js';
+import { Logger } from '../lib/logger.js';
+import {
+  createMessageTemplateValues,
+  renderMessageTemplate,
+  validateMessageTemplates,
+} from '../lib/message-templates.js';
+
+export interface MergeMrOptions extends BaseCommandOptions {
+  /** Merge the MR when the pipeline succeeds instead of merging it immediately */
+  mergeWhenPipelineSucceeds?: boolean;
+
+  /** Wait until the MR is merged, the MR is merged when the pipeline succeeds */
+  wait?: boolean;
+
+  /** Maximum time to wait for the MR to be merged in seconds */
+  waitTimeout?: number;
+
+  /** Time between the MR and pipeline status polls in seconds */
+  waitPollInterval?: number;
+
+  /** Run all the checks, but do not merge the MR */
+  dryRun?: boolean;
+}
+
+/**
+ * Merge GitLab MR for the branch related to the GitHub repository
+ *
+ * @param options Command options, the GitLab client, Git factory, logger and abort signal are optional
+ * @returns MR with its state after the merge
+ */
+export async function mergeMr(options: MergeMrOptions): Promise<CommandResult> {
+  const context = createCommandContext(options);
+
+  return runAbortable(context.signal, () =>
+    mergeMergeRequest(options, context)
+  );
+}
 
 /**
  * Merge GitLab MR for the branch related to the GitHub repository
@@ -14,17 +78,52 @@ import { parseBooleanEnvVar } from '../lib/parse-boolean-env-var.js';
  * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
  * @param githubRepositorySHA SHA of the latest commit to be used in the submodule update job
  * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
- * @param gitlabOptions GitLab options to authenticate and connect to the API
+ * @param additionalSubmodules Other submodules updated in the same MR, their SHAs are verified too
+ * @param mergeWhenPipelineSucceeds Merge the MR when the pipeline succeeds instead of merging it immediately
+ * @param wait Wait until the MR is merged, the MR is merged when the pipeline succeeds
+ * @param waitTimeout Maximum time to wait for the MR to be merged in seconds
+ * @param waitPollInterval Time between the MR and pipeline status polls in seconds
+ * @param messageTemplates Template of the merge commit message
+ * @param dryRun Run all the checks, but do not merge the MR
+ * @param context GitLab client and logger of the command
+ * @returns MR with its state after the merge
  */
-export async function mergeMr({
-  gitlabProjectId,
-  gitlabTargetBranch,
-  githubRepositoryBranch,
-  githubRepositorySHA,
-  githubProjectSubmoduleName,
-  gitlabOptions,
-}: BaseCommandOptions) {
-  const gitlab = new Gitlab(gitlabOptions);
+async function mergeMergeRequest(
+  {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    githubRepositoryBranch,
+    githubRepositorySHA,
+    githubProjectSubmoduleName,
+    additionalSubmodules,
+    mergeWhenPipelineSucceeds = false,
+    wait = false,
+    waitTimeout = 3600,
+    waitPollInterval = 15,
+    githubPullRequestUrl,
+    messageTemplates = {},
+    dryRun = false,
+  }: MergeMrOptions,
+  { gitlab, logger, signal }: CommandContext
+): Promise<CommandResult> {
+  validateMessageTemplates(messageTemplates);
+
+  const submoduleUpdates = getSubmoduleUpdates({
+    githubProjectSubmoduleName,
+    githubRepositoryBranch,
+    githubRepositorySHA,
+    additionalSubmodules,
+  });
+
+  const submoduleWithoutSHA = submoduleUpdates.find(
+    (submoduleUpdate) => !submoduleUpdate.githubRepositorySHA
+  );
+
+  if (submoduleWithoutSHA) {
+    throw new InvalidOptionsError(
+      `SHA is required to merge the MR, but not provided for the submodule "${submoduleWithoutSHA.githubProjectSubmoduleName}"`
+    );
+  }
   const gitlabSourceBranch = createMRSourceBranchName({
     githubProjectSubmoduleName,
     githubRepositoryBranch,
@@ -38,80 +137,250 @@ export async function mergeMr({
   });
 
   if (mrsRest.length) {
-    throw new Error(
-      `✖︎ Found more than one MR for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}"`
+    throw new DuplicateMergeRequestsError(
+      `Found more than one MR for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}"`,
+      [mr, ...mrsRest].map(({ iid }) => iid)
     );
   }
 
   if (!mr) {
-    throw new Error(
-      `✖︎ Merge request not found for branch related to "${githubRepositoryBranch}" and SHA "${githubRepositorySHA}"`
+    throw new MergeRequestNotFoundError(
+      `Merge request not found for branch related to "${githubRepositoryBranch}" and SHA "${githubRepositorySHA}"`,
+      gitlabSourceBranch
     );
   }
 
-  console.log(
-    chalk.grey(
-      `☑︎ Merge request #${mr.iid} found for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}`
-    )
+  logger.info(
+    `☑︎ Merge request #${mr.iid} found for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}`
   );
 
   if (mr.has_conflicts) {
-    throw new Error(
-      `✖︎ Merge request #${mr.iid} has conflicts. Please resolve them before and run the action again`
+    throw new MergeRequestConflictError(
+      `Merge request #${mr.iid} has conflicts. Please resolve them before and run the action again`,
+      mr.iid
     );
   }
 
-  console.log(chalk.gray(`- ☑︎ MR has no conflicts`));
-
-  const diffs = await gitlab.MergeRequests.allDiffs(gitlabProjectId, mr.iid);
+  logger.info(`- ☑︎ MR has no conflicts`);
 
-  const isMRContainsSubmoduleSHA = diffs.some(
-    (diff) =>
-      diff.new_path === 'monite-sdk' &&
-      diff.old_path === 'monite-sdk' &&
-      diff.diff.includes(`+Subproject commit ${githubRepositorySHA}\n`)
-  );
+  const previousSubmoduleSHAs: (string | undefined)[] = [];
 
-  if (!isMRContainsSubmoduleSHA) {
-    throw new Error(
-      `✖︎ Merge request #${mr.iid} does not contain submodule SHA '${githubRepositorySHA}' for the branch '${githubRepositoryBranch}'`
+  for (const submoduleUpdate of submoduleUpdates) {
+    previousSubmoduleSHAs.push(
+      await validateMrSubmoduleSHA({
+        gitlab,
+        logger,
+        gitlabProjectId,
+        mr,
+        ...submoduleUpdate,
+      })
     );
   }
 
-  console.log(
-    chalk.gray(`- ☑︎ MR contains submodule SHA '${githubRepositorySHA}'`)
-  );
+  const commandResult: Omit<CommandResult, 'mergeRequestState'> = {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    gitlabSourceBranch,
+    mergeRequestIid: mr.iid,
+    mergeRequestWebUrl: mr.web_url,
+    submodules: submoduleUpdates,
+    dryRun,
+  };
+
+  if (dryRun) {
+    logger.info(
+      mergeWhenPipelineSucceeds || wait
+        ? `📝 Dry run: merge request #${mr.iid} would be queued to merge into '${gitlabTargetBranch}' when the pipeline succeeds`
+        : `📝 Dry run: merge request #${mr.iid} would be merged into '${gitlabTargetBranch}'`
+    );
+
+    return { ...commandResult, mergeRequestState: 'opened' };
+  }
 
   const result = await gitlab.MergeRequests.merge(gitlabProjectId, mr.iid, {
-    mergeWhenPipelineSucceeds: parseBooleanEnvVar(
-      process.env.GITLAB_MERGE_WHEN_PIPELINE_SUCCEEDS
-    ),
+    mergeWhenPipelineSucceeds: mergeWhenPipelineSucceeds || wait,
     sha: mr.sha,
-    mergeCommitMessage: [
-      `Merge branch '${githubRepositoryBranch}' into '${gitlabTargetBranch}' with 'monite-sdk' submodule commit '${githubRepositorySHA}'`,
-      '',
-      '* This MR was merged automatically by the Monite GitHub Action.',
-    ].join('\n'),
+    mergeCommitMessage: messageTemplates.mergeCommitMessage
+      ? renderMessageTemplate(
+          messageTemplates.mergeCommitMessage,
+          createMessageTemplateValues({
+            submodules: submoduleUpdates.map((submoduleUpdate, index) => ({
+              ...submoduleUpdate,
+              previousGithubRepositorySHA: previousSubmoduleSHAs[index],
+            })),
+            githubRepositoryBranch,
+            gitlabTargetBranch,
+            githubPullRequestUrl,
+            jiraKeyPattern: messageTemplates.jiraKeyPattern,
+          })
+        )
+      : createDefaultMergeCommitMessage({
+          submoduleUpdates,
+          gitlabTargetBranch,
+        }),
   });
 
   if (result.state === 'merged') {
-    return void console.log(
-      chalk.green(
-        `✔︎ Merge request #${mr.iid} has been successfully merged into the target branch '${gitlabTargetBranch}'`
-      )
+    logger.success(
+      `✔︎ Merge request #${mr.iid} has been successfully merged into the target branch '${gitlabTargetBranch}'`
     );
+
+    return { ...commandResult, mergeRequestState: 'merged' };
   }
 
-  const pipelineStatus = result.pipeline?.status as PipelineStatus;
+  if (wait) {
+    logger.info(
+      `⏳︎ Waiting up to ${waitTimeout}s for merge request #${mr.iid} to be merged`
+    );
+
+    await waitForMergeRequestMerge({
+      gitlab,
+      logger,
+      signal,
+      gitlabProjectId,
+      mergeRequestIid: mr.iid,
+      timeout: waitTimeout,
+      pollInterval: waitPollInterval,
+    });
 
-  if (pipelineStatus === 'canceled' || pipelineStatus === 'failed')
-    throw new Error(
-      `✖︎ Merge request #${mr.iid} has not been merged due to pipeline status '${pipelineStatus}'`
+    logger.success(
+      `✔︎ Merge request #${mr.iid} has been successfully merged into the target branch '${gitlabTargetBranch}'`
     );
 
+    return { ...commandResult, mergeRequestState: 'merged' };
+  }
+
+  const pipeline = result.pipeline as Pick<
+    PipelineSchema,
+    'id' | 'status' | 'web_url'
+  > | null;
+  const pipelineStatus = pipeline?.status as PipelineStatus | undefined;
+
+  if (
+    pipeline &&
+    (pipelineStatus === 'canceled' || pipelineStatus === 'failed')
+  )
+    throw await createPipelineFailedError({
+      gitlab,
+      gitlabProjectId,
+      mergeRequestIid: mr.iid,
+      pipeline,
+    });
+
   if (pipelineStatus === 'success') {
-    throw new Error(
-      `✖︎ Merge request #${mr.iid} has not been merged due to unknown reason`
+    throw new MergeRequestNotMergedError(
+      `Merge request #${mr.iid} has not been merged after the pipeline succeeded, merge status is '${result.detailed_merge_status}'`,
+      mr.iid
+    );
+  }
+
+  return {
+    ...commandResult,
+    mergeRequestState: result.merge_when_pipeline_succeeds
+      ? 'merge_when_pipeline_succeeds'
+      : 'opened',
+  };
+}
+
+/**
+ * Creates the default message of the MR merge commit
+ *
+ * @param submoduleUpdates Submodules updated in the MR, the main one goes first
+ * @param gitlabTargetBranch Target branch name in GitLab the MR is merged into
+ */
+function createDefaultMergeCommitMessage({
+  submoduleUpdates,
+  gitlabTargetBranch,
+}: {
+  submoduleUpdates: SubmoduleUpdate[];
+  gitlabTargetBranch: string;
+}) {
+  const [
+    { githubRepositoryBranch, githubProjectSubmoduleName, githubRepositorySHA },
+  ] = submoduleUpdates;
+
+  return [
+    submoduleUpdates.length === 1
+      ? `Merge branch '${githubRepositoryBranch}' into '${gitlabTargetBranch}' with '${githubProjectSubmoduleName}' submodule commit '${githubRepositorySHA}'`
+      : [
+          `Merge branch '${githubRepositoryBranch}' into '${gitlabTargetBranch}' with submodule commits:`,
+          ...submoduleUpdates.map(
+            (submoduleUpdate) =>
+              `- '${submoduleUpdate.githubProjectSubmoduleName}' commit '${submoduleUpdate.githubRepositorySHA}'`
+          ),
+        ].join('\n'),
+    '',
+    '* This MR was merged automatically by the GitHub Action.',
+  ].join('\n');
+}
+
+/**
+ * Validates the MR head points the submodule to the expected SHA commit
+ *
+ * @param gitlab GitLab API client
+ * @param logger Logger of the command progress
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param mr Merge request to validate
+ * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
+ * @param githubRepositorySHA Expected SHA commit of the submodule
+ * @returns SHA commit the submodule points to in the target branch
+ */
+async function validateMrSubmoduleSHA({
+  gitlab,
+  logger,
+  gitlabProjectId,
+  mr,
+  githubProjectSubmoduleName,
+  githubRepositoryBranch,
+  githubRepositorySHA,
+}: {
+  gitlab: GitlabClient;
+  logger: Logger;
+  mr: Pick<
+    MergeRequestSchema,
+    'iid' | 'sha' | 'source_branch' | 'target_branch'
+  >;
+} & SubmoduleUpdate &
+  Pick<BaseCommandOptions, 'gitlabProjectId'>) {
+  const submodule = await getGitlabSubmodule({
+    gitlab,
+    gitlabProjectId,
+    ref: mr.source_branch,
+    submoduleName: githubProjectSubmoduleName,
+  });
+
+  logger.info(
+    `- ☑︎ Submodule "${githubProjectSubmoduleName}" found at path '${submodule.path}'`
+  );
+
+  const mrSubmoduleSHA = await getGitlabSubmoduleSHA({
+    gitlab,
+    gitlabProjectId,
+    ref: mr.sha,
+    submodulePath: submodule.path,
+  });
+
+  if (mrSubmoduleSHA !== githubRepositorySHA) {
+    throw new SubmoduleSHAMismatchError(
+      `Merge request #${mr.iid} does not contain submodule "${githubProjectSubmoduleName}" SHA for the branch '${githubRepositoryBranch}'. Expected '${githubRepositorySHA}', actual '${mrSubmoduleSHA ?? 'none'}'`,
+      {
+        mergeRequestIid: mr.iid,
+        githubProjectSubmoduleName,
+        expectedSHA: githubRepositorySHA ?? '',
+        actualSHA: mrSubmoduleSHA,
+      }
     );
   }
+
+  logger.info(
+    `- ☑︎ MR contains submodule "${githubProjectSubmoduleName}" SHA '${githubRepositorySHA}'`
+  );
+
+  return getGitlabSubmoduleSHA({
+    gitlab,
+    gitlabProjectId,
+    ref: mr.target_branch,
+    submodulePath: submodule.path,
+  });
 }
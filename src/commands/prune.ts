@@ -0,0 +1,303 @@
+import {
+  CommandContext,
+  createCommandContext,
+  runAbortable,
+} from '../lib/command-context.js';
+import { defaultCommitMessageSalt } from '../lib/commit-message-salt.js';
+import { ManualCommitsError } from '../lib/errors.js';
+import { getGitlabSubmodule } from '../lib/gitlab-submodule.js';
+import {
+  createSyncBranchMatcher,
+  listRemoteBranchHeads,
+} from '../lib/sync-branches.js';
+import { BaseCommandOptions } from '../lib/types.js';
+import { validateSyncBranchCommits } from '../lib/validate-sync-branch-commits.js';
+
+export type PruneOptions = Pick<
+  BaseCommandOptions,
+  | 'gitlabProjectId'
+  | 'gitlabTargetBranch'
+  | 'githubProjectSubmoduleName'
+  | 'gitlabOptions'
+  | 'retryOptions'
+  | 'gitlab'
+  | 'createGit'
+  | 'logger'
+  | 'signal'
+> & {
+  /** Check only the sync branch of the GitHub branch */
+  githubRepositoryBranch?: string;
+
+  /** Prune the branches with the last sync commit older than the number of days, the age isn't checked if not provided */
+  maxAge?: number;
+
+  /** Print the branches to prune without closing MRs or deleting branches */
+  dryRun?: boolean;
+};
+
+/**
+ * Reason to prune the sync branch:
+ * - `missing-github-branch` the GitHub branch is deleted
+ * - `stale` the last sync commit is older than the `maxAge`
+ */
+export type PruneReason = 'missing-github-branch' | 'stale';
+
+/** Sync branch found by `prune` */
+export interface PrunedBranch {
+  /** Source branch name in GitLab, e.g. `my-sdk/feature/test-01` */
+  gitlabSourceBranch: string;
+
+  /** Branch name in the GitHub repository the sync branch was created for */
+  githubRepositoryBranch: string;
+
+  reason: PruneReason;
+
+  /** Committed date of the branch HEAD in the ISO 8601 format */
+  lastCommitDate: string | undefined;
+
+  /** IIDs of the opened MRs of the branch, closed with a note */
+  mergeRequestIids: number[];
+
+  /** Whether the branch is kept, because it has commits without the commit message salt */
+  isSkipped: boolean;
+}
+
+export interface PruneResult {
+  gitlabProjectId: string;
+  gitlabTargetBranch: string;
+  githubProjectSubmoduleName: string;
+
+  /** Branches to prune, sorted by the branch name */
+  branches: PrunedBranch[];
+
+  /** Whether the MRs and branches are left untouched */
+  dryRun: boolean;
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Closes the MRs and deletes the sync branches of the deleted GitHub branches,
+ * or the sync branches not updated for longer than the `maxAge`
+ *
+ * @param options Command options, the GitLab client, Git factory, logger and abort signal are optional
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @returns Pruned sync branches of the submodule
+ */
+export async function prune(
+  options: PruneOptions,
+  commitMessageSalt = defaultCommitMessageSalt
+): Promise<PruneResult> {
+  const context = createCommandContext(options);
+
+  return runAbortable(context.signal, () =>
+    pruneSyncBranches(options, context, commitMessageSalt)
+  );
+}
+
+/**
+ * Closes the MRs and deletes the sync branches of the deleted GitHub branches,
+ * or the sync branches not updated for longer than the `maxAge`.
+ * The branches with commits created by people are kept
+ *
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param gitlabTargetBranch Target branch name in GitLab to read the submodule URL from
+ * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param githubRepositoryBranch Check only the sync branch of the GitHub branch
+ * @param maxAge Maximum age of the last sync commit in days
+ * @param dryRun Print the branches to prune without changes
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context GitLab client, Git factory and logger of the command
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @returns Pruned sync branches of the submodule
+ */
+async function pruneSyncBranches(
+  {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    githubProjectSubmoduleName,
+    githubRepositoryBranch,
+    maxAge,
+    dryRun = false,
+    retryOptions,
+  }: PruneOptions,
+  context: CommandContext,
+  commitMessageSalt: string
+): Promise<PruneResult> {
+  const { gitlab, logger } = context;
+
+  const { branchPrefix, isSyncBranch } = createSyncBranchMatcher({
+    githubProjectSubmoduleName,
+    githubRepositoryBranch,
+  });
+
+  const submodule = await getGitlabSubmodule({
+    gitlab,
+    gitlabProjectId,
+    ref: gitlabTargetBranch,
+    submoduleName: githubProjectSubmoduleName,
+  });
+
+  logger.info(`🔍 Looking for stale branches starting with "${branchPrefix}"`);
+
+  const [branches, githubBranchHeads] = await Promise.all([
+    gitlab.Branches.all(gitlabProjectId, { search: `^${branchPrefix}` }),
+    listRemoteBranchHeads({
+      context,
+      remoteUrl: submodule.url,
+      retryOptions,
+    }),
+  ]);
+
+  const syncBranches = branches
+    .filter(({ name }) => isSyncBranch(name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const prunedBranches: PrunedBranch[] = [];
+
+  for (const branch of syncBranches) {
+    const githubBranch = branch.name.slice(branchPrefix.length);
+    const lastCommitDate = branch.commit.committed_date;
+
+    const reason: PruneReason | undefined =
+      githubBranchHeads && !githubBranchHeads.has(githubBranch)
+        ? 'missing-github-branch'
+        : maxAge !== undefined &&
+            lastCommitDate &&
+            Date.now() - new Date(lastCommitDate).getTime() >= maxAge * dayMs
+          ? 'stale'
+          : undefined;
+
+    if (!reason) continue;
+
+    const mergeRequests = await gitlab.MergeRequests.all({
+      projectId: gitlabProjectId,
+      sourceBranch: branch.name,
+      state: 'opened',
+    });
+
+    const prunedBranch: PrunedBranch = {
+      gitlabSourceBranch: branch.name,
+      githubRepositoryBranch: githubBranch,
+      reason,
+      lastCommitDate,
+      mergeRequestIids: mergeRequests.map(({ iid }) => iid),
+      isSkipped: false,
+    };
+
+    prunedBranches.push(prunedBranch);
+
+    try {
+      await validateSyncBranchCommits({
+        gitlab,
+        logger,
+        gitlabProjectId,
+        gitlabTargetBranch:
+          mergeRequests[0]?.target_branch ?? gitlabTargetBranch,
+        githubRepositoryBranch: githubBranch,
+        gitlabSourceBranch: branch.name,
+        commitMessageSalt,
+      });
+    } catch (error) {
+      if (!(error instanceof ManualCommitsError)) throw error;
+
+      logger.warn(
+        `⚠︎ Branch "${branch.name}" is kept, because it has commits created by people`
+      );
+      prunedBranch.isSkipped = true;
+      continue;
+    }
+
+    const reasonDescription =
+      reason === 'stale'
+        ? `not synced for ${maxAge} days`
+        : `GitHub branch "${githubBranch}" is deleted`;
+
+    if (dryRun) {
+      logger.info(
+        `☑︎ Branch "${branch.name}" would be deleted (${reasonDescription})${
+          mergeRequests.length
+            ? `, merge requests ${mergeRequests.map(({ iid }) => `#${iid}`).join(', ')} would be closed`
+            : ''
+        }`
+      );
+      continue;
+    }
+
+    for (const mr of mergeRequests) {
+      logger.info(
+        `⏳︎ Closing merge request #${mr.iid} for branch "${branch.name}" (${reasonDescription})`
+      );
+
+      await gitlab.MergeRequestNotes.create(
+        gitlabProjectId,
+        mr.iid,
+        createPruneMergeRequestNote({
+          reason,
+          githubRepositoryBranch: githubBranch,
+          maxAge,
+          lastCommitDate,
+        })
+      );
+
+      await gitlab.MergeRequests.edit(gitlabProjectId, mr.iid, {
+        stateEvent: 'close',
+      });
+    }
+
+    await gitlab.Branches.remove(gitlabProjectId, branch.name);
+
+    logger.success(
+      `✔︎ Branch "${branch.name}" has been deleted (${reasonDescription})`
+    );
+  }
+
+  const prunedCount = prunedBranches.filter(
+    ({ isSkipped }) => !isSkipped
+  ).length;
+
+  logger.success(
+    dryRun
+      ? `✔︎ ${prunedCount} of ${syncBranches.length} sync branches would be pruned`
+      : `✔︎ ${prunedCount} of ${syncBranches.length} sync branches have been pruned`
+  );
+
+  return {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    githubProjectSubmoduleName,
+    branches: prunedBranches,
+    dryRun,
+  };
+}
+
+/**
+ * Creates the note explaining why the GitLab Merge Request was closed by `prune`
+ *
+ * @param reason Reason to prune the sync branch
+ * @param githubRepositoryBranch Branch name in the GitHub repository
+ * @param maxAge Maximum age of the last sync commit in days
+ * @param lastCommitDate Committed date of the branch HEAD
+ */
+function createPruneMergeRequestNote({
+  reason,
+  githubRepositoryBranch,
+  maxAge,
+  lastCommitDate,
+}: {
+  reason: PruneReason;
+  githubRepositoryBranch: string;
+  maxAge: number | undefined;
+  lastCommitDate: string | undefined;
+}) {
+  if (reason === 'missing-github-branch') {
+    return `This MR is closed automatically, because the GitHub branch \`${githubRepositoryBranch}\` no longer exists.`;
+  }
+
+  return [
+    `This MR is closed automatically, because the GitHub branch \`${githubRepositoryBranch}\` was not synced for ${maxAge} days.`,
+    lastCommitDate && `The last sync commit was created at ${lastCommitDate}.`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
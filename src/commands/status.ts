@@ -0,0 +1,388 @@
+import {
+  CommandContext,
+  createCommandContext,
+  runAbortable,
+} from '../lib/command-context.js';
+import {
+  GitlabDestinationResult,
+  formatGitlabDestination,
+} from '../lib/gitlab-destinations.js';
+import {
+  getGitlabSubmodule,
+  getGitlabSubmoduleSHA,
+} from '../lib/gitlab-submodule.js';
+import {
+  createSyncBranchMatcher,
+  listRemoteBranchHeads,
+} from '../lib/sync-branches.js';
+import { BaseCommandOptions } from '../lib/types.js';
+
+export type StatusOptions = Pick<
+  BaseCommandOptions,
+  | 'gitlabProjectId'
+  | 'gitlabTargetBranch'
+  | 'githubProjectSubmoduleName'
+  | 'gitlabOptions'
+  | 'retryOptions'
+  | 'gitlab'
+  | 'createGit'
+  | 'logger'
+  | 'signal'
+> & {
+  /** Report only the sync branch of the GitHub branch */
+  githubRepositoryBranch?: string;
+};
+
+/**
+ * Problem of the sync branch:
+ * - `drift` the branch gitlink doesn't point to the GitHub branch HEAD
+ * - `orphaned-branch` the branch has no opened MR
+ * - `missing-branch` the opened MR has no source branch
+ * - `missing-github-branch` the GitHub branch is deleted, e.g. the Pull Request is closed
+ */
+export type SyncBranchIssue =
+  | 'drift'
+  | 'orphaned-branch'
+  | 'missing-branch'
+  | 'missing-github-branch';
+
+/** Sync branch and its opened MR */
+export interface SyncBranchStatus {
+  /** Source branch name in GitLab, e.g. `my-sdk/feature/test-01` */
+  gitlabSourceBranch: string;
+
+  /** Branch name in the GitHub repository the sync branch is created for */
+  githubRepositoryBranch: string;
+
+  /** Whether the sync branch exists in GitLab */
+  isBranchExists: boolean;
+
+  /** SHA commit the submodule points to on the sync branch, `undefined` if the branch is missing */
+  gitlinkSHA: string | undefined;
+
+  /** GitHub branch HEAD, `undefined` if the branch is deleted or the submodule remote is not available */
+  githubBranchSHA: string | undefined;
+
+  /** Opened MR of the sync branch */
+  mergeRequest:
+    | {
+        iid: number;
+        webUrl: string;
+        targetBranch: string;
+        state: string;
+        pipelineStatus: string | undefined;
+        hasConflicts: boolean;
+      }
+    | undefined;
+
+  /** Problems of the sync branch, empty if it's up to date */
+  issues: SyncBranchIssue[];
+}
+
+export interface StatusResult {
+  /** GitLab project ID, e.g. `123` or `group/project` */
+  gitlabProjectId: string;
+
+  /** Target branch name in GitLab the submodule URL is read from */
+  gitlabTargetBranch: string;
+
+  /** Submodule name in the GitLab project, e.g. `my-sdk` */
+  githubProjectSubmoduleName: string;
+
+  /** Whether the GitHub branch HEADs are listed, it's `false` for the relative submodule URL */
+  isGithubRemoteAvailable: boolean;
+
+  /** Sync branches of the submodule, sorted by the branch name */
+  branches: SyncBranchStatus[];
+}
+
+/**
+ * Reports every sync branch of the submodule in the GitLab project with its MR, and flags their problems
+ *
+ * @param options Command options, the GitLab client, Git factory, logger and abort signal are optional
+ * @returns Sync branches of the submodule
+ */
+export async function status(options: StatusOptions): Promise<StatusResult> {
+  const context = createCommandContext(options);
+
+  return runAbortable(context.signal, () =>
+    getSyncBranchesStatus(options, context)
+  );
+}
+
+/**
+ * Reports every sync branch of the submodule in the GitLab project with its MR, and flags their problems
+ *
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param gitlabTargetBranch Target branch name in GitLab to read the submodule URL from
+ * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param githubRepositoryBranch Report only the sync branch of the GitHub branch
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context GitLab client, Git factory and logger of the command
+ * @returns Sync branches of the submodule
+ */
+async function getSyncBranchesStatus(
+  {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    githubProjectSubmoduleName,
+    githubRepositoryBranch,
+    retryOptions,
+  }: StatusOptions,
+  context: CommandContext
+): Promise<StatusResult> {
+  const { gitlab, logger } = context;
+
+  const { branchPrefix, isSyncBranch } = createSyncBranchMatcher({
+    githubProjectSubmoduleName,
+    githubRepositoryBranch,
+  });
+
+  const submodule = await getGitlabSubmodule({
+    gitlab,
+    gitlabProjectId,
+    ref: gitlabTargetBranch,
+    submoduleName: githubProjectSubmoduleName,
+  });
+
+  logger.info(
+    `🔍 Listing branches starting with "${branchPrefix}" and their merge requests`
+  );
+
+  const [branches, mergeRequests, githubBranchHeads] = await Promise.all([
+    gitlab.Branches.all(gitlabProjectId, { search: `^${branchPrefix}` }),
+    // all the pages are fetched, so the MRs of the deleted branches are also found
+    gitlab.MergeRequests.all({
+      projectId: gitlabProjectId,
+      state: 'opened',
+      perPage: 100,
+    }),
+    listRemoteBranchHeads({
+      context,
+      remoteUrl: submodule.url,
+      retryOptions,
+    }),
+  ]);
+
+  const branchNames = branches
+    .map(({ name }) => name)
+    .filter((name) => isSyncBranch(name));
+  const syncMergeRequests = mergeRequests.filter(({ source_branch }) =>
+    isSyncBranch(source_branch)
+  );
+
+  const gitlabSourceBranches = [
+    ...new Set([
+      ...branchNames,
+      ...syncMergeRequests.map(({ source_branch }) => source_branch),
+    ]),
+  ].sort();
+
+  const branchStatuses: SyncBranchStatus[] = [];
+
+  for (const gitlabSourceBranch of gitlabSourceBranches) {
+    const isBranchExists = branchNames.includes(gitlabSourceBranch);
+    const githubBranch = gitlabSourceBranch.slice(branchPrefix.length);
+    const mr = syncMergeRequests.find(
+      ({ source_branch }) => source_branch === gitlabSourceBranch
+    );
+
+    const [gitlinkSHA, mrDetails] = await Promise.all([
+      isBranchExists
+        ? getGitlabSubmoduleSHA({
+            gitlab,
+            gitlabProjectId,
+            ref: gitlabSourceBranch,
+            submodulePath: submodule.path,
+          })
+        : undefined,
+      // the MRs list has no pipeline
+      mr && gitlab.MergeRequests.show(gitlabProjectId, mr.iid),
+    ]);
+
+    const githubBranchSHA = githubBranchHeads?.get(githubBranch);
+
+    const issues: SyncBranchIssue[] = [];
+
+    if (!isBranchExists) issues.push('missing-branch');
+    if (isBranchExists && !mr) issues.push('orphaned-branch');
+    if (githubBranchHeads && !githubBranchSHA)
+      issues.push('missing-github-branch');
+    if (isBranchExists && githubBranchSHA && githubBranchSHA !== gitlinkSHA)
+      issues.push('drift');
+
+    branchStatuses.push({
+      gitlabSourceBranch,
+      githubRepositoryBranch: githubBranch,
+      isBranchExists,
+      gitlinkSHA,
+      githubBranchSHA,
+      mergeRequest: mrDetails && {
+        iid: mrDetails.iid,
+        webUrl: mrDetails.web_url,
+        targetBranch: mrDetails.target_branch,
+        state: mrDetails.state,
+        pipelineStatus: mrDetails.head_pipeline?.status,
+        hasConflicts: mrDetails.has_conflicts,
+      },
+      issues,
+    });
+  }
+
+  const issuesCount = branchStatuses.filter(
+    ({ issues }) => issues.length
+  ).length;
+
+  if (issuesCount) {
+    logger.warn(
+      `⚠︎ ${issuesCount} of ${branchStatuses.length} sync branches need attention`
+    );
+  } else {
+    logger.success(`✔︎ ${branchStatuses.length} sync branches are up to date`);
+  }
+
+  return {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    githubProjectSubmoduleName,
+    isGithubRemoteAvailable: Boolean(githubBranchHeads),
+    branches: branchStatuses,
+  };
+}
+
+/** Output formats of the status report */
+export const statusReportFormats = ['table', 'json', 'markdown'] as const;
+
+export type StatusReportFormat = (typeof statusReportFormats)[number];
+
+/**
+ * Formats the status report of the GitLab destinations
+ *
+ * @param results Status results of every GitLab destination
+ * @param format Output format
+ */
+export function formatStatusReport(
+  results: Array<GitlabDestinationResult<StatusResult>>,
+  format: StatusReportFormat
+): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      results.map((result) =>
+        result.status === 'success'
+          ? result.result
+          : {
+              ...result.destination,
+              error:
+                result.error instanceof Error
+                  ? result.error.message
+                  : String(result.error),
+            }
+      ),
+      null,
+      2
+    );
+  }
+
+  return results
+    .map((result) => {
+      const title = formatGitlabDestination(result.destination);
+
+      if (result.status === 'failure') {
+        const message =
+          result.error instanceof Error
+            ? result.error.message
+            : String(result.error);
+
+        return format === 'markdown'
+          ? `### ${title}\n\n✖︎ ${message}`
+          : `${title}\n✖︎ ${message}`;
+      }
+
+      return format === 'markdown'
+        ? `### ${title}\n\n${formatStatusMarkdownTable(result.result)}`
+        : `${title}\n${formatStatusTextTable(result.result)}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Formats the sync branches as a plain text table with aligned columns
+ *
+ * @param result Status result of the GitLab destination
+ */
+function formatStatusTextTable({ branches }: StatusResult) {
+  if (!branches.length) return 'No sync branches';
+
+  const rows = [
+    [
+      'Branch',
+      'GitHub HEAD',
+      'Gitlink',
+      'MR',
+      'Pipeline',
+      'Conflicts',
+      'Issues',
+    ],
+    ...branches.map((branch) => formatStatusRow(branch)),
+  ];
+
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+/**
+ * Formats the sync branches as a markdown table, e.g. for the GitHub job summary
+ *
+ * @param result Status result of the GitLab destination
+ */
+function formatStatusMarkdownTable({ branches }: StatusResult) {
+  if (!branches.length) return 'No sync branches';
+
+  return [
+    '| Branch | GitHub HEAD | Gitlink | MR | Pipeline | Conflicts | Issues |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...branches.map((branch) => {
+      const [gitlabSourceBranch, ...cells] = formatStatusRow(branch);
+      const mrCell = branch.mergeRequest
+        ? `[${cells[2]}](${branch.mergeRequest.webUrl})`
+        : cells[2];
+
+      cells.splice(2, 1, mrCell);
+
+      return `| \`${gitlabSourceBranch}\` | ${cells.join(' | ')} |`;
+    }),
+  ].join('\n');
+}
+
+/**
+ * Formats the table cells of the sync branch
+ *
+ * @param branch Sync branch status
+ */
+function formatStatusRow({
+  gitlabSourceBranch,
+  githubBranchSHA,
+  gitlinkSHA,
+  mergeRequest,
+  issues,
+}: SyncBranchStatus) {
+  return [
+    gitlabSourceBranch,
+    githubBranchSHA?.slice(0, 7) ?? '-',
+    gitlinkSHA?.slice(0, 7) ?? '-',
+    mergeRequest ? `!${mergeRequest.iid}` : '-',
+    mergeRequest?.pipelineStatus ?? '-',
+    mergeRequest ? (mergeRequest.hasConflicts ? 'yes' : 'no') : '-',
+    issues.length ? issues.join(', ') : '✔︎',
+  ];
+}
@@ -1,14 +1,114 @@
-import { Gitlab } from '@gitbeaker/rest';
-
-import chalk from 'chalk';
-
+import {
+  CommandContext,
+  createCommandContext,
+  runAbortable,
+} from '../lib/command-context.js';
+import {
+  MergeRequestNotFoundError,
+  DuplicateMergeRequestsError,
+} from '../lib/errors.js';
+import { Logger } from '../lib/logger.js';
 import {
   createMRSourceBranchName,
   upsertBranch,
 } from '../lib/upsert-branch.js';
-import { BaseCommandOptions } from '../lib/types.js';
+import {
+  BaseCommandOptions,
+  CloneMode,
+  CommandResult,
+  GitCommitter,
+  GitSigningKey,
+  SyncStrategy,
+  SyncedSubmodule,
+  UpsertBranchResult,
+} from '../lib/types.js';
+import { upsertBranchViaApi } from '../lib/upsert-branch-via-api.js';
+import {
+  MessageTemplates,
+  createMessageTemplateValues,
+  renderMessageTemplate,
+  validateMessageTemplates,
+} from '../lib/message-templates.js';
+import {
+  MergeRequestMetadata,
+  ResolvedMergeRequestMetadata,
+  createMergeRequestMetadataEditOptions,
+  createMergeRequestMetadataOptions,
+  resolveMergeRequestMetadata,
+} from '../lib/merge-request-metadata.js';
 import { EditMergeRequestOptions } from '@gitbeaker/core';
 
+export interface SyncBranchResult extends CommandResult {
+  /**
+   * Whether the source branch is created, reset or rebased, the sync is superseded by another job,
+   * or the branch already points to the same or newer submodule commits
+   */
+  sourceBranchAction: UpsertBranchResult['sourceBranchAction'];
+
+  /** Whether the MR is created or the existing one is edited, `none` if the source branch is not pushed */
+  mergeRequestAction: 'create' | 'edit' | 'none';
+
+  /** Updated submodules with the SHA commits before and after the update */
+  submodules: SyncedSubmodule[];
+}
+
+export interface SyncBranchOptions extends BaseCommandOptions {
+  /** Strategy to update the submodule in the GitLab repository, `git` by default */
+  syncStrategy?: SyncStrategy;
+
+  /**
+   * Git identity of the submodule update commit of the `git` and `rebase` strategies, the GitLab token user by default.
+   * The `api` strategy commits as the token user
+   */
+  committer?: GitCommitter;
+
+  /**
+   * Clone mode of the `git` and `rebase` strategies, `full` by default.
+   * `fast` clones without the blobs and the full history, and checks out only the `.gitmodules`
+   */
+  cloneMode?: CloneMode;
+
+  /**
+   * Directory of the Git mirrors kept between the runs of the `git` and `rebase` strategies, e.g. on a self-hosted runner.
+   * The repositories are cloned to a temporary directory if not set
+   */
+  cacheDir?: string;
+
+  /**
+   * Move the submodules of the `git` and `rebase` strategies to the requested SHA commits,
+   * even if the source branch points to their descendants, e.g. for a rollback
+   */
+  allowRewind?: boolean;
+
+  /**
+   * GPG or SSH private key to sign the commits of the `git` and `rebase` strategies, e.g. for the push rules
+   * which require the signed commits. The pushed commit is checked to be verified by GitLab
+   */
+  signingKey?: GitSigningKey;
+
+  /** Labels, assignees, reviewers, milestone, draft status and squash setting of the MR */
+  mergeRequestMetadata?: MergeRequestMetadata;
+
+  /** Print the planned changes without pushing the branch or touching the MR */
+  dryRun?: boolean;
+}
+
+/**
+ * Creates a new GitLab Merge Request for the branch related to the GitHub repository
+ *
+ * @param options Command options, the GitLab client, Git factory, logger and abort signal are optional
+ * @returns MR and the synced submodules
+ */
+export async function syncBranch(
+  options: SyncBranchOptions
+): Promise<SyncBranchResult> {
+  const context = createCommandContext(options);
+
+  return runAbortable(context.signal, () =>
+    syncMergeRequestBranch(options, context)
+  );
+}
+
 /**
  * Creates a new GitLab Merge Request for the branch related to the GitHub repository
  *
@@ -17,37 +117,93 @@ import { EditMergeRequestOptions } from '@gitbeaker/core';
  * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
  * @param githubRepositorySHA SHA of the last branch commit to be used in the submodule update task
  * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param additionalSubmodules Other submodules to update in the same branch and MR
+ * @param githubPullRequestUrl GitHub Pull Request URL, used in the MR description
  * @param gitlabOptions GitLab options to authenticate and connect to the API
+ * @param retryOptions Retry counts and delays of the GitLab API requests and Git network operations
+ * @param messageTemplates Templates of the MR title and description, and the commit message
+ * @param mergeRequestMetadata Labels, assignees, reviewers, milestone, draft status and squash setting of the MR
+ * @param syncStrategy Strategy to update the submodule in the GitLab repository
+ * @param committer Git identity of the submodule update commit of the `git` and `rebase` strategies
+ * @param cloneMode Clone mode of the `git` and `rebase` strategies
+ * @param cacheDir Directory of the Git mirrors kept between the runs of the `git` and `rebase` strategies
+ * @param allowRewind Move the submodules to the requested SHA commits, even if the source branch points to their descendants
+ * @param signingKey GPG or SSH private key to sign the commits of the `git` and `rebase` strategies
+ * @param dryRun Print the planned changes without pushing the branch or touching the MR
+ * @param context GitLab client, Git factory and logger of the command
+ * @returns MR and the synced submodules
  */
-export async function syncBranch({
-  gitlabProjectId,
-  gitlabTargetBranch,
-  githubRepositoryBranch,
-  githubRepositorySHA,
-  githubProjectSubmoduleName,
-  gitlabOptions,
-}: BaseCommandOptions) {
+async function syncMergeRequestBranch(
+  {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    githubRepositoryBranch,
+    githubRepositorySHA,
+    githubProjectSubmoduleName,
+    additionalSubmodules,
+    githubPullRequestUrl,
+    gitlabOptions,
+    retryOptions,
+    messageTemplates = {},
+    mergeRequestMetadata = {},
+    syncStrategy = 'git',
+    committer,
+    cloneMode,
+    cacheDir,
+    allowRewind,
+    signingKey,
+    dryRun = false,
+  }: SyncBranchOptions,
+  context: CommandContext
+): Promise<SyncBranchResult> {
+  const { gitlab, logger } = context;
+
+  validateMessageTemplates(messageTemplates);
+
+  const metadata = await resolveMergeRequestMetadata({
+    gitlabProjectId,
+    mergeRequestMetadata,
+    context,
+  });
+
   const gitlabSourceBranch = createMRSourceBranchName({
     githubProjectSubmoduleName,
     githubRepositoryBranch,
   });
 
-  await upsertBranch({
+  const upsertBranchStrategy =
+    syncStrategy === 'api' ? upsertBranchViaApi : upsertBranch;
+
+  const { sourceBranchAction, syncedSubmodules } = await upsertBranchStrategy({
     gitlabProjectId,
     gitlabTargetBranch,
     githubRepositoryBranch,
     githubRepositorySHA,
     githubProjectSubmoduleName,
+    additionalSubmodules,
+    githubPullRequestUrl,
     gitlabOptions,
     gitlabSourceBranch,
+    retryOptions,
+    messageTemplates,
+    dryRun,
+    rebaseManualCommits: syncStrategy === 'rebase',
+    committer,
+    cloneMode,
+    cacheDir,
+    allowRewind,
+    signingKey,
+    context,
   });
 
-  const gitlab = new Gitlab(gitlabOptions);
+  // the source branch isn't pushed, if it's superseded by another job or already has the submodule commits
+  const isSourceBranchPushed =
+    sourceBranchAction !== 'superseded' &&
+    sourceBranchAction !== 'unchanged' &&
+    sourceBranchAction !== 'stale';
 
-  console.log(
-    chalk.gray(
-      `🔍 Checking if Merge Request already exists for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}...`
-    )
+  logger.info(
+    `🔍 Checking if Merge Request already exists for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}...`
   );
   const [existingMr, ...mrsRest] = await gitlab.MergeRequests.all({
     projectId: gitlabProjectId,
@@ -57,38 +213,97 @@ export async function syncBranch({
   });
 
   if (mrsRest.length) {
-    throw new Error(
-      `✖︎ Found more than one MR for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}"`
+    throw new DuplicateMergeRequestsError(
+      `Found more than one MR for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}"`,
+      [existingMr, ...mrsRest].map(({ iid }) => iid)
     );
   }
 
+  const { title, description } = createGitlabMergeRequestInfo({
+    syncedSubmodules,
+    gitlabTargetBranch,
+    githubPullRequestUrl,
+    messageTemplates,
+  });
+
   const options = {
     removeSourceBranch: true,
-    ...createGitlabMergeRequestInfo({
-      githubRepositorySHA,
-      githubRepositoryBranch,
-      githubProjectSubmoduleName,
-    }),
+    description,
+    ...(existingMr
+      ? createMergeRequestMetadataEditOptions(title, metadata, existingMr)
+      : createMergeRequestMetadataOptions(title, metadata)),
   };
 
+  const result: Omit<
+    SyncBranchResult,
+    'mergeRequestIid' | 'mergeRequestWebUrl' | 'mergeRequestState'
+  > = {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    gitlabSourceBranch,
+    sourceBranchAction,
+    mergeRequestAction: !isSourceBranchPushed
+      ? 'none'
+      : existingMr
+        ? 'edit'
+        : 'create',
+    submodules: syncedSubmodules,
+    dryRun,
+  };
+
+  if (dryRun) {
+    printSyncBranchPlan({
+      logger,
+      gitlabProjectId,
+      gitlabSourceBranch,
+      gitlabTargetBranch,
+      sourceBranchAction,
+      syncedSubmodules,
+      existingMrIid: existingMr?.iid,
+      title: options.title,
+      description,
+      metadata,
+    });
+
+    return {
+      ...result,
+      mergeRequestIid: existingMr?.iid,
+      mergeRequestWebUrl: existingMr?.web_url,
+      mergeRequestState: existingMr ? 'opened' : undefined,
+    };
+  }
+
+  // the job which pushed the submodule commits updates the MR
+  if (!isSourceBranchPushed) {
+    return {
+      ...result,
+      mergeRequestIid: existingMr?.iid,
+      mergeRequestWebUrl: existingMr?.web_url,
+      mergeRequestState: existingMr ? 'opened' : undefined,
+    };
+  }
+
   if (existingMr) {
-    console.log(
-      chalk.green(
-        `☑︎ Merge request #${existingMr.iid} found for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}". No need to create a new one.`
-      )
+    logger.success(
+      `☑︎ Merge request #${existingMr.iid} found for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}". No need to create a new one.`
     );
 
-    return void (await gitlab.MergeRequests.edit(
+    const editedMr = await gitlab.MergeRequests.edit(
       gitlabProjectId,
       existingMr.iid,
       options
-    ));
+    );
+
+    return {
+      ...result,
+      mergeRequestIid: editedMr.iid,
+      mergeRequestWebUrl: editedMr.web_url,
+      mergeRequestState: 'opened',
+    };
   }
 
-  console.log(
-    chalk.gray(
-      `⏳︎ Creating Merge Request for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}...`
-    )
+  logger.info(
+    `⏳︎ Creating Merge Request for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}...`
   );
 
   const newMr = await gitlab.MergeRequests.create(
@@ -100,58 +315,203 @@ export async function syncBranch({
   );
 
   if (!newMr.iid) {
-    throw new Error('✖︎ Merge request not created');
+    throw new MergeRequestNotFoundError(
+      'Merge request not created',
+      gitlabSourceBranch
+    );
   }
 
-  console.log(
-    chalk.green(
-      `✔️ Merge request #${newMr.iid} created for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}"`
-    )
+  logger.success(
+    `✔️ Merge request #${newMr.iid} created for branch related to "${githubRepositoryBranch}" and target branch "${gitlabTargetBranch}"`
   );
+  return {
+    ...result,
+    mergeRequestIid: newMr.iid,
+    mergeRequestWebUrl: newMr.web_url,
+    mergeRequestState: 'opened',
+  };
 }
 
 /**
- * Returns the GitHub Pull Request URL from the environment variables
+ * Prints the changes `sync-branch` would make, without making them
+ *
+ * @param logger Logger to print the plan to
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param gitlabSourceBranch Source branch name in GitLab to create the MR from
+ * @param gitlabTargetBranch Target branch name in GitLab to merge the MR into
+ * @param sourceBranchAction Whether the source branch would be created, reset, updated or rebased, or it's kept as is
+ * @param syncedSubmodules Submodules with the gitlink SHA commits before and after the update
+ * @param existingMrIid IID of the opened MR to edit, a new MR is created if missing
+ * @param title MR title
+ * @param description MR description
+ * @param metadata Labels, assignee and reviewer IDs, milestone ID and squash setting of the MR
  */
-function getGithubPullRequestUrl() {
-  try {
-    const prUrl =
-      process.env.GITHUB_PR_URL &&
-      new URL(process.env.GITHUB_PR_URL).toString();
-    // Check if the URL is a valid GitHub Pull Request URL, that ends with a number
-    if (/\d+$/.test(prUrl ?? '')) return prUrl;
-  } catch (error) {
-    return undefined;
+function printSyncBranchPlan({
+  logger,
+  gitlabProjectId,
+  gitlabSourceBranch,
+  gitlabTargetBranch,
+  sourceBranchAction,
+  syncedSubmodules,
+  existingMrIid,
+  title,
+  description,
+  metadata,
+}: Pick<UpsertBranchResult, 'sourceBranchAction' | 'syncedSubmodules'> & {
+  logger: Logger;
+  gitlabProjectId: string | number;
+  gitlabSourceBranch: string;
+  gitlabTargetBranch: string;
+  existingMrIid: number | undefined;
+  title: string;
+  description: string;
+  metadata: ResolvedMergeRequestMetadata;
+}) {
+  logger.info(`📝 Dry run plan for the project "${gitlabProjectId}":`);
+
+  if (sourceBranchAction === 'unchanged' || sourceBranchAction === 'stale') {
+    logger.info(
+      `  • keep branch "${gitlabSourceBranch}", it already points the submodules to the ${sourceBranchAction === 'stale' ? 'newer' : 'same'} SHA commits`
+    );
+
+    return;
+  }
+
+  logger.info(
+    sourceBranchAction === 'create'
+      ? `  • create branch "${gitlabSourceBranch}" from "${gitlabTargetBranch}"`
+      : sourceBranchAction === 'rebase'
+        ? `  • rebase branch "${gitlabSourceBranch}" onto "${gitlabTargetBranch}", keeping the commits created by people`
+        : sourceBranchAction === 'update'
+          ? `  • commit to branch "${gitlabSourceBranch}" on top of its commits`
+          : `  • reset branch "${gitlabSourceBranch}" to "${gitlabTargetBranch}"`
+  );
+
+  for (const submodule of syncedSubmodules) {
+    logger.info(
+      `  • update submodule "${submodule.githubProjectSubmoduleName}" gitlink ${submodule.previousGithubRepositorySHA ?? '(none)'} → ${submodule.githubRepositorySHA}`
+    );
   }
+
+  logger.info(
+    existingMrIid
+      ? `  • edit merge request #${existingMrIid}`
+      : `  • create merge request into "${gitlabTargetBranch}"`
+  );
+  logger.info(`    title: ${title}`);
+
+  if (metadata.labels.length)
+    logger.info(`    labels: ${metadata.labels.join(', ')}`);
+  if (metadata.assigneeIds.length)
+    logger.info(`    assignee IDs: ${metadata.assigneeIds.join(', ')}`);
+  if (metadata.reviewerIds.length)
+    logger.info(`    reviewer IDs: ${metadata.reviewerIds.join(', ')}`);
+  if (metadata.milestoneId !== undefined)
+    logger.info(`    milestone ID: ${metadata.milestoneId}`);
+  if (metadata.squash !== undefined)
+    logger.info(`    squash: ${metadata.squash}`);
+
+  logger.info(`    description:\n${description.replace(/^/gm, '      ')}`);
 }
 
 /**
- * Creates the GitLab Merge Request title and description
+ * Creates the GitLab Merge Request title and description from the templates,
+ * the default texts are used for the missing templates, the default description ends with the submodules changelog
  *
- * @param githubRepositorySHA SHA of the last branch commit to be used in MR description
- * @param githubRepositoryBranch Branch name in the GitHub repository which is described in the MR title
- * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param syncedSubmodules Updated submodules, the main one goes first.
+ *  Its branch is described in the MR title and linked to the GitHub Pull Request
+ * @param gitlabTargetBranch Target branch name in GitLab to merge the MR into
+ * @param githubPullRequestUrl GitHub Pull Request URL
+ * @param messageTemplates Templates of the MR title and description
  */
 function createGitlabMergeRequestInfo({
-  githubRepositorySHA,
-  githubRepositoryBranch,
-  githubProjectSubmoduleName,
-}: Pick<
-  BaseCommandOptions,
-  | 'githubRepositoryBranch'
-  | 'githubRepositorySHA'
-  | 'githubProjectSubmoduleName'
->) {
-  const githubPullRequestUrl = getGithubPullRequestUrl();
-  const submoduleBranchNameMarkdown = githubPullRequestUrl
-    ? `[\`${githubRepositoryBranch}\`](${githubPullRequestUrl})`
-    : `\`${githubRepositoryBranch}\``;
+  syncedSubmodules,
+  gitlabTargetBranch,
+  githubPullRequestUrl,
+  messageTemplates,
+}: {
+  syncedSubmodules: SyncedSubmodule[];
+  gitlabTargetBranch: string;
+  githubPullRequestUrl: string | undefined;
+  messageTemplates: MessageTemplates;
+}): Required<Pick<EditMergeRequestOptions, 'title' | 'description'>> {
+  const defaultInfo = createDefaultGitlabMergeRequestInfo(
+    syncedSubmodules,
+    githubPullRequestUrl
+  );
+
+  const templateValues = createMessageTemplateValues({
+    submodules: syncedSubmodules,
+    githubRepositoryBranch: syncedSubmodules[0].githubRepositoryBranch,
+    gitlabTargetBranch,
+    githubPullRequestUrl,
+    jiraKeyPattern: messageTemplates.jiraKeyPattern,
+  });
+
+  return {
+    title: messageTemplates.mergeRequestTitle
+      ? renderMessageTemplate(
+          messageTemplates.mergeRequestTitle,
+          templateValues
+        )
+      : defaultInfo.title,
+    description: messageTemplates.mergeRequestDescription
+      ? renderMessageTemplate(
+          messageTemplates.mergeRequestDescription,
+          templateValues
+        )
+      : [defaultInfo.description, templateValues.changelog]
+          .filter(Boolean)
+          .join('\n\n'),
+  };
+}
+
+/**
+ * Creates the default GitLab Merge Request title and description
+ *
+ * @param syncedSubmodules Updated submodules, the main one goes first.
+ *  Its branch is described in the MR title and linked to the GitHub Pull Request
+ * @param githubPullRequestUrl GitHub Pull Request URL
+ */
+function createDefaultGitlabMergeRequestInfo(
+  syncedSubmodules: SyncedSubmodule[],
+  githubPullRequestUrl: string | undefined
+) {
+  const [{ githubRepositoryBranch, githubProjectSubmoduleName }] =
+    syncedSubmodules;
+
+  const createSubmoduleBranchNameMarkdown = (branch: string) =>
+    githubPullRequestUrl && branch === githubRepositoryBranch
+      ? `[\`${branch}\`](${githubPullRequestUrl})`
+      : `\`${branch}\``;
+
+  if (syncedSubmodules.length === 1) {
+    const [{ githubRepositorySHA }] = syncedSubmodules;
+
+    const options: Required<
+      Pick<EditMergeRequestOptions, 'title' | 'description'>
+    > = {
+      title: `chore(${githubProjectSubmoduleName}): update submodule to '${githubRepositoryBranch}'`,
+      description: `This MR updates the \`${githubProjectSubmoduleName}\` submodule to the SHA commit \`${githubRepositorySHA}\` on the ${createSubmoduleBranchNameMarkdown(githubRepositoryBranch)} branch.`,
+    };
+
+    return options;
+  }
 
   const options: Required<
     Pick<EditMergeRequestOptions, 'title' | 'description'>
   > = {
-    title: `chore(${githubProjectSubmoduleName}): update submodule to '${githubRepositoryBranch}'`,
-    description: `This MR updates the \`${githubProjectSubmoduleName}\` submodule to the SHA commit \`${githubRepositorySHA}\` on the ${submoduleBranchNameMarkdown} branch.`,
+    title: `chore(${syncedSubmodules
+      .map((submodule) => submodule.githubProjectSubmoduleName)
+      .join(', ')}): update submodules to '${githubRepositoryBranch}'`,
+    description: [
+      'This MR updates the following submodules:',
+      '',
+      ...syncedSubmodules.map(
+        (submodule) =>
+          `- \`${submodule.githubProjectSubmoduleName}\` to the SHA commit \`${submodule.githubRepositorySHA}\` on the ${createSubmoduleBranchNameMarkdown(submodule.githubRepositoryBranch)} branch`
+      ),
+    ].join('\n'),
   };
 
   return options;
@@ -0,0 +1,71 @@
+export { syncBranch } from './commands/sync-branch.js';
+export type {
+  SyncBranchOptions,
+  SyncBranchResult,
+} from './commands/sync-branch.js';
+export { mergeMr } from './commands/merge-mr.js';
+export type { MergeMrOptions } from './commands/merge-mr.js';
+export { closeMr } from './commands/close-mr.js';
+export { status, formatStatusReport } from './commands/status.js';
+export type {
+  StatusOptions,
+  StatusResult,
+  SyncBranchStatus,
+  SyncBranchIssue,
+  StatusReportFormat,
+} from './commands/status.js';
+export { prune } from './commands/prune.js';
+export type {
+  PruneOptions,
+  PruneResult,
+  PrunedBranch,
+  PruneReason,
+} from './commands/prune.js';
+export { createMRSourceBranchName } from './lib/upsert-branch.js';
+export { createGitlabClient } from './lib/gitlab-client.js';
+export { gitlabTokenTypes } from './lib/git-credentials.js';
+export { defaultRetryOptions } from './lib/retry.js';
+export type { RetryOptions } from './lib/retry.js';
+export type { MessageTemplates } from './lib/message-templates.js';
+export type { MergeRequestMetadata } from './lib/merge-request-metadata.js';
+export type {
+  ChangelogCommit,
+  SubmoduleChangelog,
+} from './lib/submodule-changelog.js';
+export { consoleLogger, createRedactingLogger } from './lib/logger.js';
+export type { Logger } from './lib/logger.js';
+export {
+  SubmoduleSyncError,
+  InvalidOptionsError,
+  GitCommandError,
+  SourceBranchChangedError,
+  SubmoduleNotFoundError,
+  SubmodulesUpToDateError,
+  ManualCommitsError,
+  RebaseConflictError,
+  MergeRequestNotFoundError,
+  DuplicateMergeRequestsError,
+  MergeRequestConflictError,
+  SubmoduleSHAMismatchError,
+  MergeRequestNotMergedError,
+  MergeWaitTimeoutError,
+  PipelineFailedError,
+  CacheLockTimeoutError,
+  SigningKeyError,
+  CommitSignatureNotVerifiedError,
+  formatErrorChain,
+} from './lib/errors.js';
+export { addSecret, redactSecrets } from './lib/secrets.js';
+export type {
+  BaseCommandOptions,
+  CommandResult,
+  GitCommitter,
+  GitSigningKey,
+  GitFactory,
+  GitlabClient,
+  GitlabTokenType,
+  MergeRequestState,
+  SubmoduleUpdate,
+  SyncStrategy,
+  SyncedSubmodule,
+} from './lib/types.js';
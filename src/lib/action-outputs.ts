@@ -0,0 +1,92 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import { GitlabDestinationResult } from './gitlab-destinations.js';
+import { CommandResult } from './types.js';
+
+/**
+ * Creates the GitHub Action outputs, see `outputs` in the `action.yaml`.
+ * The outputs are taken from the first destination, the `results` output contains all of them
+ *
+ * @param results Results of the command for every GitLab destination
+ */
+export function createActionOutputs(
+  results: Array<GitlabDestinationResult<CommandResult>>
+): Record<string, string> {
+  const [firstResult] = results;
+  const result =
+    firstResult?.status === 'success' ? firstResult.result : undefined;
+
+  return {
+    mr_iid: result?.mergeRequestIid?.toString() ?? '',
+    mr_url: result?.mergeRequestWebUrl ?? '',
+    source_branch: result?.gitlabSourceBranch ?? '',
+    submodule_sha: result?.submodules[0]?.githubRepositorySHA ?? '',
+    merge_state: result?.mergeRequestState ?? '',
+    results: JSON.stringify(serializeGitlabDestinationResults(results)),
+  };
+}
+
+/**
+ * Converts the destination results to plain objects, the errors are replaced with their messages
+ *
+ * @param results Results of the command for every GitLab destination
+ */
+export function serializeGitlabDestinationResults<T = CommandResult>(
+  results: Array<GitlabDestinationResult<T>>
+) {
+  return results.map((result) =>
+    result.status === 'success'
+      ? result
+      : {
+          destination: result.destination,
+          status: result.status,
+          error:
+            result.error instanceof Error
+              ? result.error.message
+              : String(result.error),
+        }
+  );
+}
+
+/**
+ * Appends the outputs to the `$GITHUB_OUTPUT` file, does nothing outside GitHub Actions
+ *
+ * @param outputs Output names and values, the values could be multiline
+ * @param githubOutputPath Path to the GitHub output file
+ */
+export function writeGithubOutputs(
+  outputs: Record<string, string>,
+  githubOutputPath = process.env.GITHUB_OUTPUT
+) {
+  if (!githubOutputPath) return;
+
+  const content = Object.entries(outputs)
+    .map(([name, value]) => {
+      // the heredoc syntax is required for multiline values
+      const delimiter = `ghadelimiter_${randomUUID()}`;
+
+      return `${name}<<${delimiter}\n${value}\n${delimiter}\n`;
+    })
+    .join('');
+
+  fs.appendFileSync(githubOutputPath, content, 'utf8');
+}
+
+/**
+ * Prints the error annotation, which is shown on the workflow run summary, does nothing outside GitHub Actions
+ *
+ * @param message Error message, could be multiline
+ * @param title Annotation title, e.g. the failed GitLab destination
+ */
+export function printGithubErrorAnnotation(message: string, title?: string) {
+  if (process.env.GITHUB_ACTIONS !== 'true') return;
+
+  const escapeData = (value: string) =>
+    value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  const escapeProperty = (value: string) =>
+    escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+
+  console.log(
+    `::error${title ? ` title=${escapeProperty(title)}` : ''}::${escapeData(message)}`
+  );
+}
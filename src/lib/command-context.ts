@@ -0,0 +1,81 @@
+import { simpleGit } from 'simple-git';
+import { createGitlabClient } from './gitlab-client.js';
+import { Logger, consoleLogger, createRedactingLogger } from './logger.js';
+import { addSecret } from './secrets.js';
+import { BaseCommandOptions, GitFactory, GitlabClient } from './types.js';
+
+/** Dependencies of the command, resolved from the injected ones or the defaults */
+export interface CommandContext {
+  gitlab: GitlabClient;
+
+  /** Creates the Git client, the abort signal is already applied */
+  createGit: GitFactory;
+  logger: Logger;
+  signal: AbortSignal | undefined;
+}
+
+/**
+ * Creates the command dependencies, the missing ones are created from the command options.
+ * The GitLab token is registered as a secret, so it's masked in the logger messages and errors
+ *
+ * @param gitlab GitLab API client
+ * @param createGit Git client factory
+ * @param logger Logger of the command progress
+ * @param signal Signal to abort the command
+ * @param gitlabOptions GitLab options to create the API client
+ * @param retryOptions Retry counts and delays of the created API client
+ */
+export function createCommandContext({
+  gitlab,
+  createGit = simpleGit,
+  logger = consoleLogger,
+  signal,
+  gitlabOptions,
+  retryOptions,
+}: Pick<
+  BaseCommandOptions,
+  | 'gitlab'
+  | 'createGit'
+  | 'logger'
+  | 'signal'
+  | 'gitlabOptions'
+  | 'retryOptions'
+>): CommandContext {
+  if (typeof gitlabOptions.token === 'string') addSecret(gitlabOptions.token);
+
+  const redactingLogger = createRedactingLogger(logger);
+
+  return {
+    gitlab:
+      gitlab ??
+      createGitlabClient(gitlabOptions, retryOptions, {
+        logger: redactingLogger,
+        signal,
+      }),
+    createGit: (options) =>
+      createGit(signal ? { ...options, abort: signal } : options),
+    logger: redactingLogger,
+    signal,
+  };
+}
+
+/**
+ * Runs the command, rejecting with the signal reason, if it's aborted while running,
+ * instead of the error of the interrupted Git process or GitLab API request
+ *
+ * @param signal Signal to abort the command
+ * @param command Command to run
+ */
+export async function runAbortable<T>(
+  signal: AbortSignal | undefined,
+  command: () => Promise<T>
+): Promise<T> {
+  signal?.throwIfAborted();
+
+  try {
+    return await command();
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw error;
+  }
+}
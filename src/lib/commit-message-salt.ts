@@ -0,0 +1,88 @@
+import {
+  MessageTemplateValues,
+  renderMessageTemplate,
+} from './message-templates.js';
+import { SubmoduleUpdate } from './types.js';
+
+/**
+ * Salt to identify the commits related to the submodule sync.
+ * Every commit created by the sync contains it in the commit message.
+ */
+export const defaultCommitMessageSalt = 'submodule-auto-sync';
+
+/**
+ * Checks if the commit message contains the submodule sync salt
+ *
+ * @param commitMessage Commit message to check
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ */
+export function hasCommitMessageSalt(
+  commitMessage: string,
+  commitMessageSalt: string = defaultCommitMessageSalt
+): boolean {
+  return new RegExp(`\\b${commitMessageSalt}\\b`).test(commitMessage);
+}
+
+/**
+ * Creates the message of the commit which updates the submodules
+ *
+ * @param submoduleUpdates Submodules updated by the commit
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @param template Template of the commit message, the default message is created if missing
+ * @param templateValues Values of the template placeholders
+ */
+export function createSubmoduleCommitMessage({
+  submoduleUpdates,
+  commitMessageSalt,
+  template,
+  templateValues,
+}: {
+  submoduleUpdates: Pick<
+    SubmoduleUpdate,
+    'githubProjectSubmoduleName' | 'githubRepositoryBranch'
+  >[];
+  commitMessageSalt: string;
+  template: string | undefined;
+  templateValues: MessageTemplateValues;
+}) {
+  if (template) {
+    return keepCommitMessageSalt(
+      renderMessageTemplate(template, templateValues),
+      commitMessageSalt
+    );
+  }
+
+  if (submoduleUpdates.length === 1) {
+    const [{ githubProjectSubmoduleName, githubRepositoryBranch }] =
+      submoduleUpdates;
+
+    return `chore: update '${githubProjectSubmoduleName}' submodule to '${githubRepositoryBranch}' \`${commitMessageSalt}\``;
+  }
+
+  const submodulesList = submoduleUpdates
+    .map(
+      ({ githubProjectSubmoduleName, githubRepositoryBranch }) =>
+        `'${githubProjectSubmoduleName}' to '${githubRepositoryBranch}'`
+    )
+    .join(', ');
+
+  return `chore: update submodules ${submodulesList} \`${commitMessageSalt}\``;
+}
+
+/**
+ * Appends the salt to the first line of the commit message, if it's missing there.
+ * Only the first line is checked, as `git log` of the Git strategy reads the commit subjects
+ *
+ * @param commitMessage Commit message created from the template
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ */
+function keepCommitMessageSalt(
+  commitMessage: string,
+  commitMessageSalt: string
+) {
+  const [subject, ...body] = commitMessage.split('\n');
+
+  if (hasCommitMessageSalt(subject, commitMessageSalt)) return commitMessage;
+
+  return [`${subject} \`${commitMessageSalt}\``, ...body].join('\n');
+}
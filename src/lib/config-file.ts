@@ -0,0 +1,229 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { InvalidOptionsError } from './errors.js';
+
+/** File names of the config file, which are looked up from the working directory upwards */
+export const configFileNames = [
+  '.gitlab-submodule-sync.yml',
+  '.gitlab-submodule-sync.yaml',
+];
+
+const nonEmptyString = z.string().trim().min(1);
+
+const configFileSchema = z
+  .object({
+    version: z.literal(1, {
+      errorMap: () => ({ message: 'Only version `1` is supported' }),
+    }),
+    gitlab: z
+      .object({
+        host: z.string().url(),
+        tokenType: z
+          .enum(['personal', 'project', 'group', 'oauth', 'job'])
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    projects: z
+      .array(
+        z
+          .object({
+            id: z.union([nonEmptyString, z.number().int().positive()]),
+            targetBranch: nonEmptyString.optional(),
+            submodule: nonEmptyString.optional(),
+          })
+          .strict()
+      )
+      .min(1)
+      .optional(),
+    submodules: z
+      .array(
+        z
+          .object({
+            name: nonEmptyString,
+            branch: nonEmptyString.optional(),
+          })
+          .strict()
+      )
+      .min(1)
+      .optional(),
+    branchMappings: z
+      .array(
+        z
+          .object({
+            github: nonEmptyString,
+            gitlabTargetBranch: nonEmptyString,
+          })
+          .strict()
+      )
+      .optional(),
+    sync: z
+      .object({
+        strategy: z.enum(['api', 'git', 'rebase']).optional(),
+        cloneMode: z.enum(['full', 'fast']).optional(),
+        cacheDir: nonEmptyString.optional(),
+        concurrency: z.number().int().positive().optional(),
+        committer: z
+          .object({
+            name: nonEmptyString,
+            email: z.string().email(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    retry: z
+      .object({
+        retries: z.number().int().nonnegative().optional(),
+        delay: z.number().nonnegative().optional(),
+        maxDelay: z.number().nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+    merge: z
+      .object({
+        whenPipelineSucceeds: z.boolean().optional(),
+        wait: z.boolean().optional(),
+        waitTimeout: z.number().int().positive().optional(),
+        waitPollInterval: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    prune: z
+      .object({
+        maxAge: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    mergeRequest: z
+      .object({
+        labels: z.array(nonEmptyString).optional(),
+        assignees: z.array(nonEmptyString).optional(),
+        reviewers: z.array(nonEmptyString).optional(),
+        milestone: nonEmptyString.optional(),
+        draft: z.boolean().optional(),
+        squash: z.boolean().optional(),
+        usernameMapping: z.record(nonEmptyString, nonEmptyString).optional(),
+      })
+      .strict()
+      .optional(),
+    templates: z
+      .object({
+        mergeRequestTitle: nonEmptyString.optional(),
+        mergeRequestDescription: nonEmptyString.optional(),
+        commitMessage: nonEmptyString.optional(),
+        mergeCommitMessage: nonEmptyString.optional(),
+        jiraKeyPattern: nonEmptyString.optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Config file `.gitlab-submodule-sync.yml`
+ *
+ * @example
+ * ```yaml
+ * version: 1
+ * gitlab:
+ *   host: https://gitlab.com
+ * projects:
+ *   - id: my-team/my-repo
+ *     targetBranch: main
+ * submodules:
+ *   - name: my-sdk
+ * branchMappings:
+ *   - github: 'release/*'
+ *     gitlabTargetBranch: release
+ * merge:
+ *   whenPipelineSucceeds: true
+ * mergeRequest:
+ *   labels: [submodule-sync]
+ *   usernameMapping:
+ *     octocat: john.doe
+ * templates:
+ *   mergeRequestTitle: 'feat({{jiraKey}}): update {{submodule}} to {{shortSha}}'
+ * ```
+ */
+export type ConfigFile = z.infer<typeof configFileSchema>;
+
+/**
+ * Looks up the config file from the directory upwards
+ *
+ * @param fromDir Directory to start the lookup from
+ */
+export function findConfigFile(fromDir = process.cwd()): string | undefined {
+  let currentDir = path.resolve(fromDir);
+  let previousDir: string;
+
+  do {
+    for (const configFileName of configFileNames) {
+      const configFilePath = path.join(currentDir, configFileName);
+      if (fs.existsSync(configFilePath)) return configFilePath;
+    }
+
+    previousDir = currentDir;
+    currentDir = path.dirname(currentDir);
+  } while (currentDir !== previousDir);
+
+  return undefined;
+}
+
+/**
+ * Reads and validates the config file
+ *
+ * @param configFilePath Path to the config file
+ */
+export function loadConfigFile(configFilePath: string): ConfigFile {
+  let content: unknown;
+
+  try {
+    content = parseYaml(fs.readFileSync(configFilePath, 'utf-8'));
+  } catch (error) {
+    throw new InvalidOptionsError(
+      `Failed to read config file "${configFilePath}": ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const result = configFileSchema.safeParse(content);
+
+  if (!result.success) {
+    throw new InvalidOptionsError(
+      [
+        `Invalid config file "${configFilePath}":`,
+        ...result.error.issues.map(
+          (issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`
+        ),
+      ].join('\n')
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Finds the GitLab target branch for the GitHub branch in the branch mappings.
+ * The `*` in the `github` pattern matches any characters.
+ *
+ * @param branchMappings Branch mappings from the config file
+ * @param githubRepositoryBranch Branch name in the GitHub repository
+ */
+export function matchBranchMapping(
+  branchMappings: ConfigFile['branchMappings'],
+  githubRepositoryBranch: string
+): string | undefined {
+  return branchMappings?.find(({ github }) =>
+    new RegExp(
+      `^${github
+        .split('*')
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`
+    ).test(githubRepositoryBranch)
+  )?.gitlabTargetBranch;
+}
@@ -0,0 +1,226 @@
+import type { JobSchema, PipelineSchema } from '@gitbeaker/core';
+import { GitbeakerRequestError } from '@gitbeaker/requester-utils';
+import { redactError, redactSecrets } from './secrets.js';
+
+/**
+ * Base class of the errors thrown by the commands.
+ * The messages are plain text, the CLI prints them with the `✖︎` prefix
+ */
+export class SubmoduleSyncError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** Options, inputs or the config file are missing or invalid */
+export class InvalidOptionsError extends SubmoduleSyncError {}
+
+/** Git command failed, the failed Git error is kept as the cause with the secrets masked */
+export class GitCommandError extends SubmoduleSyncError {
+  /** Output of the failed Git command with the secrets masked, e.g. `fatal: Authentication failed` */
+  readonly gitOutput: string | undefined;
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options && { cause: redactError(options.cause) });
+
+    this.gitOutput =
+      options?.cause instanceof Error
+        ? options.cause.message.trim() || undefined
+        : undefined;
+  }
+}
+
+/**
+ * Source branch was changed by another job or by people since it was fetched, so the push lease is rejected.
+ * The sync is retried with the changed branch
+ */
+export class SourceBranchChangedError extends GitCommandError {
+  constructor(
+    message: string,
+    readonly gitlabSourceBranch: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** Submodule is not declared in the `.gitmodules` of the GitLab repository */
+export class SubmoduleNotFoundError extends SubmoduleSyncError {
+  constructor(
+    message: string,
+    readonly githubProjectSubmoduleName: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** All the submodules already point to the requested SHA commits in the target branch */
+export class SubmodulesUpToDateError extends SubmoduleSyncError {}
+
+/** Source branch contains commits which were not created by the submodule sync */
+export class ManualCommitsError extends SubmoduleSyncError {
+  constructor(
+    message: string,
+    readonly gitlabSourceBranch: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** Commit created by people conflicts with the target branch, when it's rebased by the `rebase` strategy */
+export class RebaseConflictError extends SubmoduleSyncError {
+  constructor(
+    message: string,
+    readonly commitSHA: string,
+    readonly conflictedFiles: string[],
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** Opened MR is not found for the source and target branches */
+export class MergeRequestNotFoundError extends SubmoduleSyncError {
+  constructor(
+    message: string,
+    readonly gitlabSourceBranch: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** More than one opened MR is found for the source and target branches */
+export class DuplicateMergeRequestsError extends SubmoduleSyncError {
+  constructor(
+    message: string,
+    readonly mergeRequestIids: number[],
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** MR has conflicts with the target branch */
+export class MergeRequestConflictError extends SubmoduleSyncError {
+  constructor(
+    message: string,
+    readonly mergeRequestIid: number,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** MR head points the submodule to another SHA commit than expected */
+export class SubmoduleSHAMismatchError extends SubmoduleSyncError {
+  constructor(
+    message: string,
+    readonly details: {
+      mergeRequestIid: number;
+      githubProjectSubmoduleName: string;
+      expectedSHA: string;
+      actualSHA: string | undefined;
+    },
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** MR is not merged, e.g. it's closed, or GitLab hasn't merged it after the pipeline */
+export class MergeRequestNotMergedError extends SubmoduleSyncError {
+  constructor(
+    message: string,
+    readonly mergeRequestIid: number,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** MR is not merged within the wait timeout */
+export class MergeWaitTimeoutError extends MergeRequestNotMergedError {}
+
+/** MR pipeline failed or was canceled */
+export class PipelineFailedError extends MergeRequestNotMergedError {
+  constructor(
+    message: string,
+    mergeRequestIid: number,
+    readonly pipeline: Pick<PipelineSchema, 'id' | 'status' | 'web_url'>,
+    readonly failedJobs: Pick<
+      JobSchema,
+      'id' | 'name' | 'stage' | 'failure_reason' | 'web_url'
+    >[],
+    options?: ErrorOptions
+  ) {
+    super(message, mergeRequestIid, options);
+  }
+}
+
+/** Cache directory lock is held by another job for longer than the lock timeout */
+export class CacheLockTimeoutError extends SubmoduleSyncError {
+  constructor(
+    message: string,
+    readonly lockPath: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** Commit signing key is not a supported private key, or it can't be imported with the passphrase */
+export class SigningKeyError extends SubmoduleSyncError {}
+
+/** Pushed commit is not signed, or GitLab doesn't verify its signature, e.g. the key isn't added to the committer account */
+export class CommitSignatureNotVerifiedError extends SubmoduleSyncError {
+  constructor(
+    message: string,
+    readonly commitSHA: string,
+    readonly verificationStatus: string | undefined,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/**
+ * Describes the error and its causes, one line per error with the secrets masked.
+ * The GitLab API errors are described with the response description
+ *
+ * @param error Error thrown by the command
+ * @returns Messages of the error and its causes, the outermost first
+ */
+export function formatErrorChain(error: unknown): string[] {
+  const lines: string[] = [];
+  const seen = new Set<unknown>();
+  let current: unknown = error;
+
+  while (current !== undefined && !seen.has(current)) {
+    seen.add(current);
+
+    if (current instanceof GitbeakerRequestError) {
+      const description = current.cause?.description;
+
+      lines.push(
+        description
+          ? `${current.message}: ${typeof description === 'string' ? description : JSON.stringify(description)}`
+          : current.message
+      );
+      break;
+    }
+
+    if (!(current instanceof Error)) {
+      lines.push(String(current));
+      break;
+    }
+
+    lines.push(current.message.trim() || current.name);
+    current = current.cause;
+  }
+
+  return lines.map((line) => redactSecrets(line));
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { CacheLockTimeoutError } from './errors.js';
+import { Logger } from './logger.js';
+
+/** Time between the attempts to take the lock held by another job, in milliseconds */
+const lockPollInterval = 1000;
+
+/** Maximum time to wait for the lock held by another job, in milliseconds */
+const lockTimeout = 10 * 60 * 1000;
+
+/**
+ * Age of the lock file after which its holder is considered dead, in milliseconds.
+ * The holder touches the file more often, so the lock of a killed job doesn't block the cache forever
+ */
+const lockStaleTimeout = 60 * 1000;
+
+/**
+ * Takes the exclusive lock of the lock file, waiting while another job on the same machine holds it.
+ * The lock is released when the returned value is disposed, e.g. with the `using`
+ *
+ * @param lockPath Path of the lock file, e.g. `/cache/gitlab.com/my-team/my-app.git.lock`
+ * @param logger Logger of the waiting
+ * @param signal Abort signal of the waiting
+ * @returns Lock which is released on dispose
+ */
+export async function acquireFileLock(
+  lockPath: string,
+  { logger, signal }: { logger: Logger; signal?: AbortSignal }
+): Promise<Disposable> {
+  const startTime = Date.now();
+  let isWaitingLogged = false;
+
+  // the content identifies the holder, the same process may wait for its own lock, e.g. for another destination
+  const lockContent = JSON.stringify({
+    hostname: os.hostname(),
+    pid: process.pid,
+    id: randomUUID(),
+  });
+
+  while (!tryCreateLockFile(lockPath, lockContent)) {
+    // the content is read before the age, so the lock taken after the check is not removed as the stale one
+    const staleLockContent = readLockFile(lockPath);
+    const lockStats = fs.statSync(lockPath, { throwIfNoEntry: false });
+
+    // the lock was released in the meantime
+    if (!lockStats || staleLockContent === undefined) continue;
+
+    if (Date.now() - lockStats.mtimeMs > lockStaleTimeout) {
+      if (removeLockFile(lockPath, staleLockContent)) {
+        logger.warn(`⚠︎ Removed the stale lock "${lockPath}" of a dead job`);
+      }
+
+      continue;
+    }
+
+    if (Date.now() - startTime > lockTimeout) {
+      throw new CacheLockTimeoutError(
+        `Timed out waiting for the lock "${lockPath}" held by another job`,
+        lockPath
+      );
+    }
+
+    if (!isWaitingLogged) {
+      logger.info(`⏳︎ Waiting for the lock "${lockPath}" held by another job`);
+      isWaitingLogged = true;
+    }
+
+    await sleep(lockPollInterval, undefined, { signal });
+  }
+
+  // the failed touch is ignored, the lock file is checked by the waiting jobs only
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+
+    fs.utimes(lockPath, now, now, () => {});
+  }, lockStaleTimeout / 3);
+
+  // the heartbeat doesn't keep the process alive, if the lock is not released
+  heartbeat.unref();
+
+  return {
+    [Symbol.dispose]() {
+      clearInterval(heartbeat);
+      removeLockFile(lockPath, lockContent);
+    },
+  };
+}
+
+/**
+ * Creates the lock file, if it doesn't exist
+ *
+ * @param lockPath Path of the lock file
+ * @param lockContent Content identifying the lock holder
+ * @returns Whether the lock file was created
+ */
+function tryCreateLockFile(lockPath: string, lockContent: string): boolean {
+  try {
+    // the `wx` flag fails if the file exists, so only one job creates it
+    fs.writeFileSync(lockPath, lockContent, { flag: 'wx' });
+
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+
+    throw error;
+  }
+}
+
+/**
+ * Reads the lock file
+ *
+ * @param lockPath Path of the lock file
+ * @returns `undefined` if the lock file doesn't exist
+ */
+function readLockFile(lockPath: string): string | undefined {
+  try {
+    return fs.readFileSync(lockPath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+
+    throw error;
+  }
+}
+
+/**
+ * Removes the lock file, only if it's still the lock of the holder, e.g. not the lock just taken by another job.
+ * The file is moved away atomically first, so only one job removes it, and the lock of another holder is moved back
+ *
+ * @param lockPath Path of the lock file
+ * @param lockContent Content identifying the lock holder
+ * @returns Whether the lock file was removed
+ */
+function removeLockFile(lockPath: string, lockContent: string): boolean {
+  const removedLockPath = `${lockPath}.${randomUUID()}.removed`;
+
+  try {
+    fs.renameSync(lockPath, removedLockPath);
+  } catch (error) {
+    // another job removed the lock file in the meantime
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+
+    throw error;
+  }
+
+  const isRemoved = readLockFile(removedLockPath) === lockContent;
+
+  if (!isRemoved) {
+    try {
+      // the link fails if the file exists, so the lock taken in the meantime is kept
+      fs.linkSync(removedLockPath, lockPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+  }
+
+  fs.rmSync(removedLockPath, { force: true });
+
+  return isRemoved;
+}
@@ -0,0 +1,100 @@
+import { addSecret } from './secrets.js';
+import { BaseCommandOptions, GitlabTokenType } from './types.js';
+
+/** Token types accepted by the `tokenType` GitLab option */
+export const gitlabTokenTypes: GitlabTokenType[] = [
+  'personal',
+  'project',
+  'group',
+  'oauth',
+  'job',
+];
+
+/**
+ * Git HTTP username of the token type. GitLab takes the CI job token only with `gitlab-ci-token`,
+ * and the OAuth token with `oauth2`, the personal, project and group access tokens are accepted with any username
+ */
+const gitUsernames: Record<GitlabTokenType, string> = {
+  personal: 'oauth2',
+  project: 'oauth2',
+  group: 'oauth2',
+  oauth: 'oauth2',
+  job: 'gitlab-ci-token',
+};
+
+/**
+ * Creates the HTTPS remote URL of the GitLab project, without the credentials
+ *
+ * @param gitlabOptions GitLab host
+ * @param projectPath Project path with namespace, e.g. `my-team/my-app`
+ */
+export function createGitlabRemoteUrl(
+  { host }: Pick<BaseCommandOptions['gitlabOptions'], 'host'>,
+  projectPath: string
+): string {
+  return `https://${new URL(host).host}/${projectPath}.git`;
+}
+
+/**
+ * Creates the Git environment variables which authenticate the requests to the GitLab host only.
+ * The token is passed in the `http.extraHeader` config of the GitLab URL through the `GIT_CONFIG_*` variables,
+ * so it's not written to the `.git/config` of the clone, and it's not sent to the submodule remotes on other hosts.
+ * The Git config variables already set in the environment are kept
+ *
+ * @param gitlabOptions GitLab host, token and token type
+ * @param env Environment of the Git processes, `process.env` by default
+ * @returns Environment of the Git processes with the credentials
+ */
+export async function createGitCredentialsEnv(
+  { host, token, tokenType = 'personal' }: BaseCommandOptions['gitlabOptions'],
+  env: NodeJS.ProcessEnv = process.env
+): Promise<Record<string, string>> {
+  const resolvedToken = typeof token === 'function' ? await token() : token;
+  const credentials = Buffer.from(
+    `${gitUsernames[tokenType]}:${resolvedToken}`
+  ).toString('base64');
+
+  addSecret(resolvedToken);
+  addSecret(credentials);
+
+  return {
+    ...appendGitConfigEnv(
+      Object.fromEntries(
+        Object.entries(env).filter(([, value]) => value !== undefined)
+      ) as Record<string, string>,
+      {
+        [`http.https://${new URL(host).host}/.extraHeader`]: `Authorization: Basic ${credentials}`,
+      }
+    ),
+    // fail instead of waiting for the input, if the credentials are rejected
+    GIT_TERMINAL_PROMPT: '0',
+  };
+}
+
+/**
+ * Adds the Git config entries to the environment through the `GIT_CONFIG_*` variables,
+ * so they apply to every Git process run with the environment, but they're not written to any Git config file.
+ * The Git config variables already set in the environment are kept
+ *
+ * @param env Environment of the Git processes
+ * @param config Git config entries, e.g. `{ 'commit.gpgSign': 'true' }`
+ * @returns Environment of the Git processes with the config entries
+ */
+export function appendGitConfigEnv(
+  env: Record<string, string>,
+  config: Record<string, string>
+): Record<string, string> {
+  const configCount = Number(env.GIT_CONFIG_COUNT) || 0;
+  const entries = Object.entries(config);
+
+  return {
+    ...env,
+    GIT_CONFIG_COUNT: String(configCount + entries.length),
+    ...Object.fromEntries(
+      entries.flatMap(([key, value], index) => [
+        [`GIT_CONFIG_KEY_${configCount + index}`, key],
+        [`GIT_CONFIG_VALUE_${configCount + index}`, value],
+      ])
+    ),
+  };
+}
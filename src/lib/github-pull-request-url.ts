@@ -0,0 +1,14 @@
+/**
+ * Parses the GitHub Pull Request URL, returns `undefined` if it's not valid
+ *
+ * @param value GitHub Pull Request URL, e.g. `https://github.com/my-team/my-sdk/pull/123`
+ */
+export function parseGithubPullRequestUrl(value: string | undefined) {
+  try {
+    const prUrl = value && new URL(value).toString();
+    // Check if the URL is a valid GitHub Pull Request URL, that ends with a number
+    if (/\d+$/.test(prUrl ?? '')) return prUrl;
+  } catch (error) {
+    return undefined;
+  }
+}
@@ -0,0 +1,84 @@
+import { GitbeakerRequestError } from '@gitbeaker/requester-utils';
+import { GitlabClient } from './types.js';
+
+/**
+ * Checks if the branch exists in the GitLab repository
+ *
+ * @param gitlab GitLab API client
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param branch Branch name in the GitLab repository
+ */
+export async function isGitlabBranchExists({
+  gitlab,
+  gitlabProjectId,
+  branch,
+}: {
+  gitlab: GitlabClient;
+  gitlabProjectId: string;
+  branch: string;
+}): Promise<boolean> {
+  const sha = await getGitlabBranchSHA({ gitlab, gitlabProjectId, branch });
+
+  return sha !== undefined;
+}
+
+/**
+ * Gets the HEAD commit SHA of the branch in the GitLab repository
+ *
+ * @param gitlab GitLab API client
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param branch Branch name in the GitLab repository
+ * @returns `undefined` if the branch doesn't exist
+ */
+export async function getGitlabBranchSHA({
+  gitlab,
+  gitlabProjectId,
+  branch,
+}: {
+  gitlab: GitlabClient;
+  gitlabProjectId: string;
+  branch: string;
+}): Promise<string | undefined> {
+  return gitlab.Branches.show(gitlabProjectId, branch).then(
+    ({ commit }) => commit.id,
+    (error) => {
+      if (
+        error instanceof GitbeakerRequestError &&
+        error.cause?.response.status === 404
+      )
+        return undefined;
+
+      throw error;
+    }
+  );
+}
+
+/**
+ * Checks if the commit is reachable from the branch HEAD in the GitLab repository,
+ * e.g. whether the sync branch already contains the target branch HEAD
+ *
+ * @param gitlab GitLab API client
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param sha SHA of the commit to look for
+ * @param branchSHA SHA of the branch HEAD
+ */
+export async function isGitlabCommitInBranch({
+  gitlab,
+  gitlabProjectId,
+  sha,
+  branchSHA,
+}: {
+  gitlab: GitlabClient;
+  gitlabProjectId: string;
+  sha: string;
+  branchSHA: string;
+}): Promise<boolean> {
+  // a single missing commit is enough, the rest of the pages isn't fetched
+  const [missingCommit] = await gitlab.Commits.all(gitlabProjectId, {
+    refName: `${branchSHA}..${sha}`,
+    perPage: 1,
+    maxPages: 1,
+  });
+
+  return !missingCommit;
+}
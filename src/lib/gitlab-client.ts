@@ -0,0 +1,227 @@
+import {
+  DefaultRequestOptions,
+  FormattedResponse,
+  GitbeakerRequestError,
+  GitbeakerTimeoutError,
+  RateLimiters,
+  RequestOptions,
+  RequesterType,
+  ResourceOptions,
+  ResponseBodyTypes,
+  createRequesterFn,
+  getMatchingRateLimiter,
+} from '@gitbeaker/requester-utils';
+import { Gitlab } from '@gitbeaker/rest';
+import { Logger } from './logger.js';
+import { RetryOptions, defaultRetryOptions, withRetry } from './retry.js';
+import { BaseCommandOptions, GitlabClient } from './types.js';
+
+type RequesterMethod = keyof RequesterType;
+
+/** Requests which can be sent again, even if GitLab has handled the failed one */
+const idempotentMethods: RequesterMethod[] = ['get', 'delete'];
+
+/**
+ * Creates the GitLab API client, which retries the requests failed with the transient errors.
+ * The `POST`, `PUT` and `PATCH` requests are retried only if GitLab has rejected them without handling, e.g. with HTTP 429,
+ * so a lost response never creates a duplicate MR or note.
+ * The token is sent in the header of its type, e.g. `JOB-TOKEN` for the CI job token
+ *
+ * @param gitlabOptions GitLab options to authenticate and connect to the API
+ * @param retryOptions Retry counts and delays
+ * @param logger Logger of the retries
+ * @param signal Signal to abort the requests, in addition to the query timeout
+ */
+export function createGitlabClient(
+  gitlabOptions: BaseCommandOptions['gitlabOptions'],
+  retryOptions: RetryOptions = defaultRetryOptions,
+  { logger, signal }: { logger?: Logger; signal?: AbortSignal } = {}
+): GitlabClient {
+  const requesterFn = createRequesterFn(
+    (_, requestOptions) =>
+      Promise.resolve(
+        signal
+          ? {
+              ...requestOptions,
+              signal: requestOptions.signal
+                ? anyAbortSignal([requestOptions.signal, signal])
+                : signal,
+            }
+          : requestOptions
+      ),
+    requestGitlabApi
+  );
+
+  const { host, token, tokenType = 'personal' } = gitlabOptions;
+
+  return new Gitlab({
+    host,
+    ...(tokenType === 'job'
+      ? { jobToken: token }
+      : tokenType === 'oauth'
+        ? { oauthToken: token }
+        : { token }),
+    requesterFn: (resourceOptions: ResourceOptions): RequesterType => {
+      const requester = requesterFn(resourceOptions);
+
+      // every HTTP request is retried separately, e.g. a single page of the paginated list
+      const withRequestRetry =
+        (method: RequesterMethod) =>
+        <T extends ResponseBodyTypes>(
+          endpoint: string,
+          options?: DefaultRequestOptions
+        ) =>
+          withRetry(() => requester[method]<T>(endpoint, options), {
+            operationName: `GitLab API ${method.toUpperCase()} ${endpoint}`,
+            retryOptions,
+            logger,
+            signal,
+            retryIf: idempotentMethods.includes(method)
+              ? undefined
+              : isRequestRejectedUnhandled,
+          });
+
+      return {
+        get: withRequestRetry('get'),
+        post: withRequestRetry('post'),
+        put: withRequestRetry('put'),
+        patch: withRequestRetry('patch'),
+        delete: withRequestRetry('delete'),
+      };
+    },
+  });
+}
+
+/**
+ * Checks whether GitLab has rejected the request without handling it: rate limited with HTTP 429,
+ * or asked to come back later with the `Retry-After` header, e.g. during maintenance
+ *
+ * @param error Error thrown by the request
+ */
+function isRequestRejectedUnhandled(error: unknown): boolean {
+  if (!(error instanceof GitbeakerRequestError) || !error.cause?.response)
+    return false;
+
+  const { status, headers } = error.cause.response;
+
+  return status === 429 || headers.has('retry-after');
+}
+
+/**
+ * Creates the signal which is aborted when any of the signals is aborted
+ *
+ * @param signals Signals to follow
+ */
+function anyAbortSignal(signals: AbortSignal[]): AbortSignal {
+  // `AbortSignal.any` is available since Node.js 20.3, but not declared in `@types/node` 20.12
+  return (
+    AbortSignal as unknown as { any(signals: AbortSignal[]): AbortSignal }
+  ).any(signals);
+}
+
+/**
+ * Sends the request to the GitLab API, the same way as the `@gitbeaker/rest` does,
+ * but without its own retries, which ignore the `Retry-After` header
+ *
+ * @param endpoint API endpoint, relative to the `prefixUrl`
+ * @param options Request options prepared by the options handler
+ */
+async function requestGitlabApi(
+  endpoint: string,
+  options?: Record<string, unknown>
+): Promise<FormattedResponse> {
+  const {
+    prefixUrl,
+    asStream,
+    searchParams,
+    rateLimiters,
+    method,
+    ...requestInit
+  } = (options ?? {}) as RequestOptions & { rateLimiters?: RateLimiters };
+
+  await getMatchingRateLimiter(endpoint, rateLimiters, method)();
+
+  const url = new URL(
+    endpoint,
+    prefixUrl && (prefixUrl.endsWith('/') ? prefixUrl : `${prefixUrl}/`)
+  );
+  url.search = searchParams ?? '';
+
+  const request = new Request(url, {
+    ...requestInit,
+    method,
+    mode: endpoint.includes('repository/archive') ? 'same-origin' : undefined,
+  });
+
+  const response = await fetch(request).catch((error: unknown) => {
+    if (
+      error instanceof Error &&
+      (error.name === 'TimeoutError' || error.name === 'AbortError')
+    )
+      throw new GitbeakerTimeoutError('Query timeout was reached');
+
+    throw error;
+  });
+
+  if (!response.ok) {
+    const content = await response.text();
+    const description = response.headers
+      .get('content-type')
+      ?.includes('application/json')
+      ? parseErrorMessage(content)
+      : content;
+
+    throw new GitbeakerRequestError(response.statusText, {
+      cause: { description, request, response },
+    });
+  }
+
+  const headers = Object.fromEntries(response.headers.entries());
+
+  if (asStream)
+    return {
+      body: response.body as FormattedResponse['body'],
+      headers,
+      status: response.status,
+    };
+
+  return {
+    body: response.status === 204 ? null : await parseResponseBody(response),
+    headers,
+    status: response.status,
+  };
+}
+
+/**
+ * Gets the message of the JSON error response.
+ * The malformed or truncated body is returned as is, so the HTTP status is still reported and classified
+ *
+ * @param content Error response body
+ */
+function parseErrorMessage(content: string): string {
+  try {
+    return (JSON.parse(content) as { message?: string }).message ?? content;
+  } catch {
+    return content;
+  }
+}
+
+/**
+ * Parses the response body by its content type
+ *
+ * @param response GitLab API response
+ */
+async function parseResponseBody(response: Response) {
+  const contentType = (response.headers.get('content-type') ?? '')
+    .split(';')[0]
+    .trim();
+
+  if (contentType === 'application/json')
+    return response
+      .json()
+      .then((body) => (body ?? {}) as Record<string, unknown>);
+
+  if (contentType.startsWith('text/')) return response.text();
+
+  return response.blob();
+}
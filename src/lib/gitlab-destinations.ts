@@ -0,0 +1,180 @@
+import chalk from 'chalk';
+import { InvalidOptionsError } from './errors.js';
+import { Logger, consoleLogger, createPrefixedLogger } from './logger.js';
+import { BaseCommandOptions } from './types.js';
+
+/** GitLab project, target branch and submodule to sync the GitHub branch into */
+export type GitlabDestination = Pick<
+  BaseCommandOptions,
+  'gitlabProjectId' | 'gitlabTargetBranch' | 'githubProjectSubmoduleName'
+>;
+
+export type GitlabDestinationResult<T = unknown> =
+  | { destination: GitlabDestination; status: 'success'; result: T }
+  | { destination: GitlabDestination; status: 'failure'; error: unknown };
+
+/**
+ * Parses the list of GitLab destinations in the `<project-id>:<target-branch>[:<submodule-name>]` format,
+ * separated by commas or new lines
+ *
+ * @example
+ * ```ts
+ * parseGitlabDestinations('my-team/app:main:my-sdk,my-team/web:develop');
+ * ```
+ *
+ * @param value List of GitLab destinations
+ * @returns Destinations, the submodule name is `undefined` if it's omitted
+ */
+export function parseGitlabDestinations(
+  value: string
+): Array<
+  Omit<GitlabDestination, 'githubProjectSubmoduleName'> &
+    Partial<Pick<GitlabDestination, 'githubProjectSubmoduleName'>>
+> {
+  return value
+    .split(/[\n,]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const [
+        gitlabProjectId,
+        gitlabTargetBranch,
+        githubProjectSubmoduleName,
+        ...rest
+      ] = item.split(':');
+
+      if (!gitlabProjectId || !gitlabTargetBranch || rest.length)
+        throw new InvalidOptionsError(
+          `Invalid GitLab destination "${item}", expected format is "<project-id>:<target-branch>[:<submodule-name>]"`
+        );
+
+      return {
+        gitlabProjectId,
+        gitlabTargetBranch,
+        githubProjectSubmoduleName: githubProjectSubmoduleName || undefined,
+      };
+    });
+}
+
+/**
+ * Runs the task for every GitLab destination independently,
+ * so one failed destination doesn't abort the rest.
+ * The destinations processed at the same time get the loggers with the destination prefix
+ *
+ * @param destinations GitLab destinations to run the task for
+ * @param concurrency Maximum number of destinations processed at the same time
+ * @param task Task to run for the destination with its logger
+ */
+export async function runForEachGitlabDestination<T>({
+  destinations,
+  concurrency,
+  task,
+}: {
+  destinations: GitlabDestination[];
+  concurrency: number;
+  task: (destination: GitlabDestination, logger: Logger) => Promise<T>;
+}): Promise<Array<GitlabDestinationResult<T>>> {
+  const results: Array<GitlabDestinationResult<T>> = new Array(
+    destinations.length
+  );
+  let nextDestinationIndex = 0;
+
+  const runWorker = async () => {
+    while (nextDestinationIndex < destinations.length) {
+      const destinationIndex = nextDestinationIndex++;
+      const destination = destinations[destinationIndex];
+
+      console.log(
+        chalk.bold(
+          `\n🎯 ${formatGitlabDestination(destination)} (${destinationIndex + 1}/${destinations.length})`
+        )
+      );
+
+      // the messages of the destinations processed at the same time are interleaved
+      const logger =
+        concurrency > 1
+          ? createPrefixedLogger(
+              consoleLogger,
+              `[${formatGitlabDestination(destination)}]`
+            )
+          : consoleLogger;
+
+      try {
+        results[destinationIndex] = {
+          destination,
+          status: 'success',
+          result: await task(destination, logger),
+        };
+      } catch (error) {
+        results[destinationIndex] = { destination, status: 'failure', error };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, destinations.length)) },
+      runWorker
+    )
+  );
+
+  return results;
+}
+
+/**
+ * Prints the per-destination success/failure table
+ *
+ * @param results Results of the destinations
+ */
+export function printGitlabDestinationsSummary(
+  results: GitlabDestinationResult[]
+) {
+  const rows = results.map((result) => ({
+    destination: formatGitlabDestination(result.destination),
+    status: result.status === 'success' ? '✔︎ success' : '✖︎ failure',
+    reason:
+      result.status === 'failure'
+        ? result.error instanceof Error
+          ? result.error.message
+          : String(result.error)
+        : '',
+  }));
+
+  const destinationWidth = Math.max(
+    'Destination'.length,
+    ...rows.map(({ destination }) => destination.length)
+  );
+  const statusWidth = Math.max(
+    'Status'.length,
+    ...rows.map(({ status }) => status.length)
+  );
+
+  console.log(
+    chalk.bold(
+      `\n${'Destination'.padEnd(destinationWidth)}  ${'Status'.padEnd(statusWidth)}  Reason`
+    )
+  );
+
+  for (const { destination, status, reason } of rows) {
+    const color = status.includes('success') ? chalk.green : chalk.red;
+
+    console.log(
+      color(
+        `${destination.padEnd(destinationWidth)}  ${status.padEnd(statusWidth)}  ${reason}`
+      )
+    );
+  }
+}
+
+/**
+ * Formats the GitLab destination for the logs, e.g. `my-team/app@main (my-sdk)`
+ *
+ * @param destination GitLab destination
+ */
+export function formatGitlabDestination({
+  gitlabProjectId,
+  gitlabTargetBranch,
+  githubProjectSubmoduleName,
+}: GitlabDestination) {
+  return `${gitlabProjectId}@${gitlabTargetBranch} (${githubProjectSubmoduleName})`;
+}
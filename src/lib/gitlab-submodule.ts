@@ -0,0 +1,87 @@
+import path from 'node:path';
+import { SubmoduleNotFoundError, SubmoduleSyncError } from './errors.js';
+import { GitmodulesEntry, parseGitmodules } from './gitmodules.js';
+import { GitlabClient } from './types.js';
+
+/**
+ * Reads the submodule entry from the `.gitmodules` file through the GitLab repository files API
+ *
+ * @param gitlab GitLab API client
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param ref Branch name or SHA to read the `.gitmodules` file from
+ * @param submoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ */
+export async function getGitlabSubmodule({
+  gitlab,
+  gitlabProjectId,
+  ref,
+  submoduleName,
+}: {
+  gitlab: GitlabClient;
+  gitlabProjectId: string;
+  ref: string;
+  submoduleName: string;
+}): Promise<GitmodulesEntry & { path: string }> {
+  const gitmodulesRaw = await gitlab.RepositoryFiles.showRaw(
+    gitlabProjectId,
+    '.gitmodules',
+    ref
+  ).catch((error) => {
+    throw new SubmoduleSyncError(
+      `Failed to get ".gitmodules" file on "${ref}"`,
+      {
+        cause: error,
+      }
+    );
+  });
+
+  const gitmodules = parseGitmodules(
+    typeof gitmodulesRaw === 'string'
+      ? gitmodulesRaw
+      : await gitmodulesRaw.text()
+  );
+
+  const submodule = gitmodules.find(({ name }) => name === submoduleName);
+
+  if (!submodule?.path) {
+    throw new SubmoduleNotFoundError(
+      `Submodule "${submoduleName}" path not found in ".gitmodules" on "${ref}"`,
+      submoduleName
+    );
+  }
+
+  return { ...submodule, path: submodule.path };
+}
+
+/**
+ * Gets the SHA commit the submodule (gitlink) points to through the GitLab repository tree API
+ *
+ * @param gitlab GitLab API client
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param ref Branch name or SHA to read the repository tree from
+ * @param submodulePath Submodule path relative to the repository root
+ */
+export async function getGitlabSubmoduleSHA({
+  gitlab,
+  gitlabProjectId,
+  ref,
+  submodulePath,
+}: {
+  gitlab: GitlabClient;
+  gitlabProjectId: string;
+  ref: string;
+  submodulePath: string;
+}): Promise<string | undefined> {
+  const parentPath = path.posix.dirname(submodulePath);
+
+  const tree = await gitlab.Repositories.allRepositoryTrees(gitlabProjectId, {
+    ref,
+    path: parentPath === '.' ? undefined : parentPath,
+  });
+
+  const gitlink = tree.find(
+    (treeItem) => treeItem.type === 'commit' && treeItem.path === submodulePath
+  );
+
+  return gitlink?.id;
+}
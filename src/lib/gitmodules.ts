@@ -0,0 +1,63 @@
+export interface GitmodulesEntry {
+  /** Submodule name, e.g. `my-sdk` from `[submodule "my-sdk"]` */
+  name: string;
+
+  /** Submodule path relative to the repository root */
+  path?: string;
+
+  /** Submodule remote URL */
+  url?: string;
+
+  /** Submodule branch, if configured */
+  branch?: string;
+}
+
+/**
+ * Parses the `.gitmodules` file content
+ *
+ * @param content Content of the `.gitmodules` file
+ */
+export function parseGitmodules(content: string): GitmodulesEntry[] {
+  const entries: GitmodulesEntry[] = [];
+  let currentEntry: GitmodulesEntry | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+    const sectionMatch = line.match(/^\[\s*submodule\s+"(.+)"\s*\]$/);
+
+    if (sectionMatch) {
+      currentEntry = { name: sectionMatch[1] };
+      entries.push(currentEntry);
+      continue;
+    }
+
+    if (line.startsWith('[')) {
+      // a section which is not related to submodules
+      currentEntry = undefined;
+      continue;
+    }
+
+    const keyValueMatch = line.match(/^([\w-]+)\s*=\s*(.*)$/);
+
+    if (!currentEntry || !keyValueMatch) continue;
+
+    const [, key, value] = keyValueMatch;
+
+    switch (key.toLowerCase()) {
+      case 'path':
+        currentEntry.path = value;
+        break;
+      case 'url':
+        currentEntry.url = value;
+        break;
+      case 'branch':
+        currentEntry.branch = value;
+        break;
+    }
+  }
+
+  return entries;
+}
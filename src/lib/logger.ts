@@ -0,0 +1,64 @@
+import chalk from 'chalk';
+import { redactSecrets } from './secrets.js';
+
+/**
+ * Receives the progress messages of the commands.
+ * The messages are plain text, the emoji prefixes are kept for the CI logs readability
+ */
+export interface Logger {
+  /** Command step, e.g. `🔍 Checking if Merge Request already exists` */
+  info(message: string): void;
+
+  /** Completed step, e.g. `✔︎ Merge request #1 created` */
+  success(message: string): void;
+
+  /** Recoverable problem, e.g. a retried request or a skipped step */
+  warn(message: string): void;
+
+  /** Failure details, printed before the error is thrown */
+  error(message: string): void;
+}
+
+/** Prints the messages to the console with colors, the default logger of the commands and the CLI */
+export const consoleLogger: Logger = {
+  info: (message) => console.log(chalk.gray(message)),
+  success: (message) => console.log(chalk.green(message)),
+  warn: (message) => console.error(chalk.yellow(message)),
+  error: (message) => console.error(chalk.red(message)),
+};
+
+/**
+ * Wraps the logger to mask the secrets in every message, see `addSecret`
+ *
+ * @param logger Logger to print the redacted messages to
+ */
+export function createRedactingLogger(logger: Logger): Logger {
+  return {
+    info: (message) => logger.info(redactSecrets(message)),
+    success: (message) => logger.success(redactSecrets(message)),
+    warn: (message) => logger.warn(redactSecrets(message)),
+    error: (message) => logger.error(redactSecrets(message)),
+  };
+}
+
+/**
+ * Wraps the logger to prefix every line of the messages, e.g. with the GitLab destination,
+ * so the messages of the destinations synced at the same time can be told apart
+ *
+ * @param logger Logger to print the prefixed messages to
+ * @param prefix Prefix of every line, e.g. `[my-team/app@main (my-sdk)]`
+ */
+export function createPrefixedLogger(logger: Logger, prefix: string): Logger {
+  const addPrefix = (message: string) =>
+    message
+      .split('\n')
+      .map((line) => `${prefix} ${line}`)
+      .join('\n');
+
+  return {
+    info: (message) => logger.info(addPrefix(message)),
+    success: (message) => logger.success(addPrefix(message)),
+    warn: (message) => logger.warn(addPrefix(message)),
+    error: (message) => logger.error(addPrefix(message)),
+  };
+}
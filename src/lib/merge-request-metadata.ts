@@ -0,0 +1,259 @@
+import type {
+  CreateMergeRequestOptions,
+  EditMergeRequestOptions,
+  MergeRequestSchema,
+} from '@gitbeaker/core';
+import { CommandContext } from './command-context.js';
+import { InvalidOptionsError } from './errors.js';
+
+/** Labels, people and merge settings of the MR created or edited by `sync-branch` */
+export interface MergeRequestMetadata {
+  /** Labels added to the MR, the labels added by people are kept on re-sync */
+  labels?: string[];
+
+  /** GitLab usernames of the MR assignees */
+  assignees?: string[];
+
+  /** GitLab usernames of the MR reviewers */
+  reviewers?: string[];
+
+  /** Title of the project or group milestone */
+  milestone?: string;
+
+  /** Create the MR as a draft, the draft status is kept on re-sync, so people can mark the MR as ready */
+  draft?: boolean;
+
+  /** Squash the MR commits on merge */
+  squash?: boolean;
+
+  /** GitHub username of the Pull Request author, assigned to the MR through the `usernameMapping` */
+  githubPullRequestAuthor?: string;
+
+  /** GitLab usernames by the GitHub usernames, e.g. `{ 'octocat': 'john.doe' }` */
+  usernameMapping?: Record<string, string>;
+}
+
+/** MR metadata with the users and the milestone resolved to their GitLab IDs */
+export interface ResolvedMergeRequestMetadata {
+  labels: string[];
+  assigneeIds: number[];
+  reviewerIds: number[];
+  milestoneId: number | undefined;
+  draft: boolean;
+  squash: boolean | undefined;
+}
+
+/** GitLab marks the MR as a draft by the title prefix */
+const draftTitlePattern = /^\s*(\[draft\]|\(draft\)|draft:)\s*/i;
+
+/**
+ * Resolves the assignee and reviewer usernames and the milestone title to their GitLab IDs,
+ * so the unknown ones fail the command before any change
+ *
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param mergeRequestMetadata MR metadata with the usernames and the milestone title
+ * @param context GitLab client and logger of the command
+ */
+export async function resolveMergeRequestMetadata({
+  gitlabProjectId,
+  mergeRequestMetadata: {
+    labels = [],
+    assignees = [],
+    reviewers = [],
+    milestone,
+    draft = false,
+    squash,
+    githubPullRequestAuthor,
+    usernameMapping = {},
+  },
+  context: { gitlab, logger },
+}: {
+  gitlabProjectId: string;
+  mergeRequestMetadata: MergeRequestMetadata;
+  context: Pick<CommandContext, 'gitlab' | 'logger'>;
+}): Promise<ResolvedMergeRequestMetadata> {
+  const authorAssignee =
+    githubPullRequestAuthor && usernameMapping[githubPullRequestAuthor];
+
+  if (githubPullRequestAuthor && !authorAssignee) {
+    logger.warn(
+      `⚠︎ GitHub user "${githubPullRequestAuthor}" is not found in the username mapping, the MR is not assigned to them`
+    );
+  }
+
+  /**
+   * Resolves the GitLab usernames to the user IDs
+   *
+   * @param usernames GitLab usernames
+   */
+  const resolveUserIds = async (usernames: string[]) => {
+    const userIds: number[] = [];
+
+    for (const username of new Set(usernames)) {
+      const [user] = await gitlab.Users.all({ username });
+
+      if (!user) {
+        throw new InvalidOptionsError(`GitLab user "${username}" not found`);
+      }
+
+      userIds.push(user.id);
+    }
+
+    return userIds;
+  };
+
+  const assigneeIds = await resolveUserIds(
+    authorAssignee ? [...assignees, authorAssignee] : assignees
+  );
+  const reviewerIds = await resolveUserIds(reviewers);
+
+  let milestoneId: number | undefined;
+
+  if (milestone) {
+    const milestones = await gitlab.ProjectMilestones.all(gitlabProjectId, {
+      title: milestone,
+      includeParentMilestones: true,
+    });
+
+    milestoneId = milestones.find(({ title }) => title === milestone)?.id;
+
+    if (!milestoneId) {
+      throw new InvalidOptionsError(
+        `Milestone "${milestone}" not found in the project "${gitlabProjectId}"`
+      );
+    }
+  }
+
+  return {
+    labels: [...new Set(labels)],
+    assigneeIds,
+    reviewerIds,
+    milestoneId,
+    draft,
+    squash,
+  };
+}
+
+/**
+ * Creates the options of the new MR with the metadata
+ *
+ * @param title MR title, prefixed with `Draft:` for the draft MR
+ * @param metadata Resolved MR metadata
+ */
+export function createMergeRequestMetadataOptions(
+  title: string,
+  {
+    labels,
+    assigneeIds,
+    reviewerIds,
+    milestoneId,
+    draft,
+    squash,
+  }: ResolvedMergeRequestMetadata
+): { title: string } & Pick<
+  CreateMergeRequestOptions,
+  'labels' | 'assigneeIds' | 'reviewerIds' | 'milestoneId' | 'squash'
+> {
+  return {
+    title: draft ? createDraftTitle(title) : title,
+    ...(labels.length > 0 && { labels: labels.join(',') }),
+    ...(assigneeIds.length > 0 && { assigneeIds }),
+    ...(reviewerIds.length > 0 && { reviewerIds }),
+    ...(milestoneId !== undefined && { milestoneId }),
+    ...(squash !== undefined && { squash }),
+  };
+}
+
+/**
+ * Creates the options to edit the existing MR with the metadata.
+ * The labels, assignees and reviewers are added to the ones set by people, and the draft status is kept
+ *
+ * @param title MR title
+ * @param metadata Resolved MR metadata
+ * @param existingMr MR to edit
+ */
+export function createMergeRequestMetadataEditOptions(
+  title: string,
+  {
+    labels,
+    assigneeIds,
+    reviewerIds,
+    milestoneId,
+    squash,
+  }: ResolvedMergeRequestMetadata,
+  existingMr: Pick<MergeRequestSchema, 'draft' | 'assignees' | 'reviewers'>
+): { title: string } & Pick<
+  EditMergeRequestOptions,
+  'addLabels' | 'assigneeIds' | 'reviewerIds' | 'milestoneId' | 'squash'
+> {
+  const mergeUserIds = (
+    users: MergeRequestSchema['assignees'],
+    userIds: number[]
+  ) => [...new Set([...(users ?? []).map(({ id }) => id), ...userIds])];
+
+  return {
+    title: existingMr.draft ? createDraftTitle(title) : title,
+    ...(labels.length > 0 && { addLabels: labels.join(',') }),
+    ...(assigneeIds.length > 0 && {
+      assigneeIds: mergeUserIds(existingMr.assignees, assigneeIds),
+    }),
+    ...(reviewerIds.length > 0 && {
+      reviewerIds: mergeUserIds(existingMr.reviewers, reviewerIds),
+    }),
+    ...(milestoneId !== undefined && { milestoneId }),
+    ...(squash !== undefined && { squash }),
+  };
+}
+
+/**
+ * Parses the username mapping in the `<github-username>:<gitlab-username>` format,
+ * separated by commas or new lines
+ *
+ * @example
+ * ```ts
+ * parseUsernameMapping('octocat:john.doe,hubot:jane.doe');
+ * ```
+ *
+ * @param value List of username pairs
+ */
+export function parseUsernameMapping(value: string): Record<string, string> {
+  return Object.fromEntries(
+    value
+      .split(/[\n,]/)
+      .map((item) => item.trim())
+      .filter(Boolean)
+      .map((item) => {
+        const [githubUsername, gitlabUsername, ...rest] = item
+          .split(':')
+          .map((username) => username.trim());
+
+        if (!githubUsername || !gitlabUsername || rest.length)
+          throw new InvalidOptionsError(
+            `Invalid username mapping "${item}", expected format is "<github-username>:<gitlab-username>"`
+          );
+
+        return [githubUsername, gitlabUsername];
+      })
+  );
+}
+
+/**
+ * Parses the list separated by commas or new lines, e.g. labels or usernames
+ *
+ * @param value List of items
+ */
+export function parseList(value: string): string[] {
+  return value
+    .split(/[\n,]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Prefixes the title with `Draft:`, if it's not a draft title already
+ *
+ * @param title MR title
+ */
+function createDraftTitle(title: string) {
+  return draftTitlePattern.test(title) ? title : `Draft: ${title}`;
+}
@@ -0,0 +1,204 @@
+import { InvalidOptionsError } from './errors.js';
+import { createSubmoduleChangelogMarkdown } from './submodule-changelog.js';
+import { SubmoduleUpdate, SyncedSubmodule } from './types.js';
+
+/**
+ * Templates of the texts created by the commands, the default texts are used for the missing ones.
+ * The templates contain `{{placeholder}}`s, e.g. `feat({{jiraKey}}): update {{submodule}} to {{shortSha}}`
+ */
+export interface MessageTemplates {
+  /** Title of the MR created or edited by `sync-branch` */
+  mergeRequestTitle?: string;
+
+  /** Description of the MR created or edited by `sync-branch` */
+  mergeRequestDescription?: string;
+
+  /** Message of the commit updating the submodule, the commit message salt is appended to its first line if missing */
+  commitMessage?: string;
+
+  /** Message of the merge commit created by `merge-mr` */
+  mergeCommitMessage?: string;
+
+  /** Regular expression to take the Jira key from the branch name, its first capturing group is used if present */
+  jiraKeyPattern?: string;
+}
+
+/** Jira key is taken from the branch name with this regular expression by default, e.g. `PROJ-123` */
+export const defaultJiraKeyPattern = '[A-Z][A-Z0-9_]+-\\d+';
+
+/** Placeholders supported by the templates */
+export const messageTemplatePlaceholders = [
+  'submodule',
+  'submodules',
+  'branch',
+  'targetBranch',
+  'sha',
+  'shortSha',
+  'oldSha',
+  'shortOldSha',
+  'prUrl',
+  'prNumber',
+  'jiraKey',
+  'changelog',
+] as const;
+
+export type MessageTemplatePlaceholder =
+  (typeof messageTemplatePlaceholders)[number];
+
+/** Values of the placeholders, the missing ones, e.g. `prUrl` without the PR, are rendered as empty strings */
+export type MessageTemplateValues = Record<
+  MessageTemplatePlaceholder,
+  string | undefined
+>;
+
+const placeholderPattern = /\{\{\s*([^{}\s]*)\s*\}\}/g;
+
+const templateKeys = [
+  'mergeRequestTitle',
+  'mergeRequestDescription',
+  'commitMessage',
+  'mergeCommitMessage',
+] as const;
+
+/**
+ * Validates the templates have only the known placeholders, and the Jira key pattern is a valid regular expression
+ *
+ * @param messageTemplates Templates to validate
+ */
+export function validateMessageTemplates(messageTemplates: MessageTemplates) {
+  for (const templateKey of templateKeys) {
+    const template = messageTemplates[templateKey];
+
+    if (template === undefined) continue;
+
+    if (!template.trim()) {
+      throw new InvalidOptionsError(`Template "${templateKey}" is empty`);
+    }
+
+    const unknownPlaceholders = [...template.matchAll(placeholderPattern)]
+      .map(([, placeholder]) => placeholder)
+      .filter((placeholder) => !isMessageTemplatePlaceholder(placeholder));
+
+    if (unknownPlaceholders.length) {
+      throw new InvalidOptionsError(
+        `Template "${templateKey}" has unknown placeholders ${unknownPlaceholders
+          .map((placeholder) => `"{{${placeholder}}}"`)
+          .join(', ')}. Supported placeholders are ${messageTemplatePlaceholders
+          .map((placeholder) => `"{{${placeholder}}}"`)
+          .join(', ')}`
+      );
+    }
+  }
+
+  if (messageTemplates.jiraKeyPattern !== undefined)
+    createJiraKeyRegExp(messageTemplates.jiraKeyPattern);
+}
+
+/**
+ * Replaces the placeholders in the template with their values
+ *
+ * @param template Template with the `{{placeholder}}`s
+ * @param values Values of the placeholders
+ */
+export function renderMessageTemplate(
+  template: string,
+  values: MessageTemplateValues
+): string {
+  return template.replace(placeholderPattern, (_match, placeholder: string) => {
+    if (!isMessageTemplatePlaceholder(placeholder)) {
+      throw new InvalidOptionsError(
+        `Unknown template placeholder "{{${placeholder}}}"`
+      );
+    }
+
+    return values[placeholder] ?? '';
+  });
+}
+
+/**
+ * Creates the values of the template placeholders
+ *
+ * @param submodules Submodules described by the text, the main one goes first
+ * @param githubRepositoryBranch Branch name in the GitHub repository the sync branch is created for, the Jira key is taken from it
+ * @param gitlabTargetBranch Target branch name in GitLab to merge the MR into
+ * @param githubPullRequestUrl GitHub Pull Request URL
+ * @param jiraKeyPattern Regular expression to take the Jira key from the branch name
+ */
+export function createMessageTemplateValues({
+  submodules,
+  githubRepositoryBranch,
+  gitlabTargetBranch,
+  githubPullRequestUrl,
+  jiraKeyPattern = defaultJiraKeyPattern,
+}: {
+  submodules: (Pick<
+    SubmoduleUpdate,
+    'githubProjectSubmoduleName' | 'githubRepositorySHA'
+  > &
+    Partial<
+      Pick<SyncedSubmodule, 'previousGithubRepositorySHA' | 'changelog'>
+    >)[];
+  githubRepositoryBranch: string;
+  gitlabTargetBranch: string;
+  githubPullRequestUrl: string | undefined;
+  jiraKeyPattern: string | undefined;
+}): MessageTemplateValues {
+  const [
+    {
+      githubProjectSubmoduleName,
+      githubRepositorySHA,
+      previousGithubRepositorySHA,
+    },
+  ] = submodules;
+
+  const jiraKeyMatch = createJiraKeyRegExp(jiraKeyPattern).exec(
+    githubRepositoryBranch
+  );
+
+  return {
+    submodule: githubProjectSubmoduleName,
+    submodules: submodules
+      .map((submodule) => submodule.githubProjectSubmoduleName)
+      .join(', '),
+    branch: githubRepositoryBranch,
+    targetBranch: gitlabTargetBranch,
+    sha: githubRepositorySHA,
+    shortSha: githubRepositorySHA?.slice(0, 7),
+    oldSha: previousGithubRepositorySHA,
+    shortOldSha: previousGithubRepositorySHA?.slice(0, 7),
+    prUrl: githubPullRequestUrl,
+    prNumber: githubPullRequestUrl?.match(/(\d+)$/)?.[1],
+    jiraKey: jiraKeyMatch?.[1] ?? jiraKeyMatch?.[0],
+    changelog: createSubmoduleChangelogMarkdown(submodules),
+  };
+}
+
+/**
+ * Checks if the name is a supported template placeholder
+ *
+ * @param placeholder Placeholder name
+ */
+function isMessageTemplatePlaceholder(
+  placeholder: string
+): placeholder is MessageTemplatePlaceholder {
+  return (messageTemplatePlaceholders as readonly string[]).includes(
+    placeholder
+  );
+}
+
+/**
+ * Creates the regular expression of the Jira key
+ *
+ * @param jiraKeyPattern Regular expression source, e.g. `[A-Z]+-\d+`
+ */
+function createJiraKeyRegExp(jiraKeyPattern: string) {
+  try {
+    return new RegExp(jiraKeyPattern);
+  } catch (error) {
+    throw new InvalidOptionsError(
+      `Invalid Jira key pattern "${jiraKeyPattern}": ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
@@ -0,0 +1,246 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { SimpleGit } from 'simple-git';
+import { CommandContext } from './command-context.js';
+import { GitCommandError } from './errors.js';
+import { acquireFileLock } from './file-lock.js';
+import { withRetry } from './retry.js';
+import { BaseCommandOptions } from './types.js';
+
+/**
+ * Gets the path of the bare mirror of the remote repository in the cache directory,
+ * e.g. `<cacheDir>/gitlab.com/my-team/my-app.git` for `https://gitlab.com/my-team/my-app.git`
+ *
+ * @param cacheDir Directory of the mirrors kept between the runs
+ * @param remoteUrl URL of the remote repository, without the credentials
+ */
+export function getMirrorPath(cacheDir: string, remoteUrl: string): string {
+  // the scp-like syntax of SSH, e.g. `git@github.com:my-org/my-sdk.git`
+  const scpLikeUrlMatch = /^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/.exec(remoteUrl);
+  const { host, pathname } = scpLikeUrlMatch
+    ? { host: scpLikeUrlMatch[1], pathname: scpLikeUrlMatch[2] }
+    : new URL(remoteUrl);
+
+  const segments = [host || 'local', ...pathname.split('/')]
+    .filter(Boolean)
+    .map((segment) =>
+      segment
+        .replace(/[^\w.-]/g, '_')
+        .replace(/^\./, '_')
+        .replace(/\.git$/, '')
+    );
+
+  return `${path.resolve(cacheDir, ...segments)}.git`;
+}
+
+/**
+ * Refreshes the bare mirror of the remote repository in the cache directory, the mirror is created on the first run.
+ * The mirror stays locked until it's disposed, so the other jobs on the same machine don't fetch or prune it
+ * while a clone borrows its objects
+ *
+ * @param cacheDir Directory of the mirrors kept between the runs
+ * @param remoteUrl URL of the remote repository, without the credentials
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory, logger and abort signal of the command
+ * @returns Path of the mirror, e.g. to reference its objects in the clones, the mirror is unlocked on dispose
+ */
+export async function refreshMirror({
+  cacheDir,
+  remoteUrl,
+  retryOptions,
+  context,
+}: {
+  cacheDir: string;
+  remoteUrl: string;
+  context: CommandContext;
+} & Pick<BaseCommandOptions, 'retryOptions'>): Promise<
+  Disposable & { path: string }
+> {
+  const mirrorPath = getMirrorPath(cacheDir, remoteUrl);
+
+  fs.mkdirSync(mirrorPath, { recursive: true });
+
+  const mirrorLock = await acquireFileLock(`${mirrorPath}.lock`, context);
+
+  try {
+    await fetchMirror({ mirrorPath, remoteUrl, retryOptions, context });
+  } catch (error) {
+    mirrorLock[Symbol.dispose]();
+    throw error;
+  }
+
+  return {
+    path: mirrorPath,
+    [Symbol.dispose]() {
+      mirrorLock[Symbol.dispose]();
+    },
+  };
+}
+
+/**
+ * Checks out the branch of the remote repository to a new worktree of the mirror in the cache directory.
+ * The mirror is refreshed with an incremental fetch, and it's locked until the worktree is disposed,
+ * because the worktree shares the refs and objects of the mirror with the other jobs on the same machine
+ *
+ * @param cacheDir Directory of the mirrors kept between the runs
+ * @param remoteUrl URL of the remote repository, without the credentials
+ * @param worktreePath Empty directory to check out the worktree into
+ * @param branch Branch to check out, detached from the local branches
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory, logger and abort signal of the command
+ * @returns Worktree which is removed and the mirror unlocked on dispose, e.g. with the `await using`
+ */
+export async function createMirrorWorktree({
+  cacheDir,
+  remoteUrl,
+  worktreePath,
+  branch,
+  retryOptions,
+  context,
+}: {
+  cacheDir: string;
+  remoteUrl: string;
+  worktreePath: string;
+  branch: string;
+  context: CommandContext;
+} & Pick<BaseCommandOptions, 'retryOptions'>): Promise<
+  AsyncDisposable & { path: string }
+> {
+  const { createGit, logger } = context;
+  const mirrorPath = getMirrorPath(cacheDir, remoteUrl);
+
+  fs.mkdirSync(mirrorPath, { recursive: true });
+
+  const mirrorLock = await acquireFileLock(`${mirrorPath}.lock`, context);
+  const mirror = createGit({ baseDir: mirrorPath });
+
+  try {
+    await fetchMirror({ mirrorPath, remoteUrl, retryOptions, context });
+
+    await removeStaleWorktrees(mirror).catch((error) => {
+      throw new GitCommandError(
+        `Failed to remove stale worktrees of mirror "${mirrorPath}"`,
+        { cause: error }
+      );
+    });
+
+    logger.info(`🌳 Adding worktree of branch "${branch}" from the mirror`);
+
+    await mirror
+      .raw(['worktree', 'add', '--detach', worktreePath, `origin/${branch}`])
+      .catch((error) => {
+        throw new GitCommandError(
+          `Failed to add worktree of branch "${branch}" from the mirror`,
+          { cause: error }
+        );
+      });
+  } catch (error) {
+    mirrorLock[Symbol.dispose]();
+    throw error;
+  }
+
+  return {
+    path: worktreePath,
+    async [Symbol.asyncDispose]() {
+      // the failed removal doesn't hide the result of the sync, the next job removes the worktree
+      await mirror
+        .raw(['worktree', 'remove', '--force', worktreePath])
+        .catch(() =>
+          logger.warn(`⚠︎ Failed to remove worktree "${worktreePath}"`)
+        )
+        .finally(() => mirrorLock[Symbol.dispose]());
+    },
+  };
+}
+
+/**
+ * Creates the bare mirror, if it doesn't exist, and fetches the remote branches into it.
+ * Must be called with the mirror lock taken
+ *
+ * @param mirrorPath Path of the mirror in the cache directory
+ * @param remoteUrl URL of the remote repository, without the credentials
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory, logger and abort signal of the command
+ */
+async function fetchMirror({
+  mirrorPath,
+  remoteUrl,
+  retryOptions,
+  context: { createGit, logger, signal },
+}: {
+  mirrorPath: string;
+  remoteUrl: string;
+  context: CommandContext;
+} & Pick<BaseCommandOptions, 'retryOptions'>) {
+  const isMirrorExists = fs.existsSync(path.join(mirrorPath, 'HEAD'));
+  const mirror = createGit({ baseDir: mirrorPath });
+
+  logger.info(
+    isMirrorExists
+      ? `🔍 Refreshing mirror "${mirrorPath}"`
+      : `🎋 Creating mirror "${mirrorPath}"`
+  );
+
+  // the remote branches are fetched as `origin/*`, the same way as in a clone
+  await mirror
+    .init(true)
+    .then(() => mirror.getRemotes())
+    .then((remotes) =>
+      remotes.some(({ name }) => name === 'origin')
+        ? mirror.remote(['set-url', 'origin', remoteUrl])
+        : mirror.addRemote('origin', remoteUrl)
+    )
+    // the garbage collection runs while the mirror is locked, instead of the background
+    .then(() => mirror.addConfig('gc.autoDetach', 'false'))
+    .catch((error) => {
+      throw new GitCommandError(`Failed to set up mirror "${mirrorPath}"`, {
+        cause: error,
+      });
+    });
+
+  await withRetry(() => mirror.fetch(['--prune', 'origin']), {
+    operationName: 'git fetch',
+    retryOptions,
+    logger,
+    signal,
+  }).catch((error) => {
+    throw new GitCommandError(`Failed to fetch mirror "${mirrorPath}"`, {
+      cause: error,
+    });
+  });
+}
+
+/**
+ * Removes the worktrees and local branches left in the mirror by the killed jobs.
+ * Must be called with the mirror lock taken, so no other job uses them
+ *
+ * @param mirror Git client of the mirror
+ */
+async function removeStaleWorktrees(mirror: SimpleGit) {
+  const worktreeList = await mirror.raw(['worktree', 'list', '--porcelain']);
+
+  // the first entry is the bare mirror itself
+  const worktreePaths = worktreeList
+    .split('\n\n')
+    .slice(1)
+    .map((entry) => /^worktree (.+)$/m.exec(entry)?.[1])
+    .filter((worktreePath): worktreePath is string => !!worktreePath);
+
+  for (const worktreePath of worktreePaths) {
+    await mirror
+      .raw(['worktree', 'remove', '--force', worktreePath])
+      .catch(() => undefined);
+  }
+
+  await mirror.raw(['worktree', 'prune']);
+
+  const localBranches = await mirror.raw([
+    'for-each-ref',
+    '--format=%(refname)',
+    'refs/heads/',
+  ]);
+
+  for (const ref of localBranches.split('\n').filter(Boolean)) {
+    await mirror.raw(['update-ref', '-d', ref]);
+  }
+}
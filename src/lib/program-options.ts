@@ -0,0 +1,427 @@
+import type { Command } from 'commander';
+import {
+  ConfigFile,
+  findConfigFile,
+  loadConfigFile,
+  matchBranchMapping,
+} from './config-file.js';
+import { InvalidOptionsError } from './errors.js';
+import { GitlabDestination } from './gitlab-destinations.js';
+import { parseGithubPullRequestUrl } from './github-pull-request-url.js';
+import { MergeRequestMetadata } from './merge-request-metadata.js';
+import {
+  MessageTemplates,
+  validateMessageTemplates,
+} from './message-templates.js';
+import { RetryOptions, defaultRetryOptions } from './retry.js';
+import {
+  BaseCommandOptions,
+  CloneMode,
+  GitCommitter,
+  GitSigningKey,
+  GitlabTokenType,
+  SubmoduleUpdate,
+  SyncStrategy,
+} from './types.js';
+
+/**
+ * Options of all commands resolved from the CLI, environment variables and the config file
+ */
+export interface ProgramOptions {
+  /** GitLab options to authenticate and connect to the API */
+  gitlabOptions: BaseCommandOptions['gitlabOptions'];
+
+  /** GitLab projects, target branches and submodules to run the command for */
+  destinations: GitlabDestination[];
+
+  /** Branch name in the GitHub repository which is used as a submodule, empty for `status` without `--branch` */
+  githubRepositoryBranch: string;
+
+  /** SHA of the last branch commit to be used in the submodule update task */
+  githubRepositorySHA: string | undefined;
+
+  /** Other submodules to update in the same branch and MR */
+  additionalSubmodules: SubmoduleUpdate[];
+
+  /** GitHub Pull Request URL, used in the GitLab MR description and notes */
+  githubPullRequestUrl: string | undefined;
+
+  /** Strategy to update the submodule in the GitLab repository */
+  syncStrategy: SyncStrategy;
+
+  /** Git identity of the submodule update commit, the GitLab token user if not provided */
+  committer: GitCommitter | undefined;
+
+  /** Clone mode of the `git` and `rebase` strategies */
+  cloneMode: CloneMode;
+
+  /** Directory of the Git mirrors kept between the runs, a temporary clone if not provided */
+  cacheDir: string | undefined;
+
+  /** Move the submodules to the requested SHA commits, even if the MR branch points to their descendants */
+  allowRewind: boolean;
+
+  /** GPG or SSH private key to sign the commits, the commits are not signed if not provided */
+  signingKey: GitSigningKey | undefined;
+
+  /** Maximum number of GitLab destinations processed at the same time */
+  concurrency: number;
+
+  /** Merge the MR when the pipeline succeeds instead of merging it immediately */
+  mergeWhenPipelineSucceeds: boolean;
+
+  /** Wait until the MR is merged */
+  wait: boolean;
+
+  /** Maximum time to wait for the MR to be merged in seconds */
+  waitTimeout: number;
+
+  /** Time between the MR pipeline status polls in seconds */
+  waitPollInterval: number;
+
+  /** Retry counts and delays of the GitLab API requests and Git network operations */
+  retryOptions: RetryOptions;
+
+  /** Templates of the MR title and description, the commit and merge commit messages */
+  messageTemplates: MessageTemplates;
+
+  /** Labels, assignees, reviewers, milestone, draft status and squash setting of the MR */
+  mergeRequestMetadata: MergeRequestMetadata;
+
+  /** Maximum age of the last sync commit in days, older sync branches are deleted by `prune` */
+  pruneMaxAge: number | undefined;
+
+  /** Print the planned changes without pushing branches or touching MRs */
+  dryRun: boolean;
+}
+
+/**
+ * Resolves the command options with the precedence: CLI > environment variables > config file > defaults
+ *
+ * @param command Command with the parsed options
+ */
+export function resolveProgramOptions(command: Command): ProgramOptions {
+  const configFilePath =
+    getCliOrEnvOption<string>(command, 'config') ?? findConfigFile();
+  const configFile: ConfigFile = configFilePath
+    ? loadConfigFile(configFilePath)
+    : { version: 1 };
+
+  const gitlabToken = process.env.GITLAB_TOKEN;
+
+  if (!gitlabToken) {
+    throw new InvalidOptionsError(
+      '`GITLAB_TOKEN` environment variable is required. You can add it to a `.env.local` file'
+    );
+  }
+
+  const gitlabHost =
+    getCliOrEnvOption<string>(command, 'gitlabHost') ?? configFile.gitlab?.host;
+
+  if (!gitlabHost) {
+    throw new InvalidOptionsError(
+      'GitLab host is required. Set it with `--gitlab-host`, `GITLAB_HOST` environment variable or `gitlab.host` in the config file'
+    );
+  }
+
+  const gitlabTokenType =
+    getCliOrEnvOption<GitlabTokenType>(command, 'gitlabTokenType') ??
+    configFile.gitlab?.tokenType;
+
+  const committerName =
+    getCliOrEnvOption<string>(command, 'committerName') ??
+    configFile.sync?.committer?.name;
+  const committerEmail =
+    getCliOrEnvOption<string>(command, 'committerEmail') ??
+    configFile.sync?.committer?.email;
+
+  // the signing key is a secret, so it's not read from the config file
+  const signingPrivateKey = getCliOrEnvOption<string>(command, 'signingKey');
+
+  if (!committerName !== !committerEmail) {
+    throw new InvalidOptionsError(
+      'Both committer name and email are required. Set them with `--committer-name` and `--committer-email`, `GITLAB_COMMITTER_NAME` and `GITLAB_COMMITTER_EMAIL` environment variables or `sync.committer` in the config file'
+    );
+  }
+
+  const cloneMode =
+    getCliOrEnvOption<CloneMode>(command, 'cloneMode') ??
+    configFile.sync?.cloneMode ??
+    'full';
+  const cacheDir =
+    getCliOrEnvOption<string>(command, 'cacheDir') ?? configFile.sync?.cacheDir;
+
+  // the mirror is fetched incrementally, the shallow fetches of the `fast` mode would make it shallow
+  if (cacheDir && cloneMode === 'fast') {
+    throw new InvalidOptionsError(
+      'The `fast` clone mode is not supported with the cache directory. Remove `--clone-mode fast`, `GITLAB_CLONE_MODE` environment variable or `sync.cloneMode` in the config file, or the cache directory'
+    );
+  }
+
+  const githubRepositoryBranch =
+    (command.getOptionValue('branch') as string | undefined) ?? '';
+
+  const [mainSubmodule, ...configAdditionalSubmodules] =
+    configFile.submodules ?? [];
+
+  const githubProjectSubmoduleName =
+    getCliOrEnvOption<string>(command, 'submoduleName') ?? mainSubmodule?.name;
+
+  const messageTemplates: MessageTemplates = {
+    mergeRequestTitle:
+      getCliOrEnvOption<string>(command, 'mrTitleTemplate') ??
+      configFile.templates?.mergeRequestTitle,
+    mergeRequestDescription:
+      getCliOrEnvOption<string>(command, 'mrDescriptionTemplate') ??
+      configFile.templates?.mergeRequestDescription,
+    commitMessage:
+      getCliOrEnvOption<string>(command, 'commitMessageTemplate') ??
+      configFile.templates?.commitMessage,
+    mergeCommitMessage:
+      getCliOrEnvOption<string>(command, 'mergeCommitMessageTemplate') ??
+      configFile.templates?.mergeCommitMessage,
+    jiraKeyPattern:
+      getCliOrEnvOption<string>(command, 'jiraKeyPattern') ??
+      configFile.templates?.jiraKeyPattern,
+  };
+
+  validateMessageTemplates(messageTemplates);
+
+  const destinations = resolveDestinations({
+    command,
+    configFile,
+    githubRepositoryBranch,
+    githubProjectSubmoduleName,
+  });
+
+  return {
+    gitlabOptions: {
+      host: gitlabHost,
+      token: gitlabToken,
+      tokenType: gitlabTokenType,
+    },
+    destinations,
+    githubRepositoryBranch,
+    githubRepositorySHA: command.getOptionValue('sha'),
+    additionalSubmodules:
+      getCliOrEnvOption<SubmoduleUpdate[]>(command, 'submodule') ??
+      configAdditionalSubmodules.map(({ name, branch }) => ({
+        githubProjectSubmoduleName: name,
+        githubRepositoryBranch: branch ?? githubRepositoryBranch,
+        githubRepositorySHA: undefined,
+      })),
+    githubPullRequestUrl: parseGithubPullRequestUrl(
+      getCliOrEnvOption<string>(command, 'githubPrUrl')
+    ),
+    syncStrategy:
+      getCliOrEnvOption<SyncStrategy>(command, 'strategy') ??
+      configFile.sync?.strategy ??
+      command.getOptionValue('strategy') ??
+      'git',
+    cloneMode,
+    cacheDir,
+    allowRewind: getCliOrEnvOption<boolean>(command, 'allowRewind') ?? false,
+    signingKey: signingPrivateKey
+      ? {
+          privateKey: signingPrivateKey,
+          passphrase: getCliOrEnvOption<string>(
+            command,
+            'signingKeyPassphrase'
+          ),
+        }
+      : undefined,
+    committer:
+      committerName && committerEmail
+        ? { name: committerName, email: committerEmail }
+        : undefined,
+    concurrency:
+      getCliOrEnvOption<number>(command, 'concurrency') ??
+      configFile.sync?.concurrency ??
+      command.getOptionValue('concurrency') ??
+      1,
+    mergeWhenPipelineSucceeds:
+      getCliOrEnvOption<boolean>(command, 'mergeWhenPipelineSucceeds') ??
+      configFile.merge?.whenPipelineSucceeds ??
+      false,
+    wait:
+      getCliOrEnvOption<boolean>(command, 'wait') ??
+      configFile.merge?.wait ??
+      false,
+    waitTimeout:
+      getCliOrEnvOption<number>(command, 'waitTimeout') ??
+      configFile.merge?.waitTimeout ??
+      3600,
+    waitPollInterval:
+      getCliOrEnvOption<number>(command, 'waitPollInterval') ??
+      configFile.merge?.waitPollInterval ??
+      15,
+    retryOptions: {
+      retries:
+        getCliOrEnvOption<number>(command, 'retries') ??
+        configFile.retry?.retries ??
+        defaultRetryOptions.retries,
+      minDelay:
+        (getCliOrEnvOption<number>(command, 'retryDelay') ??
+          configFile.retry?.delay ??
+          defaultRetryOptions.minDelay / 1000) * 1000,
+      maxDelay:
+        (getCliOrEnvOption<number>(command, 'retryMaxDelay') ??
+          configFile.retry?.maxDelay ??
+          defaultRetryOptions.maxDelay / 1000) * 1000,
+    },
+    messageTemplates,
+    mergeRequestMetadata: {
+      labels:
+        getCliOrEnvOption<string[]>(command, 'labels') ??
+        configFile.mergeRequest?.labels,
+      assignees:
+        getCliOrEnvOption<string[]>(command, 'assignees') ??
+        configFile.mergeRequest?.assignees,
+      reviewers:
+        getCliOrEnvOption<string[]>(command, 'reviewers') ??
+        configFile.mergeRequest?.reviewers,
+      milestone:
+        getCliOrEnvOption<string>(command, 'milestone') ??
+        configFile.mergeRequest?.milestone,
+      draft:
+        getCliOrEnvOption<boolean>(command, 'draft') ??
+        configFile.mergeRequest?.draft,
+      squash:
+        getCliOrEnvOption<boolean>(command, 'squash') ??
+        configFile.mergeRequest?.squash,
+      githubPullRequestAuthor: getCliOrEnvOption<string>(
+        command,
+        'githubPrAuthor'
+      ),
+      usernameMapping:
+        getCliOrEnvOption<Record<string, string>>(command, 'usernameMapping') ??
+        configFile.mergeRequest?.usernameMapping,
+    },
+    pruneMaxAge:
+      getCliOrEnvOption<number>(command, 'maxAge') ?? configFile.prune?.maxAge,
+    dryRun: getCliOrEnvOption<boolean>(command, 'dryRun') ?? false,
+  };
+}
+
+/**
+ * Resolves the GitLab destinations. The CLI project with `--destination` options take precedence
+ * over the config file `projects`
+ *
+ * @param command Command with the parsed options
+ * @param configFile Config file
+ * @param githubRepositoryBranch Branch name in the GitHub repository, used to match the branch mappings if not empty
+ * @param githubProjectSubmoduleName Default submodule name
+ */
+function resolveDestinations({
+  command,
+  configFile,
+  githubRepositoryBranch,
+  githubProjectSubmoduleName,
+}: {
+  command: Command;
+  configFile: ConfigFile;
+  githubRepositoryBranch: string;
+  githubProjectSubmoduleName: string | undefined;
+}): GitlabDestination[] {
+  const cliGitlabProjectId = getCliOrEnvOption<string>(
+    command,
+    'gitlabProjectId'
+  );
+  const cliGitlabTargetBranch = getCliOrEnvOption<string>(
+    command,
+    'gitlabTargetBranch'
+  );
+  const mappedGitlabTargetBranch = githubRepositoryBranch
+    ? matchBranchMapping(configFile.branchMappings, githubRepositoryBranch)
+    : undefined;
+
+  const destinations: Array<Partial<GitlabDestination>> = cliGitlabProjectId
+    ? [
+        {
+          gitlabProjectId: cliGitlabProjectId,
+          gitlabTargetBranch:
+            cliGitlabTargetBranch ??
+            mappedGitlabTargetBranch ??
+            configFile.projects?.find(
+              ({ id }) => String(id) === cliGitlabProjectId
+            )?.targetBranch,
+          githubProjectSubmoduleName,
+        },
+        ...(
+          getCliOrEnvOption<Array<Partial<GitlabDestination>>>(
+            command,
+            'destination'
+          ) ?? []
+        ).map((destination) => ({
+          ...destination,
+          githubProjectSubmoduleName:
+            destination.githubProjectSubmoduleName ??
+            githubProjectSubmoduleName,
+        })),
+      ]
+    : (configFile.projects ?? []).map((project) => ({
+        gitlabProjectId: String(project.id),
+        gitlabTargetBranch:
+          cliGitlabTargetBranch ??
+          mappedGitlabTargetBranch ??
+          project.targetBranch,
+        githubProjectSubmoduleName:
+          project.submodule ?? githubProjectSubmoduleName,
+      }));
+
+  if (!destinations.length) {
+    throw new InvalidOptionsError(
+      'GitLab project is required. Set it with `--gitlab-project-id`, `GITLAB_PROJECT_ID` environment variable or `projects` in the config file'
+    );
+  }
+
+  return destinations.map(
+    ({
+      gitlabProjectId = '',
+      gitlabTargetBranch,
+      githubProjectSubmoduleName,
+    }) => {
+      if (!gitlabTargetBranch) {
+        throw new InvalidOptionsError(
+          `GitLab target branch is required for the project "${gitlabProjectId}". Set it with \`--gitlab-target-branch\`, \`GITLAB_TARGET_BRANCH\` environment variable, \`branchMappings\` or \`projects[].targetBranch\` in the config file`
+        );
+      }
+
+      if (!githubProjectSubmoduleName) {
+        throw new InvalidOptionsError(
+          `Submodule name is required for the project "${gitlabProjectId}". Set it with \`--submodule-name\`, \`GITLAB_SUBMODULE_NAME\` environment variable, \`submodules\` or \`projects[].submodule\` in the config file`
+        );
+      }
+
+      return {
+        gitlabProjectId,
+        gitlabTargetBranch,
+        githubProjectSubmoduleName,
+      };
+    }
+  );
+}
+
+/**
+ * Returns the option value only if it's set through the CLI or the not empty environment variable,
+ * so the config file could take precedence over the option defaults
+ *
+ * @param command Command with the parsed options
+ * @param key Option key, e.g. `gitlabProjectId`
+ */
+function getCliOrEnvOption<T>(command: Command, key: string): T | undefined {
+  const source = command.getOptionValueSource(key);
+
+  if (source === 'env') {
+    const envVar = command.options.find(
+      (option) => option.attributeName() === key
+    )?.envVar;
+
+    // GitHub Action passes not provided inputs as empty environment variables
+    if (envVar && !process.env[envVar]?.trim()) return undefined;
+  }
+
+  return source === 'cli' || source === 'env'
+    ? (command.getOptionValue(key) as T)
+    : undefined;
+}
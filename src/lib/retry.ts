@@ -0,0 +1,186 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import {
+  GitbeakerRequestError,
+  GitbeakerTimeoutError,
+} from '@gitbeaker/requester-utils';
+import { GitError } from 'simple-git';
+import { Logger, consoleLogger } from './logger.js';
+
+export interface RetryOptions {
+  /** Maximum number of retries after the first failed attempt, `0` disables the retries */
+  retries: number;
+
+  /** Delay before the first retry in milliseconds, doubled on every next retry */
+  minDelay: number;
+
+  /** Maximum delay between the retries in milliseconds, including the `Retry-After` delay */
+  maxDelay: number;
+}
+
+export const defaultRetryOptions: RetryOptions = {
+  retries: 3,
+  minDelay: 1000,
+  maxDelay: 30_000,
+};
+
+/** HTTP statuses of the transient GitLab API errors */
+const retryableStatuses = [408, 425, 429, 500, 502, 503, 504];
+
+/** Git errors caused by the network or the overloaded remote */
+const retryableGitErrorPattern =
+  /could not resolve host|connection (?:reset|refused|timed out)|operation timed out|early eof|rpc failed|remote end hung up|unexpected disconnect|gnutls|ssl_read|the requested url returned error: (?:429|5\d\d)|temporary failure/i;
+
+/** Git errors which are never fixed by a retry */
+const nonRetryableGitErrorPattern =
+  /authentication failed|could not read (?:username|password)|permission denied|access denied|returned error: 40[134]|couldn't find remote ref|not found/i;
+
+export interface ErrorClassification {
+  /** Whether the operation could succeed on the next attempt */
+  isRetryable: boolean;
+
+  /** Short error description for the logs, without the sensitive data */
+  reason: string;
+
+  /** Delay in milliseconds requested by the server with the `Retry-After` header */
+  retryAfter?: number;
+}
+
+/**
+ * Classifies the GitLab API, network and Git errors.
+ * Authentication, permission and other 4xx errors are never retried
+ *
+ * @param error Error thrown by the operation
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof GitbeakerRequestError && error.cause?.response) {
+    const { status, headers } = error.cause.response;
+
+    return {
+      isRetryable: retryableStatuses.includes(status),
+      reason: `HTTP ${status}`,
+      retryAfter: parseRetryAfter(headers.get('retry-after')),
+    };
+  }
+
+  // the timeout signal is shared by all the attempts, so it's already aborted
+  if (error instanceof GitbeakerTimeoutError) {
+    return { isRetryable: false, reason: 'request timeout' };
+  }
+
+  if (error instanceof GitError) {
+    if (nonRetryableGitErrorPattern.test(error.message))
+      return { isRetryable: false, reason: 'Git error' };
+
+    return {
+      isRetryable: retryableGitErrorPattern.test(error.message),
+      reason: 'Git network error',
+    };
+  }
+
+  // `fetch` rejects with `TypeError: fetch failed` on the network errors
+  if (error instanceof TypeError && error.message === 'fetch failed') {
+    const code = (error.cause as { code?: string } | undefined)?.code;
+
+    return {
+      isRetryable: true,
+      reason: code ? `network error ${code}` : 'network error',
+    };
+  }
+
+  return { isRetryable: false, reason: 'unknown error' };
+}
+
+/**
+ * Runs the operation, retrying it on the transient errors
+ * with the exponential backoff and jitter, or the delay requested with `Retry-After`
+ *
+ * @param operation Operation to run, it must be safe to run it again
+ * @param operationName Operation name for the logs, e.g. `git fetch`
+ * @param retryOptions Retry counts and delays
+ * @param logger Logger of the retries
+ * @param signal Signal to stop waiting for the next attempt
+ * @param retryIf Narrows the retried errors, e.g. to the ones which prove the operation was not run, all the transient errors by default
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  {
+    operationName,
+    retryOptions = defaultRetryOptions,
+    logger = consoleLogger,
+    signal,
+    retryIf = () => true,
+  }: {
+    operationName: string;
+    retryOptions?: RetryOptions;
+    logger?: Logger;
+    signal?: AbortSignal;
+    retryIf?: (error: unknown) => boolean;
+  }
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const { isRetryable, reason, retryAfter } = classifyError(error);
+
+      if (
+        !isRetryable ||
+        !retryIf(error) ||
+        attempt > retryOptions.retries ||
+        signal?.aborted
+      )
+        throw error;
+
+      if (retryAfter !== undefined && retryAfter > retryOptions.maxDelay) {
+        logger.warn(
+          `⚠︎ ${operationName} failed with ${reason}, the requested retry delay ${Math.ceil(retryAfter / 1000)}s exceeds the limit`
+        );
+
+        throw error;
+      }
+
+      const delay = retryAfter ?? getBackoffDelay(attempt, retryOptions);
+
+      logger.warn(
+        `↻ ${operationName} failed with ${reason}, retrying in ${(delay / 1000).toFixed(1)}s (${attempt}/${retryOptions.retries})`
+      );
+
+      await sleep(delay, undefined, { signal });
+    }
+  }
+}
+
+/**
+ * Calculates the exponential backoff delay with the "equal jitter",
+ * so the concurrent jobs don't retry at the same time
+ *
+ * @param attempt Number of the failed attempt, starting from `1`
+ * @param minDelay Delay before the first retry in milliseconds
+ * @param maxDelay Maximum delay in milliseconds
+ */
+function getBackoffDelay(
+  attempt: number,
+  { minDelay, maxDelay }: Pick<RetryOptions, 'minDelay' | 'maxDelay'>
+) {
+  const delay = Math.min(maxDelay, minDelay * 2 ** (attempt - 1));
+
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Parses the `Retry-After` header value in seconds or as the HTTP date
+ *
+ * @param value Header value
+ * @returns Delay in milliseconds, `undefined` if the header is missing or invalid
+ */
+function parseRetryAfter(value: string | null) {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
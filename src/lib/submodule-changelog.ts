@@ -0,0 +1,447 @@
+import type { SimpleGit } from 'simple-git';
+import { CommandContext } from './command-context.js';
+import { formatErrorChain } from './errors.js';
+import { RetryOptions, withRetry } from './retry.js';
+import { TempDir } from './temp-dir.js';
+import { SyncedSubmodule } from './types.js';
+
+/** Maximum number of commits listed in the changelog of every submodule */
+export const changelogMaxCommits = 20;
+
+/**
+ * Number of the recent commits fetched for the changelog and the stale check without the clone.
+ * The older merge bases are not found, and their changelog is skipped
+ */
+const historyDepth = 100;
+
+/** Submodule commit included in the changelog */
+export interface ChangelogCommit {
+  sha: string;
+  author: string;
+  subject: string;
+}
+
+/** Commits between the SHA commit the submodule pointed to, and the SHA commit it's updated to */
+export interface SubmoduleChangelog {
+  /**
+   * How the new SHA commit relates to the previous one:
+   * - `fast-forward` the previous commit is an ancestor of the new one
+   * - `rewritten` the branch was force-pushed, the commits are listed from the common ancestor
+   * - `unrelated` the commits have no common ancestor
+   * - `missing-base` the previous commit is not found in the submodule remote
+   */
+  kind: 'fast-forward' | 'rewritten' | 'unrelated' | 'missing-base';
+
+  /** SHA commit the submodule pointed to in the target branch */
+  previousSHA: string;
+
+  /** SHA commit the submodule is updated to */
+  sha: string;
+
+  /** Commits added by the update, the newest first, at most `changelogMaxCommits` */
+  commits: ChangelogCommit[];
+
+  /** Number of all the commits added by the update */
+  totalCommits: number;
+
+  /** Number of the previous commits, which are not included in the new SHA commit after a force-push */
+  droppedCommits: number;
+
+  /** Web URL of the submodule repository to link the commits, e.g. `https://github.com/my-team/my-sdk` */
+  repositoryWebUrl: string | undefined;
+}
+
+/**
+ * Computes the changelog of the submodule update in the repository with the fetched submodule history.
+ * It's best-effort: the failures are logged, and `undefined` is returned
+ *
+ * @param git Git client of the submodule repository, its `origin` is the submodule remote
+ * @param previousSHA SHA commit the submodule pointed to in the target branch
+ * @param sha SHA commit the submodule is updated to
+ * @param remoteUrl Submodule remote URL, used to link the commits
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Logger and abort signal of the command
+ */
+export async function getSubmoduleChangelog({
+  git,
+  previousSHA,
+  sha,
+  remoteUrl,
+  retryOptions,
+  context: { logger, signal },
+}: {
+  git: SimpleGit;
+  previousSHA: string | undefined;
+  sha: string;
+  remoteUrl: string | undefined;
+  retryOptions: RetryOptions | undefined;
+  context: Pick<CommandContext, 'logger' | 'signal'>;
+}): Promise<SubmoduleChangelog | undefined> {
+  if (!previousSHA || previousSHA === sha) return undefined;
+
+  // the repository of the `fast` clone mode has only the recent history of the fetched commits
+  const isShallow = await git
+    .revparse(['--is-shallow-repository'])
+    .then((output) => output === 'true')
+    .catch(() => false);
+
+  /**
+   * Fetches the commit, if it's not fetched with the branch, e.g. the previous commit of a force-pushed branch
+   *
+   * @param commitSHA SHA commit to fetch
+   */
+  const ensureCommit = async (commitSHA: string) => {
+    const isFound = await git
+      .raw(['cat-file', '-e', `${commitSHA}^{commit}`])
+      .then(() => true)
+      .catch(() => false);
+
+    if (isFound) return true;
+
+    const fetchOptions = isShallow
+      ? ['--no-tags', `--depth=${historyDepth}`]
+      : ['--no-tags'];
+
+    return withRetry(() => git.fetch('origin', commitSHA, fetchOptions), {
+      operationName: 'git fetch',
+      retryOptions,
+      logger,
+      signal,
+    })
+      .then(() => true)
+      .catch(() => false);
+  };
+
+  const changelog: SubmoduleChangelog = {
+    kind: 'missing-base',
+    previousSHA,
+    sha,
+    commits: [],
+    totalCommits: 0,
+    droppedCommits: 0,
+    repositoryWebUrl: remoteUrl && getRepositoryWebUrl(remoteUrl),
+  };
+
+  try {
+    if (!(await ensureCommit(sha))) {
+      logger.warn(`⚠︎ Commit "${sha}" is not found, skipping the changelog`);
+      return undefined;
+    }
+
+    if (!(await ensureCommit(previousSHA))) return changelog;
+
+    const mergeBase = await git
+      .raw(['merge-base', previousSHA, sha])
+      .then((output) => output.trim())
+      .catch(() => undefined);
+
+    if (!mergeBase && isShallow) {
+      logger.warn(
+        `⚠︎ Commits "${previousSHA}" and "${sha}" have no common ancestor in the last ${historyDepth} commits, skipping the changelog`
+      );
+      return undefined;
+    }
+
+    if (!mergeBase) return { ...changelog, kind: 'unrelated' };
+
+    const [log, totalCommits, droppedCommits] = await Promise.all([
+      git.raw([
+        'log',
+        `--max-count=${changelogMaxCommits}`,
+        '--format=%H%x1f%an%x1f%s',
+        `${mergeBase}..${sha}`,
+      ]),
+      git.raw(['rev-list', '--count', `${mergeBase}..${sha}`]),
+      git.raw(['rev-list', '--count', `${sha}..${previousSHA}`]),
+    ]);
+
+    return {
+      ...changelog,
+      kind: mergeBase === previousSHA ? 'fast-forward' : 'rewritten',
+      commits: log
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => {
+          const [commitSHA, author, subject] = line.split('\x1f');
+          return { sha: commitSHA, author, subject };
+        }),
+      totalCommits: Number(totalCommits.trim()),
+      droppedCommits: Number(droppedCommits.trim()),
+    };
+  } catch (error) {
+    logger.warn(
+      `⚠︎ Failed to compute the submodule changelog, skipping it: ${formatErrorChain(error).join(': ')}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Computes the changelog of the submodule update without the GitLab repository clone.
+ * Only the recent history of the SHA commits is fetched to a temporary repository, without the trees and blobs
+ *
+ * @param previousSHA SHA commit the submodule pointed to in the target branch
+ * @param sha SHA commit the submodule is updated to
+ * @param remoteUrl Submodule remote URL from the `.gitmodules` file
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory, logger and abort signal of the command
+ */
+export async function getRemoteSubmoduleChangelog({
+  previousSHA,
+  sha,
+  remoteUrl,
+  retryOptions,
+  context,
+}: {
+  previousSHA: string | undefined;
+  sha: string;
+  remoteUrl: string | undefined;
+  retryOptions: RetryOptions | undefined;
+  context: Pick<CommandContext, 'createGit' | 'logger' | 'signal'>;
+}): Promise<SubmoduleChangelog | undefined> {
+  const { logger } = context;
+
+  if (!previousSHA || previousSHA === sha) return undefined;
+
+  if (!remoteUrl || /^\.\.?\//.test(remoteUrl)) {
+    logger.warn(
+      '⚠︎ Submodule URL is relative or not set, skipping the changelog'
+    );
+    return undefined;
+  }
+
+  using submoduleHistory = await fetchSubmoduleHistory({
+    remoteUrl,
+    sha,
+    previousSHAs: [previousSHA],
+    retryOptions,
+    context,
+  }).catch((error) => {
+    logger.warn(
+      `⚠︎ Failed to fetch the submodule commit "${sha}", skipping the changelog: ${formatErrorChain(error).join(': ')}`
+    );
+    return undefined;
+  });
+
+  if (!submoduleHistory) return undefined;
+
+  // awaited, so the temporary repository is removed after the changelog is computed
+  return await getSubmoduleChangelog({
+    git: submoduleHistory.git,
+    previousSHA,
+    sha,
+    remoteUrl,
+    retryOptions,
+    context,
+  });
+}
+
+/**
+ * Fetches the SHA commits with their recent history to a temporary repository, without the trees and blobs.
+ * Only the last `historyDepth` commits are fetched, instead of the whole submodule branch history
+ *
+ * @param remoteUrl Submodule remote URL
+ * @param sha SHA commit the submodule is updated to, the fetch fails if it's not found
+ * @param previousSHAs SHA commits to compare it with, they're skipped if they're not found, e.g. after a force-push
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory, logger and abort signal of the command
+ * @returns Git client of the repository, whose `origin` is the submodule remote, the repository is removed on dispose
+ */
+export async function fetchSubmoduleHistory({
+  remoteUrl,
+  sha,
+  previousSHAs,
+  retryOptions,
+  context: { createGit, logger, signal },
+}: {
+  remoteUrl: string;
+  sha: string;
+  previousSHAs: (string | undefined)[];
+  retryOptions: RetryOptions | undefined;
+  context: Pick<CommandContext, 'createGit' | 'logger' | 'signal'>;
+}): Promise<Disposable & { git: SimpleGit }> {
+  const historyTempDir = new TempDir();
+  const git = createGit({ baseDir: historyTempDir.path });
+
+  /**
+   * Fetches the SHA commit with its recent history
+   *
+   * @param commitSHA SHA commit to fetch
+   */
+  const fetchCommit = (commitSHA: string) =>
+    withRetry(
+      () =>
+        git.fetch([
+          `--depth=${historyDepth}`,
+          '--filter=tree:0',
+          '--no-tags',
+          'origin',
+          commitSHA,
+        ]),
+      { operationName: 'git fetch', retryOptions, logger, signal }
+    );
+
+  try {
+    await git
+      .init(true)
+      .then(() => git.addRemote('origin', remoteUrl))
+      .then(() => fetchCommit(sha));
+
+    for (const previousSHA of new Set(previousSHAs)) {
+      if (!previousSHA || previousSHA === sha) continue;
+
+      // the missing commit is reported by the changelog
+      await fetchCommit(previousSHA).catch(() => undefined);
+    }
+  } catch (error) {
+    historyTempDir[Symbol.dispose]();
+    throw error;
+  }
+
+  return {
+    git,
+    [Symbol.dispose]() {
+      historyTempDir[Symbol.dispose]();
+    },
+  };
+}
+
+/**
+ * Creates the markdown changelog of the updated submodules for the MR description
+ *
+ * @param syncedSubmodules Updated submodules with the changelogs
+ * @returns Empty string, if none of the submodules has a changelog
+ */
+export function createSubmoduleChangelogMarkdown(
+  syncedSubmodules: Pick<
+    SyncedSubmodule,
+    'githubProjectSubmoduleName' | 'changelog'
+  >[]
+): string {
+  return syncedSubmodules
+    .flatMap(({ githubProjectSubmoduleName, changelog }) =>
+      changelog
+        ? [
+            createChangelogSectionMarkdown(
+              githubProjectSubmoduleName,
+              changelog
+            ),
+          ]
+        : []
+    )
+    .join('\n\n');
+}
+
+/**
+ * Creates the markdown changelog section of the submodule
+ *
+ * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param changelog Changelog of the submodule update
+ */
+function createChangelogSectionMarkdown(
+  githubProjectSubmoduleName: string,
+  {
+    kind,
+    previousSHA,
+    sha,
+    commits,
+    totalCommits,
+    droppedCommits,
+    repositoryWebUrl,
+  }: SubmoduleChangelog
+) {
+  const range = `${shortSHA(previousSHA)}...${shortSHA(sha)}`;
+
+  const lines = [
+    `#### Changes in \`${githubProjectSubmoduleName}\``,
+    '',
+    repositoryWebUrl
+      ? `[Compare \`${range}\`](${repositoryWebUrl}/compare/${previousSHA}...${sha})`
+      : `Compare \`${range}\``,
+  ];
+
+  if (kind === 'missing-base') {
+    return [
+      ...lines,
+      '',
+      `⚠️ The previous commit \`${shortSHA(previousSHA)}\` is not found in the submodule repository, its branch history may have been rewritten.`,
+    ].join('\n');
+  }
+
+  if (kind === 'unrelated') {
+    return [
+      ...lines,
+      '',
+      `⚠️ The commits \`${shortSHA(previousSHA)}\` and \`${shortSHA(sha)}\` have unrelated histories.`,
+    ].join('\n');
+  }
+
+  if (kind === 'rewritten') {
+    lines.push(
+      '',
+      `⚠️ The new commit doesn't include ${pluralizeCommits(droppedCommits)} of the previous commit \`${shortSHA(previousSHA)}\`, e.g. the branch was force-pushed. The commits since their common ancestor are listed.`
+    );
+  }
+
+  lines.push(
+    '',
+    ...commits.map(
+      (commit) =>
+        `- ${
+          repositoryWebUrl
+            ? `[\`${shortSHA(commit.sha)}\`](${repositoryWebUrl}/commit/${commit.sha})`
+            : `\`${shortSHA(commit.sha)}\``
+        } ${escapeMarkdown(commit.subject)} (${escapeMarkdown(commit.author)})`
+    )
+  );
+
+  if (totalCommits > commits.length) {
+    lines.push(
+      `- … and ${pluralizeCommits(totalCommits - commits.length)} more`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Converts the submodule remote URL to the web URL of the repository
+ *
+ * @param remoteUrl Remote URL, e.g. `git@github.com:my-team/my-sdk.git` or `https://github.com/my-team/my-sdk.git`
+ * @returns `undefined` for the relative and local URLs
+ */
+export function getRepositoryWebUrl(remoteUrl: string): string | undefined {
+  const match =
+    /^(?:https?:\/\/(?:[^@/]+@)?|ssh:\/\/(?:[^@/]+@)?|[^@/]+@)([^/:]+)(?::\d+)?[/:](.+?)(?:\.git)?\/?$/.exec(
+      remoteUrl
+    );
+
+  return match ? `https://${match[1]}/${match[2]}` : undefined;
+}
+
+/**
+ * Escapes the markdown, so the commit subjects don't mention users or reference GitLab issues
+ *
+ * @param text Text to escape
+ */
+function escapeMarkdown(text: string) {
+  return text.replace(/[\\`*_{}[\]()<>#!|~@$%&]/g, '\\$&');
+}
+
+/**
+ * Shortens the SHA commit to 7 characters
+ *
+ * @param sha SHA commit
+ */
+function shortSHA(sha: string) {
+  return sha.slice(0, 7);
+}
+
+/**
+ * Formats the number of commits, e.g. `1 commit` or `2 commits`
+ *
+ * @param count Number of commits
+ */
+function pluralizeCommits(count: number) {
+  return `${count} ${count === 1 ? 'commit' : 'commits'}`;
+}
@@ -0,0 +1,76 @@
+import { InvalidOptionsError } from './errors.js';
+import { BaseCommandOptions, SubmoduleUpdate } from './types.js';
+
+/**
+ * Returns all submodules to update, the main one goes first
+ *
+ * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
+ * @param githubRepositorySHA SHA of the last branch commit to be used in the submodule update task
+ * @param additionalSubmodules Other submodules to update in the same branch and MR
+ */
+export function getSubmoduleUpdates({
+  githubProjectSubmoduleName,
+  githubRepositoryBranch,
+  githubRepositorySHA,
+  additionalSubmodules = [],
+}: Pick<
+  BaseCommandOptions,
+  | 'githubProjectSubmoduleName'
+  | 'githubRepositoryBranch'
+  | 'githubRepositorySHA'
+  | 'additionalSubmodules'
+>): SubmoduleUpdate[] {
+  const submoduleUpdates = [
+    { githubProjectSubmoduleName, githubRepositoryBranch, githubRepositorySHA },
+    ...additionalSubmodules,
+  ];
+
+  const duplicateSubmodule = submoduleUpdates.find(
+    ({ githubProjectSubmoduleName: name }, index) =>
+      submoduleUpdates.findIndex(
+        (submoduleUpdate) => submoduleUpdate.githubProjectSubmoduleName === name
+      ) !== index
+  );
+
+  if (duplicateSubmodule) {
+    throw new InvalidOptionsError(
+      `Submodule "${duplicateSubmodule.githubProjectSubmoduleName}" is listed more than once`
+    );
+  }
+
+  return submoduleUpdates;
+}
+
+/**
+ * Parses the list of submodule updates in the `<submodule>:<branch>[:<sha>]` format,
+ * separated by commas or new lines
+ *
+ * @example
+ * ```ts
+ * parseSubmoduleUpdates('my-sdk:feature/x:cc80816,my-ui:feature/x');
+ * ```
+ *
+ * @param value List of submodule updates
+ */
+export function parseSubmoduleUpdates(value: string): SubmoduleUpdate[] {
+  return value
+    .split(/[\n,]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const [githubProjectSubmoduleName, githubRepositoryBranch, sha, ...rest] =
+        item.split(':');
+
+      if (!githubProjectSubmoduleName || !githubRepositoryBranch || rest.length)
+        throw new InvalidOptionsError(
+          `Invalid submodule "${item}", expected format is "<submodule>:<branch>[:<sha>]"`
+        );
+
+      return {
+        githubProjectSubmoduleName,
+        githubRepositoryBranch,
+        githubRepositorySHA: sha || undefined,
+      };
+    });
+}
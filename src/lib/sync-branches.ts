@@ -0,0 +1,79 @@
+import { CommandContext } from './command-context.js';
+import { GitCommandError } from './errors.js';
+import { RetryOptions, withRetry } from './retry.js';
+import { BaseCommandOptions } from './types.js';
+import { createMRSourceBranchName } from './upsert-branch.js';
+
+/**
+ * Creates the matcher of the GitLab branches created by the submodule sync, e.g. `my-sdk/feature/test-01`
+ *
+ * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param githubRepositoryBranch Match only the sync branch of the GitHub branch, if provided
+ * @returns Branch name prefix of the submodule and the matcher of the branch names
+ */
+export function createSyncBranchMatcher({
+  githubProjectSubmoduleName,
+  githubRepositoryBranch,
+}: Pick<BaseCommandOptions, 'githubProjectSubmoduleName'> & {
+  githubRepositoryBranch: string | undefined;
+}) {
+  const branchPrefix = createMRSourceBranchName({
+    githubProjectSubmoduleName,
+    githubRepositoryBranch: '',
+  });
+
+  const isSyncBranch = (branch: string) =>
+    branch.startsWith(branchPrefix) &&
+    (!githubRepositoryBranch ||
+      branch ===
+        createMRSourceBranchName({
+          githubProjectSubmoduleName,
+          githubRepositoryBranch,
+        }));
+
+  return { branchPrefix, isSyncBranch };
+}
+
+/**
+ * Lists the branch HEADs of the submodule remote without cloning it
+ *
+ * @param context Git factory and logger of the command
+ * @param remoteUrl Submodule remote URL from the `.gitmodules` file
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @returns SHA commits by the branch names, `undefined` for the relative or missing URL
+ */
+export async function listRemoteBranchHeads({
+  context: { createGit, logger, signal },
+  remoteUrl,
+  retryOptions,
+}: {
+  context: Pick<CommandContext, 'createGit' | 'logger' | 'signal'>;
+  remoteUrl: string | undefined;
+  retryOptions: RetryOptions | undefined;
+}): Promise<Map<string, string> | undefined> {
+  if (!remoteUrl || /^\.\.?\//.test(remoteUrl)) {
+    logger.warn(
+      '⚠︎ Submodule URL is relative or not set, the GitHub branches are not checked'
+    );
+    return undefined;
+  }
+
+  const output = await withRetry(
+    () => createGit({}).listRemote(['--heads', remoteUrl]),
+    { operationName: 'git ls-remote', retryOptions, logger, signal }
+  ).catch((error) => {
+    throw new GitCommandError('Failed to list submodule remote', {
+      cause: error,
+    });
+  });
+
+  return new Map(
+    output
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [sha, ref] = line.split(/\s+/);
+        return [ref.replace(/^refs\/heads\//, ''), sha];
+      })
+  );
+}
@@ -21,7 +21,8 @@ export class TempDir implements Disposable {
   constructor() {
     this.path = path.join(
       process.env.TMP_GITLAB_REPOSITORY_WORKING_DIR ?? os.tmpdir(),
-      `gitlab-sync-${Date.now()}`
+      // random suffix keeps the directories unique for the concurrent syncs
+      `gitlab-sync-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
     );
 
     fs.mkdirSync(this.path, { recursive: true });
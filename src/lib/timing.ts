@@ -0,0 +1,24 @@
+import { Logger } from './logger.js';
+
+/**
+ * Runs the operation and logs its duration, so the clone modes and strategies can be compared
+ *
+ * @param operation Operation to measure
+ * @param operationName Operation name for the logs, e.g. `Clone`
+ * @param logger Logger of the duration
+ * @returns Result of the operation
+ */
+export async function withTiming<T>(
+  operation: () => Promise<T>,
+  { operationName, logger }: { operationName: string; logger: Logger }
+): Promise<T> {
+  const startTime = performance.now();
+
+  try {
+    return await operation();
+  } finally {
+    const duration = (performance.now() - startTime) / 1000;
+
+    logger.info(`⏱︎ ${operationName} took ${duration.toFixed(2)}s`);
+  }
+}
@@ -1,23 +1,179 @@
 import type { BaseRequestOptionsWithAccessToken } from '@gitbeaker/requester-utils';
+import type { Gitlab } from '@gitbeaker/rest';
+import type { SimpleGit, SimpleGitOptions } from 'simple-git';
+import type { Logger } from './logger.js';
+import type { MessageTemplates } from './message-templates.js';
+import type { RetryOptions } from './retry.js';
+import type { SubmoduleChangelog } from './submodule-changelog.js';
 
-export interface BaseCommandOptions {
-  /** GitLab project ID, e.g. `123` or `group/project` */
-  gitlabProjectId: string;
+/** GitLab API client with the snake case response keys */
+export type GitlabClient = InstanceType<typeof Gitlab<false>>;
 
-  /** Target branch name in GitLab to merge the MR into */
-  gitlabTargetBranch: string;
+/** Creates the Git client, e.g. `simpleGit`, the options contain the `baseDir` and the `abort` signal */
+export type GitFactory = (options: Partial<SimpleGitOptions>) => SimpleGit;
+
+/**
+ * Type of the GitLab access token: personal, project or group access token,
+ * OAuth token, or CI job token `CI_JOB_TOKEN`
+ */
+export type GitlabTokenType =
+  | 'personal'
+  | 'project'
+  | 'group'
+  | 'oauth'
+  | 'job';
+
+/** Git identity of the commits created in the cloned GitLab repository */
+export interface GitCommitter {
+  name: string;
+  email: string;
+}
 
+/**
+ * Private key to sign the commits created in the cloned GitLab repository.
+ * GitLab shows the commits as verified, if the key is added to the committer account
+ */
+export interface GitSigningKey {
+  /** ASCII-armored GPG private key, or OpenSSH private key */
+  privateKey: string;
+
+  /** Passphrase of the private key, if it's protected */
+  passphrase?: string;
+}
+
+export interface SubmoduleUpdate {
   /** Branch name in the GitHub repository which is used as a submodule */
   githubRepositoryBranch: string;
 
   /** Submodule name in the GitLab project, e.g. `my-sdk` */
   githubProjectSubmoduleName: string;
 
+  /** SHA of the last branch commit to be used in the submodule update task */
+  githubRepositorySHA: string | undefined;
+}
+
+/** Submodule update with the resolved SHA commit, e.g. from the branch HEAD */
+export type SyncedSubmodule = SubmoduleUpdate & {
+  githubRepositorySHA: string;
+
+  /** SHA commit the submodule points to in the target branch */
+  previousGithubRepositorySHA: string | undefined;
+
+  /** Commits added by the update, `undefined` if the submodule is new or the changelog is not available */
+  changelog?: SubmoduleChangelog;
+
+  /** Requested SHA commit skipped as stale, as the sync branch already points the submodule to its descendant */
+  staleGithubRepositorySHA?: string;
+};
+
+export interface UpsertBranchResult {
+  /**
+   * Whether the source branch is created, reset to the target branch, or rebased onto it keeping the commits created by people.
+   * `update` if the `api` strategy commits the submodules on top of the existing branch.
+   * `superseded` if another job has pushed the same or newer submodule SHA commits to the branch during the sync.
+   * `unchanged` if the branch already points the submodules to the requested SHA commits, and `stale` if some of them
+   * are the ancestors of the branch SHA commits, so nothing is pushed
+   */
+  sourceBranchAction:
+    | 'create'
+    | 'reset'
+    | 'update'
+    | 'rebase'
+    | 'superseded'
+    | 'unchanged'
+    | 'stale';
+
+  /** Updated submodules with the resolved SHA commits */
+  syncedSubmodules: SyncedSubmodule[];
+}
+
+/** State of the GitLab MR after the command is run */
+export type MergeRequestState =
+  | 'opened'
+  | 'merge_when_pipeline_succeeds'
+  | 'merged'
+  | 'closed';
+
+/** Result of the command for the GitLab destination, exposed as the Action outputs and JSON */
+export interface CommandResult {
+  /** GitLab project ID, e.g. `123` or `group/project` */
+  gitlabProjectId: string;
+
+  /** Target branch name in GitLab to merge the MR into */
+  gitlabTargetBranch: string;
+
+  /** Source branch name in GitLab the MR is created from */
+  gitlabSourceBranch: string;
+
+  /** MR IID, `undefined` if the MR is not found, or not created in the dry run */
+  mergeRequestIid: number | undefined;
+
+  /** MR web URL, `undefined` if the MR is not found, or not created in the dry run */
+  mergeRequestWebUrl: string | undefined;
+
+  /** MR state after the command, `undefined` if the MR is not found */
+  mergeRequestState: MergeRequestState | undefined;
+
+  /** Submodules with the SHA commits, the main one goes first */
+  submodules: SubmoduleUpdate[];
+
+  /** Whether the changes are only planned, but not applied */
+  dryRun: boolean;
+}
+
+export interface BaseCommandOptions extends SubmoduleUpdate {
+  /** GitLab project ID, e.g. `123` or `group/project` */
+  gitlabProjectId: string;
+
+  /** Target branch name in GitLab to merge the MR into */
+  gitlabTargetBranch: string;
+
   /** GitLab options to authenticate and connect to the API */
   gitlabOptions: Required<
     Pick<BaseRequestOptionsWithAccessToken<unknown>, 'host' | 'token'>
-  >;
+  > & {
+    /** Type of the `token`, it defines the API authentication header and the Git username, `personal` by default */
+    tokenType?: GitlabTokenType;
+  };
 
-  /** SHA of the last branch commit to be used in the submodule update task */
-  githubRepositorySHA: string | undefined;
+  /**
+   * Other submodules to update in the same branch and MR,
+   * the sync branch name is still based on the `githubProjectSubmoduleName` and `githubRepositoryBranch`
+   */
+  additionalSubmodules?: SubmoduleUpdate[];
+
+  /** GitHub Pull Request URL, used in the GitLab MR description and notes */
+  githubPullRequestUrl?: string;
+
+  /** Retry counts and delays of the GitLab API requests and Git network operations */
+  retryOptions?: RetryOptions;
+
+  /** Templates of the MR title and description, the commit and merge commit messages */
+  messageTemplates?: MessageTemplates;
+
+  /** GitLab API client, created from the `gitlabOptions` and `retryOptions`, if not provided */
+  gitlab?: GitlabClient;
+
+  /** Git client factory, `simpleGit` by default */
+  createGit?: GitFactory;
+
+  /** Logger of the command progress, prints to the console by default */
+  logger?: Logger;
+
+  /** Aborts the running Git processes, GitLab API requests and waits, the command rejects with the signal reason */
+  signal?: AbortSignal;
 }
+
+/**
+ * Strategy to update the submodule in the GitLab repository:
+ * - `api` updates the submodule through the GitLab API, without cloning the repository
+ * - `git` clones the GitLab repository and updates the submodule with Git
+ * - `rebase` works as `git`, but keeps the commits created by people on the source branch and rebases them onto the target branch
+ */
+export type SyncStrategy = 'api' | 'git' | 'rebase';
+
+/**
+ * How the `git` and `rebase` strategies clone the GitLab repository:
+ * `full` clones the whole repository, `fast` clones only the commits, trees and files needed for the sync
+ */
+export type CloneMode = 'full' | 'fast';
@@ -0,0 +1,815 @@
+import { GitbeakerRequestError } from '@gitbeaker/requester-utils';
+import {
+  createSubmoduleCommitMessage,
+  defaultCommitMessageSalt,
+} from './commit-message-salt.js';
+import { getGitlabBranchSHA, isGitlabCommitInBranch } from './gitlab-branch.js';
+import { createMessageTemplateValues } from './message-templates.js';
+import {
+  getGitlabSubmodule,
+  getGitlabSubmoduleSHA,
+} from './gitlab-submodule.js';
+import { CommandContext } from './command-context.js';
+import {
+  GitCommandError,
+  InvalidOptionsError,
+  SourceBranchChangedError,
+  SubmoduleSyncError,
+  SubmodulesUpToDateError,
+} from './errors.js';
+import { RetryOptions, withRetry } from './retry.js';
+import { getRemoteSubmoduleChangelog } from './submodule-changelog.js';
+import { getSubmoduleUpdates } from './submodule-updates.js';
+import {
+  SubmoduleUpdate,
+  SyncedSubmodule,
+  UpsertBranchResult,
+} from './types.js';
+import { UpsertBranchOptions, maxSyncAttempts } from './upsert-branch.js';
+import { validateSyncBranchCommits } from './validate-sync-branch-commits.js';
+
+/**
+ * Creates a new branch in the GitLab repository, or updates an existing one
+ * only through the GitLab API, without cloning the repository.
+ * The existing branch which contains the target branch HEAD gets the submodule update commits on top of it.
+ * The branch behind the target one is recreated from it, the same way as the `git` strategy resets it,
+ * and only after it's known that there is something to commit.
+ * The branch HEAD is checked before and after every commit, as GitLab has no lease for the API commits
+ *
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param gitlabTargetBranch Target branch name in GitLab to merge the MR into
+ * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
+ * @param githubRepositorySHA SHA of the last branch commit to be used in the submodule update task
+ * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param additionalSubmodules Other submodules to update in the same branch
+ * @param gitlabSourceBranch Source branch name in GitLab to create the MR from
+ * @param githubPullRequestUrl GitHub Pull Request URL, used in the commit message template
+ * @param retryOptions Retry counts and delays of the GitLab API requests and Git network operations
+ * @param messageTemplates Templates of the commit message
+ * @param dryRun Validate and compute the changes without calling the mutating GitLab API
+ * @param allowRewind Move the submodules to the requested SHA commits, even if the sync branch points to their descendants
+ * @param signingKey Not used, the commits are created by GitLab
+ * @param context GitLab client, Git factory and logger of the command
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @returns Updated submodules with the resolved SHA commits
+ */
+export async function upsertBranchViaApi(
+  options: UpsertBranchOptions,
+  commitMessageSalt = defaultCommitMessageSalt
+): Promise<UpsertBranchResult> {
+  const {
+    githubRepositoryBranch,
+    signingKey,
+    context: { logger },
+  } = options;
+
+  // the API commits are created by GitLab, which signs them with its own key, if it's configured
+  if (signingKey) {
+    logger.warn(
+      '⚠︎ The signing key is not used by the "api" strategy, the commits are created by GitLab'
+    );
+  }
+
+  // the branch is checked before every commit, so the sync is repeated from the branch changed by another job
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await upsertBranchViaApiAttempt(options, commitMessageSalt);
+    } catch (error) {
+      if (
+        !(error instanceof SourceBranchChangedError) ||
+        attempt >= maxSyncAttempts
+      )
+        throw error;
+
+      logger.warn(
+        `⚠︎ Branch related to the GitHub repository branch "${githubRepositoryBranch}" was changed during the sync, retrying (${attempt}/${maxSyncAttempts - 1})`
+      );
+    }
+  }
+}
+
+/**
+ * Creates or updates the branch in the GitLab repository once, see `upsertBranchViaApi`
+ *
+ * @param options Options of the `upsertBranchViaApi`
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @returns Updated submodules with the resolved SHA commits
+ */
+async function upsertBranchViaApiAttempt(
+  {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    githubRepositoryBranch,
+    githubRepositorySHA,
+    githubProjectSubmoduleName,
+    additionalSubmodules,
+    gitlabSourceBranch,
+    githubPullRequestUrl,
+    retryOptions,
+    messageTemplates,
+    dryRun = false,
+    allowRewind = false,
+    context,
+  }: UpsertBranchOptions,
+  commitMessageSalt = defaultCommitMessageSalt
+): Promise<UpsertBranchResult> {
+  const submoduleUpdates = getSubmoduleUpdates({
+    githubProjectSubmoduleName,
+    githubRepositoryBranch,
+    githubRepositorySHA,
+    additionalSubmodules,
+  });
+
+  const { gitlab, logger } = context;
+
+  // the branches are read once, so all the submodules are compared with the same commits
+  const targetBranchSHA = await getGitlabBranchSHA({
+    gitlab,
+    gitlabProjectId,
+    branch: gitlabTargetBranch,
+  });
+
+  if (!targetBranchSHA) {
+    throw new InvalidOptionsError(
+      `Target branch "${gitlabTargetBranch}" not found in the GitLab project "${gitlabProjectId}"`
+    );
+  }
+
+  const sourceBranchSHA = await getGitlabBranchSHA({
+    gitlab,
+    gitlabProjectId,
+    branch: gitlabSourceBranch,
+  });
+
+  if (sourceBranchSHA) {
+    await validateSyncBranchCommits({
+      gitlab,
+      logger,
+      gitlabProjectId,
+      gitlabTargetBranch,
+      githubRepositoryBranch,
+      gitlabSourceBranch,
+      commitMessageSalt,
+    });
+  }
+
+  const plannedUpdates: PlannedSubmoduleUpdate[] = [];
+
+  for (const submoduleUpdate of submoduleUpdates) {
+    plannedUpdates.push(
+      await planSubmoduleUpdateViaApi({
+        context,
+        gitlabProjectId,
+        targetBranchSHA,
+        sourceBranchSHA,
+        allowRewind,
+        retryOptions,
+        ...submoduleUpdate,
+      })
+    );
+  }
+
+  const syncedSubmodules = plannedUpdates.map(
+    ({ syncedSubmodule }) => syncedSubmodule
+  );
+
+  const isTargetBranchUpToDate = plannedUpdates.every(
+    ({ syncedSubmodule }) =>
+      syncedSubmodule.previousGithubRepositorySHA ===
+      syncedSubmodule.githubRepositorySHA
+  );
+
+  // the target branch already points to the requested submodule commits, e.g. the GitHub push job is repeated after the merge
+  if (!sourceBranchSHA && isTargetBranchUpToDate) {
+    logger.warn(
+      `⚠︎ Branch "${gitlabTargetBranch}" already points the submodules to the same SHA commits, skipping the commit`
+    );
+
+    return { sourceBranchAction: 'unchanged', syncedSubmodules };
+  }
+
+  // nothing is changed in GitLab before it's known that there is something to commit
+  if (isTargetBranchUpToDate) {
+    throw new SubmodulesUpToDateError(
+      `Nothing to commit, submodules are already up to date in the branch "${gitlabTargetBranch}"`
+    );
+  }
+
+  if (
+    sourceBranchSHA &&
+    plannedUpdates.every(
+      ({ branchGitlinkSHA, syncedSubmodule }) =>
+        branchGitlinkSHA === syncedSubmodule.githubRepositorySHA
+    )
+  ) {
+    const isStale = syncedSubmodules.some(
+      ({ staleGithubRepositorySHA }) => staleGithubRepositorySHA
+    );
+
+    logger.warn(
+      `⚠︎ Branch related to the GitHub repository branch "${githubRepositoryBranch}" already points the submodules to ${isStale ? 'newer' : 'the same'} SHA commits, skipping the commit`
+    );
+
+    return {
+      sourceBranchAction: isStale ? 'stale' : 'unchanged',
+      syncedSubmodules,
+    };
+  }
+
+  // the branch with only the sync commits is recreated from the moved target branch, so it never drifts from it
+  const isSourceBranchReset =
+    sourceBranchSHA !== undefined &&
+    !(await isGitlabCommitInBranch({
+      gitlab,
+      gitlabProjectId,
+      sha: targetBranchSHA,
+      branchSHA: sourceBranchSHA,
+    }));
+
+  const sourceBranchAction = !sourceBranchSHA
+    ? 'create'
+    : isSourceBranchReset
+      ? 'reset'
+      : 'update';
+
+  if (dryRun) return { sourceBranchAction, syncedSubmodules };
+
+  try {
+    await commitSubmodulesViaApi({
+      context,
+      gitlabProjectId,
+      gitlabTargetBranch,
+      gitlabSourceBranch,
+      githubRepositoryBranch,
+      githubPullRequestUrl,
+      commitMessageSalt,
+      messageTemplates,
+      retryOptions,
+      targetBranchSHA,
+      sourceBranchSHA,
+      isSourceBranchReset,
+      plannedUpdates,
+    });
+  } catch (error) {
+    if (
+      !(error instanceof SourceBranchChangedError) ||
+      !(await isSourceBranchSupersededViaApi({
+        context,
+        gitlabProjectId,
+        ref: await getGitlabBranchSHA({
+          gitlab,
+          gitlabProjectId,
+          branch: gitlabSourceBranch,
+        }),
+        plannedUpdates,
+        retryOptions,
+      }))
+    )
+      throw error;
+
+    logger.warn(
+      `⚠︎ Branch related to the GitHub repository branch "${githubRepositoryBranch}" already has the same or newer submodule commits, the sync is superseded`
+    );
+
+    return { sourceBranchAction: 'superseded', syncedSubmodules };
+  }
+
+  logger.success(
+    `✔️ Changes pushed to the origin branch related to the GitHub repository branch "${githubRepositoryBranch}"`
+  );
+
+  return { sourceBranchAction, syncedSubmodules };
+}
+
+/** Submodule update computed before any change is made in GitLab */
+interface PlannedSubmoduleUpdate {
+  /** Submodule with the resolved SHA commit, the target branch SHA commit and the changelog */
+  syncedSubmodule: SyncedSubmodule;
+
+  /** Submodule path relative to the repository root */
+  submodulePath: string;
+
+  /** Submodule remote URL from the `.gitmodules` file */
+  submoduleUrl: string | undefined;
+
+  /** SHA commit the submodule points to in the branch the update is committed to, the source or the target one */
+  branchGitlinkSHA: string | undefined;
+}
+
+/**
+ * Resolves the SHA commit of the submodule update and reads the gitlinks of the target and source branches
+ * through the GitLab API, without changing anything.
+ * The requested SHA commit is skipped as stale, if it's an ancestor of the SHA commit in the source branch
+ *
+ * @param context GitLab client, Git factory and logger of the command
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param targetBranchSHA SHA of the target branch to read the `.gitmodules` and the previous gitlink from
+ * @param sourceBranchSHA SHA of the existing source branch, `undefined` if it's created by the sync
+ * @param allowRewind Move the submodule to the requested SHA commit, even if it's an ancestor of the source branch one
+ * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
+ * @param githubRepositorySHA SHA of the last branch commit to be used in the submodule update task
+ * @param retryOptions Retry counts and delays of the Git network operations
+ */
+async function planSubmoduleUpdateViaApi({
+  context,
+  gitlabProjectId,
+  targetBranchSHA,
+  sourceBranchSHA,
+  allowRewind,
+  githubProjectSubmoduleName,
+  githubRepositoryBranch,
+  githubRepositorySHA,
+  retryOptions,
+}: {
+  context: CommandContext;
+  gitlabProjectId: string;
+  targetBranchSHA: string;
+  sourceBranchSHA: string | undefined;
+  allowRewind: boolean;
+  retryOptions: RetryOptions | undefined;
+} & SubmoduleUpdate): Promise<PlannedSubmoduleUpdate> {
+  const { gitlab, logger } = context;
+  const submodule = await getGitlabSubmodule({
+    gitlab,
+    gitlabProjectId,
+    ref: targetBranchSHA,
+    submoduleName: githubProjectSubmoduleName,
+  });
+
+  const requestedSHA =
+    githubRepositorySHA ||
+    (await getRemoteBranchHeadSHA({
+      context,
+      remoteUrl: submodule.url,
+      branch: githubRepositoryBranch,
+      retryOptions,
+    }));
+
+  logger.success(`☑︎ SHA for submodule is ${requestedSHA}`);
+
+  const previousGithubRepositorySHA = await getGitlabSubmoduleSHA({
+    gitlab,
+    gitlabProjectId,
+    ref: targetBranchSHA,
+    submodulePath: submodule.path,
+  });
+
+  const branchGitlinkSHA = sourceBranchSHA
+    ? await getGitlabSubmoduleSHA({
+        gitlab,
+        gitlabProjectId,
+        ref: sourceBranchSHA,
+        submodulePath: submodule.path,
+      })
+    : previousGithubRepositorySHA;
+
+  // the sync branch SHA commit is newer, if the requested one is its ancestor, e.g. the job of an older push is delayed
+  const isStale =
+    !allowRewind &&
+    sourceBranchSHA !== undefined &&
+    branchGitlinkSHA !== requestedSHA &&
+    (await isSameOrNewerSubmoduleSHA({
+      sha: requestedSHA,
+      newerSHA: branchGitlinkSHA,
+      submoduleUrl: submodule.url,
+      retryOptions,
+      context,
+    }));
+
+  if (isStale) {
+    logger.warn(
+      `⚠︎ Submodule "${githubProjectSubmoduleName}" SHA "${requestedSHA}" is an ancestor of "${branchGitlinkSHA}" in the sync branch, skipping it as stale`
+    );
+  }
+
+  const submoduleBranchHeadSHA =
+    isStale && branchGitlinkSHA ? branchGitlinkSHA : requestedSHA;
+
+  if (previousGithubRepositorySHA === submoduleBranchHeadSHA) {
+    logger.info(
+      `☑︎ Submodule "${githubProjectSubmoduleName}" is already at "${submoduleBranchHeadSHA}"`
+    );
+  }
+
+  return {
+    submodulePath: submodule.path,
+    submoduleUrl: submodule.url,
+    branchGitlinkSHA,
+    syncedSubmodule: {
+      githubProjectSubmoduleName,
+      githubRepositoryBranch,
+      githubRepositorySHA: submoduleBranchHeadSHA,
+      previousGithubRepositorySHA,
+      changelog: await getRemoteSubmoduleChangelog({
+        previousSHA: previousGithubRepositorySHA,
+        sha: submoduleBranchHeadSHA,
+        remoteUrl: submodule.url,
+        retryOptions,
+        context,
+      }),
+      ...(isStale && { staleGithubRepositorySHA: requestedSHA }),
+    },
+  };
+}
+
+/**
+ * Creates the source branch, if it's missing, or recreates it from the target branch, if it's reset,
+ * and commits the planned submodule updates to it.
+ * The branch HEAD is compared with the commit it's expected at before and after every commit
+ *
+ * @param context GitLab client, Git factory and logger of the command
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param gitlabTargetBranch Target branch name in GitLab, used in the commit message template
+ * @param gitlabSourceBranch Source branch name in GitLab to commit the updates to
+ * @param githubRepositoryBranch Branch name of the main submodule, the sync branch is created for it
+ * @param githubPullRequestUrl GitHub Pull Request URL, used in the commit message template
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @param messageTemplates Templates of the commit message
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param targetBranchSHA SHA of the target branch to create the source branch from
+ * @param sourceBranchSHA SHA of the source branch read at the start of the sync, `undefined` if it didn't exist.
+ * `SourceBranchChangedError` is thrown, if the branch was changed since then by another job or by people
+ * @param isSourceBranchReset Recreate the existing source branch from the target branch before the commits
+ * @param plannedUpdates Submodule updates to commit
+ */
+async function commitSubmodulesViaApi({
+  context,
+  gitlabProjectId,
+  gitlabTargetBranch,
+  gitlabSourceBranch,
+  githubRepositoryBranch,
+  githubPullRequestUrl,
+  commitMessageSalt,
+  messageTemplates,
+  retryOptions,
+  targetBranchSHA,
+  sourceBranchSHA,
+  isSourceBranchReset,
+  plannedUpdates,
+}: {
+  context: CommandContext;
+  commitMessageSalt: string;
+  targetBranchSHA: string;
+  sourceBranchSHA: string | undefined;
+  isSourceBranchReset: boolean;
+  plannedUpdates: PlannedSubmoduleUpdate[];
+} & Pick<
+  UpsertBranchOptions,
+  | 'gitlabProjectId'
+  | 'gitlabTargetBranch'
+  | 'gitlabSourceBranch'
+  | 'githubRepositoryBranch'
+  | 'githubPullRequestUrl'
+  | 'messageTemplates'
+  | 'retryOptions'
+>) {
+  const { gitlab, logger } = context;
+
+  const changedError = (options?: ErrorOptions) =>
+    new SourceBranchChangedError(
+      `Branch related to the GitHub repository branch "${githubRepositoryBranch}" was changed since it was read`,
+      gitlabSourceBranch,
+      options
+    );
+
+  let branchSHA = sourceBranchSHA;
+
+  if (branchSHA && isSourceBranchReset) {
+    logger.info(
+      `‼️ Resetting branch related to the GitHub repository branch "${githubRepositoryBranch}" to the state of the branch "${gitlabTargetBranch}"`
+    );
+
+    const headSHA = await getGitlabBranchSHA({
+      gitlab,
+      gitlabProjectId,
+      branch: gitlabSourceBranch,
+    });
+
+    if (headSHA !== branchSHA) throw changedError();
+
+    // GitLab has no API to move a branch, the MR of the removed branch is kept open and gets the new one
+    await gitlab.Branches.remove(gitlabProjectId, gitlabSourceBranch);
+
+    branchSHA = undefined;
+  }
+
+  if (!branchSHA) {
+    logger.info(
+      `🌱 Creating branch related to the GitHub repository branch "${githubRepositoryBranch}" from the branch "${gitlabTargetBranch}"`
+    );
+
+    // the branch created by another job since it was read is rejected by GitLab
+    const branch = await gitlab.Branches.create(
+      gitlabProjectId,
+      gitlabSourceBranch,
+      targetBranchSHA
+    ).catch((error) => {
+      if (
+        error instanceof GitbeakerRequestError &&
+        error.cause?.response.status === 400 &&
+        /already exists/i.test(String(error.cause.description))
+      )
+        throw changedError({ cause: error });
+
+      throw error;
+    });
+
+    branchSHA = branch.commit.id;
+  }
+
+  const commitOptions = {
+    context,
+    gitlabProjectId,
+    gitlabTargetBranch,
+    gitlabSourceBranch,
+    mainGithubRepositoryBranch: githubRepositoryBranch,
+    githubPullRequestUrl,
+    commitMessageSalt,
+    messageTemplates,
+  };
+
+  for (const plannedUpdate of plannedUpdates) {
+    const { syncedSubmodule, submodulePath, submoduleUrl } = plannedUpdate;
+
+    // the recreated branch points the submodule to the same commit as the target branch
+    const branchGitlinkSHA = isSourceBranchReset
+      ? syncedSubmodule.previousGithubRepositorySHA
+      : plannedUpdate.branchGitlinkSHA;
+
+    if (branchGitlinkSHA === syncedSubmodule.githubRepositorySHA) continue;
+
+    const headSHA = await getGitlabBranchSHA({
+      gitlab,
+      gitlabProjectId,
+      branch: gitlabSourceBranch,
+    });
+
+    if (headSHA !== branchSHA) throw changedError();
+
+    const commit = await commitSubmoduleViaApi({
+      ...commitOptions,
+      syncedSubmodule,
+      submodulePath,
+    });
+
+    const [parentSHA] = commit.parent_ids ?? [];
+
+    // another job has committed between the check and the commit, GitLab applies the commit on top of it
+    if (parentSHA !== branchSHA) {
+      const parentGitlinkSHA = parentSHA
+        ? await getGitlabSubmoduleSHA({
+            gitlab,
+            gitlabProjectId,
+            ref: parentSHA,
+            submodulePath,
+          })
+        : undefined;
+
+      // the newer submodule commit of another job is restored, so the branch never moves the submodule backwards
+      if (
+        parentGitlinkSHA &&
+        parentGitlinkSHA !== syncedSubmodule.githubRepositorySHA &&
+        (await isSameOrNewerSubmoduleSHA({
+          sha: syncedSubmodule.githubRepositorySHA,
+          newerSHA: parentGitlinkSHA,
+          submoduleUrl,
+          retryOptions,
+          context,
+        }))
+      ) {
+        await commitSubmoduleViaApi({
+          ...commitOptions,
+          syncedSubmodule: {
+            ...syncedSubmodule,
+            githubRepositorySHA: parentGitlinkSHA,
+          },
+          submodulePath,
+        });
+      }
+
+      throw changedError();
+    }
+
+    branchSHA = commit.id;
+  }
+}
+
+/**
+ * Checks whether the branch changed by another job already points the submodules
+ * to the same SHA commits, or to the newer ones of the same submodule branches
+ *
+ * @param context GitLab client, Git factory and logger of the command
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param ref SHA of the changed branch, `undefined` if it's deleted
+ * @param plannedUpdates Submodule updates of this sync
+ * @param retryOptions Retry counts and delays of the Git network operations
+ */
+async function isSourceBranchSupersededViaApi({
+  context,
+  gitlabProjectId,
+  ref,
+  plannedUpdates,
+  retryOptions,
+}: {
+  context: CommandContext;
+  gitlabProjectId: string;
+  ref: string | undefined;
+  plannedUpdates: PlannedSubmoduleUpdate[];
+  retryOptions: RetryOptions | undefined;
+}): Promise<boolean> {
+  // the deleted branch is not superseded, the next attempt creates it again
+  if (!ref) return false;
+
+  for (const {
+    syncedSubmodule,
+    submodulePath,
+    submoduleUrl,
+  } of plannedUpdates) {
+    const isSuperseded = await isSameOrNewerSubmoduleSHA({
+      sha: syncedSubmodule.githubRepositorySHA,
+      newerSHA: await getGitlabSubmoduleSHA({
+        gitlab: context.gitlab,
+        gitlabProjectId,
+        ref,
+        submodulePath,
+      }),
+      submoduleUrl,
+      retryOptions,
+      context,
+    });
+
+    if (!isSuperseded) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Checks whether the submodule SHA commit is the same as the other one, or its ancestor
+ *
+ * @param sha SHA commit of the submodule
+ * @param newerSHA SHA commit to compare with, e.g. from the branch changed by another job
+ * @param submoduleUrl Submodule remote URL to fetch the history from
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory and logger of the command
+ */
+async function isSameOrNewerSubmoduleSHA({
+  sha,
+  newerSHA,
+  submoduleUrl,
+  retryOptions,
+  context,
+}: {
+  sha: string;
+  newerSHA: string | undefined;
+  submoduleUrl: string | undefined;
+  retryOptions: RetryOptions | undefined;
+  context: CommandContext;
+}): Promise<boolean> {
+  if (!newerSHA) return false;
+  if (newerSHA === sha) return true;
+
+  const changelog = await getRemoteSubmoduleChangelog({
+    previousSHA: sha,
+    sha: newerSHA,
+    remoteUrl: submoduleUrl,
+    retryOptions,
+    context,
+  });
+
+  return changelog?.kind === 'fast-forward';
+}
+
+/**
+ * Commits the submodule pointer update to the source branch through the GitLab API
+ *
+ * @param context GitLab client, Git factory and logger of the command
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param gitlabTargetBranch Target branch name in GitLab, used in the commit message template
+ * @param gitlabSourceBranch Source branch name in GitLab to commit the update to
+ * @param mainGithubRepositoryBranch Branch name of the main submodule, the sync branch is created for it
+ * @param githubPullRequestUrl GitHub Pull Request URL, used in the commit message template
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @param messageTemplates Templates of the commit message
+ * @param syncedSubmodule Submodule with the resolved SHA commit
+ * @param submodulePath Submodule path relative to the repository root
+ * @returns Commit created by GitLab
+ */
+async function commitSubmoduleViaApi({
+  context: { gitlab, logger },
+  gitlabProjectId,
+  gitlabTargetBranch,
+  gitlabSourceBranch,
+  mainGithubRepositoryBranch,
+  githubPullRequestUrl,
+  commitMessageSalt,
+  messageTemplates,
+  syncedSubmodule,
+  submodulePath,
+}: {
+  context: CommandContext;
+  mainGithubRepositoryBranch: string;
+  commitMessageSalt: string;
+} & Pick<PlannedSubmoduleUpdate, 'syncedSubmodule' | 'submodulePath'> &
+  Pick<
+    UpsertBranchOptions,
+    | 'gitlabProjectId'
+    | 'gitlabTargetBranch'
+    | 'gitlabSourceBranch'
+    | 'githubPullRequestUrl'
+    | 'messageTemplates'
+  >) {
+  const {
+    githubProjectSubmoduleName,
+    githubRepositoryBranch,
+    githubRepositorySHA,
+  } = syncedSubmodule;
+
+  logger.info(
+    `📦 Committing submodule "${githubProjectSubmoduleName}" to branch related to the GitHub repository branch "${githubRepositoryBranch}"`
+  );
+
+  return gitlab.RepositorySubmodules.edit(
+    gitlabProjectId,
+    submodulePath,
+    gitlabSourceBranch,
+    githubRepositorySHA,
+    {
+      commitMessage: createSubmoduleCommitMessage({
+        submoduleUpdates: [
+          { githubProjectSubmoduleName, githubRepositoryBranch },
+        ],
+        commitMessageSalt,
+        template: messageTemplates?.commitMessage,
+        templateValues: createMessageTemplateValues({
+          submodules: [syncedSubmodule],
+          githubRepositoryBranch: mainGithubRepositoryBranch,
+          gitlabTargetBranch,
+          githubPullRequestUrl,
+          jiraKeyPattern: messageTemplates?.jiraKeyPattern,
+        }),
+      }),
+    }
+  ).catch((error) => {
+    throw new SubmoduleSyncError(
+      `Failed to update submodule "${githubProjectSubmoduleName}" to "${githubRepositorySHA}"`,
+      { cause: error }
+    );
+  });
+}
+
+/**
+ * Gets the latest commit SHA of the branch from the submodule remote without cloning it
+ *
+ * @param context Git factory and logger of the command
+ * @param remoteUrl Submodule remote URL from the `.gitmodules` file
+ * @param branch Branch name in the submodule
+ * @param retryOptions Retry counts and delays of the Git network operations
+ */
+export async function getRemoteBranchHeadSHA({
+  context: { createGit, logger, signal },
+  remoteUrl,
+  branch,
+  retryOptions,
+}: {
+  context: CommandContext;
+  remoteUrl: string | undefined;
+  branch: string;
+  retryOptions: RetryOptions | undefined;
+}) {
+  logger.info('🔍 Submodule SHA is not set, fetching from remote');
+
+  if (!remoteUrl || /^\.\.?\//.test(remoteUrl)) {
+    throw new InvalidOptionsError(
+      'Submodule URL is relative or not set, please provide the submodule SHA explicitly'
+    );
+  }
+
+  const sha = await withRetry(
+    () => createGit({}).listRemote(['--heads', remoteUrl, branch]),
+    { operationName: 'git ls-remote', retryOptions, logger, signal }
+  )
+    .catch((error) => {
+      throw new GitCommandError('Failed to list submodule remote', {
+        cause: error,
+      });
+    })
+    .then(
+      /**
+       * @param result Example: `a2f6c4e2a11d0a7b8b994363bc6b8a6db60027f8   refs/heads/my-branch`
+       */
+      (result) => {
+        const [sha] = result.split(/\s+/);
+        return sha;
+      }
+    );
+
+  if (!sha) {
+    throw new GitCommandError(
+      `Branch "${branch}" not found in the submodule remote`
+    );
+  }
+
+  return sha;
+}
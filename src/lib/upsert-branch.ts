@@ -1,13 +1,100 @@
-import { Gitlab } from '@gitbeaker/rest';
 import path from 'node:path';
-import { simpleGit } from 'simple-git';
-import chalk from 'chalk';
+import type { SimpleGit } from 'simple-git';
 import { TempDir } from './temp-dir.js';
-import { BaseCommandOptions } from './types.js';
+import {
+  BaseCommandOptions,
+  CloneMode,
+  GitCommitter,
+  GitSigningKey,
+  SyncedSubmodule,
+  UpsertBranchResult,
+} from './types.js';
+import { CommandContext } from './command-context.js';
+import { Logger } from './logger.js';
+import {
+  CommitSignatureNotVerifiedError,
+  GitCommandError,
+  InvalidOptionsError,
+  ManualCommitsError,
+  RebaseConflictError,
+  SourceBranchChangedError,
+  SubmoduleNotFoundError,
+} from './errors.js';
+import { withRetry } from './retry.js';
+import {
+  importSigningKey,
+  verifyCommitSignature,
+  verifyLocalCommitSignatures,
+} from './commit-signing.js';
+import { withTiming } from './timing.js';
+import { createMirrorWorktree, refreshMirror } from './mirror-cache.js';
+import {
+  createGitCredentialsEnv,
+  createGitlabRemoteUrl,
+} from './git-credentials.js';
+import { createMessageTemplateValues } from './message-templates.js';
+import {
+  SubmoduleChangelog,
+  fetchSubmoduleHistory,
+  getRemoteSubmoduleChangelog,
+  getSubmoduleChangelog,
+} from './submodule-changelog.js';
+import { getRemoteBranchHeadSHA } from './upsert-branch-via-api.js';
+import { getSubmoduleUpdates } from './submodule-updates.js';
+import {
+  createSubmoduleCommitMessage,
+  defaultCommitMessageSalt,
+  hasCommitMessageSalt,
+} from './commit-message-salt.js';
+
+/** Depth of the first fetch of the source branch in the `fast` clone mode, doubled on every deepening */
+const fastCloneFetchDepth = 20;
+
+/** Number of the deepenings to find the merge base of the branches, before the full history is fetched */
+const fastCloneMaxDeepenAttempts = 4;
+
+/** Number of the sync attempts, when the source branch is changed by another job before the push */
+export const maxSyncAttempts = 3;
 
 export interface UpsertBranchOptions extends BaseCommandOptions {
   /** Branch name in the GiLab repository to create the MR from */
   gitlabSourceBranch: string;
+
+  /** Validate and compute the changes without pushing them to GitLab */
+  dryRun?: boolean;
+
+  /**
+   * Keep the commits created by people on the existing source branch and rebase them onto the target branch,
+   * instead of failing the sync. Only the previous submodule sync commits are replaced
+   */
+  rebaseManualCommits?: boolean;
+
+  /** Git identity of the submodule update commit, the GitLab token user by default */
+  committer?: GitCommitter;
+
+  /** `fast` clones without the blobs and the full history, and checks out only the `.gitmodules`, `full` by default */
+  cloneMode?: CloneMode;
+
+  /**
+   * Directory of the bare mirrors of the GitLab repository and the submodule remotes kept between the runs.
+   * Every run checks out a worktree of the refreshed mirror instead of cloning to a temporary directory
+   */
+  cacheDir?: string;
+
+  /**
+   * Move the submodules to the requested SHA commits, even if they're the ancestors of the SHA commits in the sync branch,
+   * e.g. for an intentional rollback. The stale SHA commits are skipped by default
+   */
+  allowRewind?: boolean;
+
+  /**
+   * GPG or SSH private key to sign the commits, imported into an isolated keyring for the sync.
+   * The pushed commit is checked to be verified by GitLab
+   */
+  signingKey?: GitSigningKey;
+
+  /** GitLab client, Git factory, logger and abort signal of the command */
+  context: CommandContext;
 }
 
 /**
@@ -18,44 +105,188 @@ export interface UpsertBranchOptions extends BaseCommandOptions {
  * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
  * @param githubRepositorySHA SHA of the last branch commit to be used in the submodule update task
  * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param additionalSubmodules Other submodules to update in the same branch
  * @param gitlabSourceBranch Source branch name in GitLab to create the MR from
+ * @param githubPullRequestUrl GitHub Pull Request URL, used in the commit message template
  * @param gitlabOptions GitLab options to authenticate and connect to the API
+ * @param retryOptions Retry counts and delays of the GitLab API requests and Git network operations
+ * @param messageTemplates Templates of the commit message
+ * @param dryRun Validate and compute the changes without pushing them to GitLab
+ * @param rebaseManualCommits Keep the commits created by people and rebase them onto the target branch
+ * @param committer Git identity of the submodule update commit
+ * @param cloneMode Clone the whole repository, or only the commits, trees and files needed for the sync
+ * @param cacheDir Directory of the mirrors kept between the runs, the repository is cloned to a temporary directory if not set
+ * @param allowRewind Move the submodules to the requested SHA commits, even if the sync branch points to their descendants
+ * @param signingKey GPG or SSH private key to sign the commits
+ * @param context GitLab client, Git factory and logger of the command
  * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @returns Updated submodules with the resolved SHA commits
  */
 export async function upsertBranch(
+  options: UpsertBranchOptions,
+  commitMessageSalt = defaultCommitMessageSalt
+): Promise<UpsertBranchResult> {
+  const {
+    githubRepositoryBranch,
+    context: { logger },
+  } = options;
+
+  // the branch is pushed with a lease, so the sync is repeated from the branch changed by another job
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await upsertBranchAttempt(options, commitMessageSalt);
+    } catch (error) {
+      if (
+        !(error instanceof SourceBranchChangedError) ||
+        attempt >= maxSyncAttempts
+      )
+        throw error;
+
+      logger.warn(
+        `⚠︎ Branch related to the GitHub repository branch "${githubRepositoryBranch}" was changed during the sync, retrying (${attempt}/${maxSyncAttempts - 1})`
+      );
+    }
+  }
+}
+
+/**
+ * Creates or updates the branch in the GitLab repository once, see `upsertBranch`
+ *
+ * @param options Options of the `upsertBranch`
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @returns Updated submodules with the resolved SHA commits
+ */
+async function upsertBranchAttempt(
   {
     gitlabProjectId,
     gitlabTargetBranch,
     githubRepositoryBranch,
     githubRepositorySHA,
     githubProjectSubmoduleName,
+    additionalSubmodules,
     gitlabSourceBranch,
+    githubPullRequestUrl,
     gitlabOptions,
+    retryOptions,
+    messageTemplates,
+    dryRun = false,
+    rebaseManualCommits = false,
+    committer,
+    cloneMode = 'full',
+    cacheDir,
+    allowRewind = false,
+    signingKey,
+    context: commandContext,
   }: UpsertBranchOptions,
-  commitMessageSalt = 'submodule-auto-sync'
-) {
+  commitMessageSalt = defaultCommitMessageSalt
+): Promise<UpsertBranchResult> {
+  // the mirror is fetched incrementally, the shallow fetches of the `fast` mode would make it shallow
+  if (cacheDir && cloneMode === 'fast') {
+    throw new InvalidOptionsError(
+      'The "fast" clone mode is not supported with the cache directory'
+    );
+  }
+
+  const submoduleUpdates = getSubmoduleUpdates({
+    githubProjectSubmoduleName,
+    githubRepositoryBranch,
+    githubRepositorySHA,
+    additionalSubmodules,
+  });
+
+  // the GitLab credentials are passed to every Git process, but not stored in the clone
+  const credentialsEnv = await createGitCredentialsEnv(gitlabOptions);
+
+  // the commits are signed with the key imported into its own temporary keyring, not into the runner's one
+  using signingKeyring = signingKey
+    ? await importSigningKey({
+        signingKey,
+        env: credentialsEnv,
+        context: commandContext,
+      })
+    : undefined;
+
+  const gitEnv = signingKeyring?.env ?? credentialsEnv;
+  const context: CommandContext = {
+    ...commandContext,
+    createGit: (options) => commandContext.createGit(options).env(gitEnv),
+  };
+
+  const { logger } = context;
+
   using repositoryTempDir = new TempDir();
 
-  const repoBaseDir = repositoryTempDir.path;
+  // the worktree of the mirror is removed before the temporary directory
+  await using repository = await withTiming(
+    () =>
+      cloneGitlabRepo(repositoryTempDir.path, {
+        gitlabProjectId,
+        gitlabTargetBranch,
+        gitlabOptions,
+        retryOptions,
+        committer,
+        cloneMode,
+        cacheDir,
+        context,
+      }),
+    {
+      operationName: cacheDir ? 'Worktree checkout' : `Clone (${cloneMode})`,
+      logger,
+    }
+  );
 
-  await cloneGitlabRepo(repoBaseDir, {
-    gitlabProjectId,
-    gitlabOptions,
-  });
+  const repoBaseDir = repository.path;
+
+  const isSourceBranchExists = await withTiming(
+    () =>
+      checkoutGitlabSourceBranch(repoBaseDir, {
+        gitlabTargetBranch,
+        githubRepositoryBranch,
+        gitlabSourceBranch,
+        retryOptions,
+        cloneMode,
+        context,
+      }),
+    { operationName: 'Source branch checkout', logger }
+  );
 
-  await checkoutGitlabSourceBranch(repoBaseDir, {
-    gitlabTargetBranch,
-    githubRepositoryBranch,
-    gitlabSourceBranch,
-  });
+  const isRebase = rebaseManualCommits && isSourceBranchExists;
+
+  const manualCommits = isRebase
+    ? await getManualCommits({
+        repoBaseDir,
+        gitlabTargetBranch,
+        gitlabSourceBranch,
+        commitMessageSalt,
+        retryOptions,
+        context,
+      })
+    : [];
+
+  if (!isRebase) {
+    await validateIsSubmoduleSyncBranch({
+      repoBaseDir,
+      gitlabTargetBranch,
+      githubRepositoryBranch,
+      commitMessageSalt,
+      gitlabSourceBranch,
+      retryOptions,
+      context,
+    });
+  }
 
-  await validateIsSubmoduleSyncBranch({
-    repoBaseDir,
-    gitlabTargetBranch,
-    githubRepositoryBranch,
-    commitMessageSalt,
-    gitlabSourceBranch,
-  });
+  // the lease protects the commits pushed by people or another job since the fetch
+  const sourceBranchSHA = isSourceBranchExists
+    ? await context
+        .createGit({ baseDir: repoBaseDir })
+        .revparse([`origin/${gitlabSourceBranch}`])
+        .catch((error) => {
+          throw new GitCommandError(
+            `Failed to resolve branch related to the GitHub repository branch "${githubRepositoryBranch}"`,
+            { cause: error }
+          );
+        })
+    : undefined;
 
   await resetGitlabRepoBranch({
     repoBaseDir,
@@ -63,89 +294,442 @@ export async function upsertBranch(
     githubRepositoryBranch,
     gitlabSourceBranch,
     commitMessageSalt,
+    context,
   });
 
-  await checkoutSubmoduleBranch({
-    repoBaseDir,
-    githubRepositoryBranch,
-    githubRepositorySHA,
-    githubProjectSubmoduleName,
-  });
+  const syncedSubmodules: SyncedSubmodule[] = [];
+
+  const updateSubmodule =
+    cloneMode === 'fast' ? stageSubmoduleCommit : checkoutSubmoduleBranch;
+
+  for (const submoduleUpdate of submoduleUpdates) {
+    syncedSubmodules.push({
+      ...submoduleUpdate,
+      ...(await withTiming(
+        () =>
+          updateSubmodule({
+            repoBaseDir,
+            sourceBranchSHA,
+            allowRewind,
+            retryOptions,
+            cacheDir,
+            context,
+            ...submoduleUpdate,
+          }),
+        {
+          operationName: `Submodule "${submoduleUpdate.githubProjectSubmoduleName}" update`,
+          logger,
+        }
+      )),
+    });
+  }
+
+  // the target branch already points to the requested submodule commits, e.g. the GitHub push job is repeated after the merge
+  if (
+    !sourceBranchSHA &&
+    syncedSubmodules.every(
+      ({ previousGithubRepositorySHA, githubRepositorySHA }) =>
+        previousGithubRepositorySHA === githubRepositorySHA
+    )
+  ) {
+    logger.warn(
+      `⚠︎ Branch "${gitlabTargetBranch}" already points the submodules to the same SHA commits, skipping the commit and push`
+    );
+
+    return { sourceBranchAction: 'unchanged', syncedSubmodules };
+  }
+
+  // the branch already points to the requested or newer submodule commits, e.g. the GitHub push job is repeated or delayed
+  if (
+    sourceBranchSHA &&
+    (await isSyncBranchUpToDate({
+      repoBaseDir,
+      sourceBranchSHA,
+      syncedSubmodules,
+      context,
+    }))
+  ) {
+    const isStale = syncedSubmodules.some(
+      ({ staleGithubRepositorySHA }) => staleGithubRepositorySHA
+    );
+
+    logger.warn(
+      `⚠︎ Branch related to the GitHub repository branch "${githubRepositoryBranch}" already points the submodules to ${isStale ? 'newer' : 'the same'} SHA commits, skipping the commit and push`
+    );
+
+    if (signingKey) {
+      await verifySourceBranchSignature({
+        gitlabProjectId,
+        githubRepositoryBranch,
+        commitSHA: sourceBranchSHA,
+        context,
+      });
+    }
+
+    return {
+      sourceBranchAction: isStale ? 'stale' : 'unchanged',
+      syncedSubmodules,
+    };
+  }
 
   await commitGitlabRepoChanges({
     repoBaseDir,
-    githubProjectSubmoduleName,
+    syncedSubmodules,
     githubRepositoryBranch,
+    gitlabTargetBranch,
+    githubPullRequestUrl,
     commitMessageSalt,
+    messageTemplates,
+    cloneMode,
+    context,
   });
 
-  await pushGitlabRepoChanges({
+  await rebaseGitlabRepoManualCommits({
     repoBaseDir,
-    githubRepositoryBranch,
-    gitlabSourceBranch,
+    manualCommits,
+    gitlabTargetBranch,
+    context,
   });
+
+  // the commit signed with another key, e.g. by the Git config of the runner, is never pushed
+  if (signingKey) {
+    await verifyLocalCommitSignatures({
+      repoBaseDir,
+      baseRef: `origin/${gitlabTargetBranch}`,
+      context,
+    });
+  }
+
+  const sourceBranchAction = manualCommits.length
+    ? 'rebase'
+    : isSourceBranchExists
+      ? 'reset'
+      : 'create';
+
+  if (dryRun) {
+    context.logger.warn(
+      `⚠︎ Dry run: skipping push to the origin branch related to the GitHub repository branch "${githubRepositoryBranch}"`
+    );
+
+    return { sourceBranchAction, syncedSubmodules };
+  }
+
+  try {
+    await withTiming(
+      () =>
+        pushGitlabRepoChanges({
+          repoBaseDir,
+          githubRepositoryBranch,
+          gitlabSourceBranch,
+          sourceBranchSHA,
+          retryOptions,
+          context,
+        }),
+      { operationName: 'Push', logger }
+    );
+  } catch (error) {
+    if (
+      !(error instanceof SourceBranchChangedError) ||
+      !(await isSourceBranchSuperseded({
+        repoBaseDir,
+        githubRepositoryBranch,
+        gitlabSourceBranch,
+        syncedSubmodules,
+        retryOptions,
+        cloneMode,
+        context,
+      }))
+    )
+      throw error;
+
+    logger.warn(
+      `⚠︎ Branch related to the GitHub repository branch "${githubRepositoryBranch}" already has the same or newer submodule commits, the sync is superseded`
+    );
+
+    if (signingKey) {
+      await verifySourceBranchSignature({
+        gitlabProjectId,
+        githubRepositoryBranch,
+        commitSHA: await resolveCommitSHA(
+          repoBaseDir,
+          `origin/${gitlabSourceBranch}`,
+          context
+        ),
+        context,
+      });
+    }
+
+    return { sourceBranchAction: 'superseded', syncedSubmodules };
+  }
+
+  // the signatures are verified locally before the push, GitLab also needs the key and the committer email
+  if (signingKey) {
+    await verifySourceBranchSignature({
+      gitlabProjectId,
+      githubRepositoryBranch,
+      commitSHA: await resolveCommitSHA(repoBaseDir, 'HEAD', context),
+      context,
+    });
+  }
+
+  return { sourceBranchAction, syncedSubmodules };
 }
 
 /**
- * Clones the GitLab repository to the temporary directory
+ * Resolves the commit SHA of the reference in the GitLab repository clone
+ *
+ * @param repoBaseDir Base directory of the GitLab repository clone
+ * @param ref Reference to resolve, e.g. `HEAD`
+ * @param context Git factory of the command
+ */
+async function resolveCommitSHA(
+  repoBaseDir: string,
+  ref: string,
+  { createGit }: CommandContext
+): Promise<string> {
+  return createGit({ baseDir: repoBaseDir })
+    .revparse([ref])
+    .catch((error) => {
+      throw new GitCommandError(`Failed to resolve "${ref}"`, {
+        cause: error,
+      });
+    });
+}
+
+/**
+ * Checks that GitLab shows the HEAD commit of the source branch as verified, after the push or when nothing is pushed.
+ * The commit stays in the branch, so the failure describes how to fix the signature verification
+ *
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param githubRepositoryBranch GitHub repository branch name
+ * @param commitSHA HEAD commit SHA of the source branch
+ * @param context GitLab client and logger of the command
+ */
+async function verifySourceBranchSignature({
+  gitlabProjectId,
+  githubRepositoryBranch,
+  commitSHA,
+  context,
+}: {
+  gitlabProjectId: string;
+  githubRepositoryBranch: string;
+  commitSHA: string;
+  context: CommandContext;
+}) {
+  await verifyCommitSignature({ gitlabProjectId, commitSHA, context }).catch(
+    (error) => {
+      if (error instanceof CommitSignatureNotVerifiedError) {
+        context.logger.error(
+          [
+            `✖︎ Commit "${commitSHA}" of the branch related to the GitHub repository branch "${githubRepositoryBranch}" is not verified in GitLab`,
+            `🤔 The way to resolve this issue is:`,
+            `Add the public signing key to the GitLab account of the committer, verify the committer email and run the Job again.`,
+          ].join('\n')
+        );
+      }
+
+      throw error;
+    }
+  );
+}
+
+/**
+ * Clones the GitLab repository to the temporary directory, or checks it out from the mirror in the cache directory
  *
  * @param repoBaseDir Base directory to clone the repository into
  * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param gitlabTargetBranch Target branch name in GitLab, the only branch cloned in the `fast` mode
  * @param gitlabOptions GitLab options to authenticate and connect to the API
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param committer Git identity of the commits, the GitLab token user by default
+ * @param cloneMode Clone the whole repository, or only the target branch HEAD without the blobs
+ * @param cacheDir Directory of the mirrors kept between the runs
+ * @param context GitLab client, Git factory with the GitLab credentials and logger of the command
+ * @returns Working copy of the repository, the worktree is removed from the mirror on dispose
  */
 async function cloneGitlabRepo(
   repoBaseDir: string,
   {
     gitlabProjectId,
+    gitlabTargetBranch,
     gitlabOptions,
-  }: Pick<UpsertBranchOptions, 'gitlabProjectId' | 'gitlabOptions'>
-) {
-  const gitlab = new Gitlab(gitlabOptions);
+    retryOptions,
+    committer,
+    cloneMode,
+    cacheDir,
+    context,
+  }: Pick<
+    UpsertBranchOptions,
+    | 'gitlabProjectId'
+    | 'gitlabTargetBranch'
+    | 'gitlabOptions'
+    | 'retryOptions'
+    | 'committer'
+    | 'cloneMode'
+    | 'cacheDir'
+    | 'context'
+  >
+): Promise<AsyncDisposable & { path: string }> {
+  const { gitlab, createGit, logger } = context;
 
-  const userData = await gitlab.Users.showCurrentUser().catch((error) => {
-    console.error(chalk.red('✖︎ Failed to get user data from GitLab API'));
-    throw error;
-  });
+  const { name, email } =
+    committer ??
+    (await getTokenUserCommitter({ gitlabOptions, gitlab, logger }));
 
-  console.log(
-    chalk.grey(`🔍 Getting project path for project with ID ${gitlabProjectId}`)
-  );
+  logger.info(`🔍 Getting project path for project with ID ${gitlabProjectId}`);
 
   const projectPath = (await gitlab.Projects.show(gitlabProjectId))
     .path_with_namespace;
 
-  console.log(chalk.green(`☑︎ Project path found`));
+  logger.success(`☑︎ Project path found`);
 
-  const git = simpleGit({
+  const git = createGit({
     baseDir: repoBaseDir,
   });
 
-  console.log(
-    chalk.grey(`🎋 Cloning GitLab project with ID ${gitlabProjectId}`)
-  );
+  const remoteUrl = createGitlabRemoteUrl(gitlabOptions, projectPath);
+
+  const mirrorWorktree = cacheDir
+    ? await createMirrorWorktree({
+        cacheDir,
+        remoteUrl,
+        worktreePath: repoBaseDir,
+        branch: gitlabTargetBranch,
+        retryOptions,
+        context,
+      })
+    : undefined;
+
+  try {
+    if (!mirrorWorktree) {
+      await cloneGitlabRepoToTempDir(git, {
+        gitlabProjectId,
+        gitlabTargetBranch,
+        remoteUrl,
+        retryOptions,
+        cloneMode,
+        context,
+      });
+    }
 
-  await git
-    .clone(
-      `https://${userData.username}:${gitlabOptions.token}@${
-        new URL(gitlabOptions.host).host
-      }/${projectPath}.git`,
-      '.',
-      {}
-    )
-    .catch(() => {
-      // suppress Git errors as they could contain sensitive data
-      throw new Error('✖︎ Failed to clone GitLab repository');
+    await git.addConfig('user.email', email).catch((error) => {
+      throw new GitCommandError('Failed to set user email in Git config', {
+        cause: error,
+      });
     });
 
-  await git.addConfig('user.email', userData.email).catch(() => {
-    // suppress Git errors as they could contain sensitive data
-    throw new Error('✖︎ Failed to set user email in Git config');
+    await git.addConfig('user.name', name).catch((error) => {
+      throw new GitCommandError('Failed to set user name in Git config', {
+        cause: error,
+      });
+    });
+  } catch (error) {
+    await mirrorWorktree?.[Symbol.asyncDispose]();
+    throw error;
+  }
+
+  return (
+    mirrorWorktree ?? {
+      path: repoBaseDir,
+      [Symbol.asyncDispose]: async () => {},
+    }
+  );
+}
+
+/**
+ * Clones the GitLab repository to the empty temporary directory
+ *
+ * @param git Git client of the temporary directory
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param gitlabTargetBranch Target branch name in GitLab, the only branch cloned in the `fast` mode
+ * @param remoteUrl HTTPS URL of the GitLab repository, without the credentials
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param cloneMode Clone the whole repository, or only the target branch HEAD without the blobs
+ * @param context Logger and abort signal of the command
+ */
+async function cloneGitlabRepoToTempDir(
+  git: SimpleGit,
+  {
+    gitlabProjectId,
+    gitlabTargetBranch,
+    remoteUrl,
+    retryOptions,
+    cloneMode,
+    context: { logger, signal },
+  }: { remoteUrl: string } & Pick<
+    UpsertBranchOptions,
+    | 'gitlabProjectId'
+    | 'gitlabTargetBranch'
+    | 'retryOptions'
+    | 'cloneMode'
+    | 'context'
+  >
+) {
+  logger.info(`🎋 Cloning GitLab project with ID ${gitlabProjectId}`);
+
+  // the blobs are fetched on demand, and the checkout is limited to the `.gitmodules` by the sparse checkout
+  const cloneOptions =
+    cloneMode === 'fast'
+      ? [
+          '--filter=blob:none',
+          '--depth=1',
+          '--no-checkout',
+          `--branch=${gitlabTargetBranch}`,
+        ]
+      : [];
+
+  await withRetry(() => git.clone(remoteUrl, '.', cloneOptions), {
+    operationName: 'git clone',
+    retryOptions,
+    logger,
+    signal,
+  }).catch((error) => {
+    throw new GitCommandError('Failed to clone GitLab repository', {
+      cause: error,
+    });
   });
 
-  await git.addConfig('user.name', userData.username).catch(() => {
-    // suppress Git errors as they could contain sensitive data
-    throw new Error('✖︎ Failed to set user name in Git config');
+  if (cloneMode === 'fast') {
+    // the shallow clone tracks only the target branch, the source branch is fetched later
+    await git
+      .addConfig('remote.origin.fetch', '+refs/heads/*:refs/remotes/origin/*')
+      .then(() =>
+        git.raw(['sparse-checkout', 'set', '--no-cone', '/.gitmodules'])
+      )
+      .catch((error) => {
+        throw new GitCommandError('Failed to set up the sparse checkout', {
+          cause: error,
+        });
+      });
+  }
+}
+
+/**
+ * Gets the Git identity of the GitLab token user.
+ * The CI job token can't read its user from the API, so the committer has to be set explicitly
+ *
+ * @param gitlabOptions GitLab token type
+ * @param gitlab GitLab API client
+ * @param logger Logger of the command
+ */
+async function getTokenUserCommitter({
+  gitlabOptions: { tokenType },
+  gitlab,
+  logger,
+}: Pick<UpsertBranchOptions, 'gitlabOptions'> &
+  Pick<CommandContext, 'gitlab' | 'logger'>): Promise<GitCommitter> {
+  if (tokenType === 'job') {
+    throw new InvalidOptionsError(
+      'Committer name and email are required with the CI job token, as its user is not available in the GitLab API'
+    );
+  }
+
+  const userData = await gitlab.Users.showCurrentUser().catch((error) => {
+    logger.error('✖︎ Failed to get user data from GitLab API');
+    throw error;
   });
+
+  return { name: userData.username, email: userData.email };
 }
 
 /**
@@ -154,6 +738,10 @@ async function cloneGitlabRepo(
  * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
  * @param gitlabTargetBranch Target branch name in GitLab to merge the MR into
  * @param gitlabSourceBranch Source branch name in GitLab to create the MR from
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param cloneMode In the `fast` mode the source branch is fetched only down to its merge base with the target branch
+ * @param context Git factory and logger of the command
+ * @returns `true` if the branch exists in the origin, `false` if it's created from the target branch
  */
 async function checkoutGitlabSourceBranch(
   repoBaseDir: string,
@@ -161,56 +749,168 @@ async function checkoutGitlabSourceBranch(
     githubRepositoryBranch,
     gitlabTargetBranch,
     gitlabSourceBranch,
+    retryOptions,
+    cloneMode,
+    context,
   }: Pick<
     UpsertBranchOptions,
-    'githubRepositoryBranch' | 'gitlabTargetBranch' | 'gitlabSourceBranch'
+    | 'githubRepositoryBranch'
+    | 'gitlabTargetBranch'
+    | 'gitlabSourceBranch'
+    | 'retryOptions'
+    | 'cloneMode'
+    | 'context'
   >
-) {
-  const git = simpleGit({
+): Promise<boolean> {
+  const { createGit, logger, signal } = context;
+
+  const git = createGit({
     baseDir: repoBaseDir,
   });
 
-  await git
-    .fetch('origin', gitlabSourceBranch)
-    .catch(() => {
-      // suppress Git errors as they could contain sensitive data
-      throw new Error(
-        `✖︎ Failed to fetch branch from origin related to the GitHub repository branch "${githubRepositoryBranch}`
+  const fetchOptions =
+    cloneMode === 'fast' ? [`--depth=${fastCloneFetchDepth}`] : [];
+
+  const isSourceBranchExists = await withRetry(
+    () => git.fetch('origin', gitlabSourceBranch, fetchOptions),
+    {
+      operationName: 'git fetch',
+      retryOptions,
+      logger,
+      signal,
+    }
+  )
+    .catch((error) => {
+      throw new GitCommandError(
+        `Failed to fetch branch from origin related to the GitHub repository branch "${githubRepositoryBranch}`,
+        { cause: error }
       );
     })
     .then(() =>
       git
         .checkoutBranch(gitlabSourceBranch, `origin/${gitlabSourceBranch}`)
-        .catch(() => {
-          console.error(
-            chalk.yellow(
-              `✖︎ Branch related to the GitHub repository branch "${githubRepositoryBranch}" not found in the GitLab repository.`
-            )
+        .catch((error) => {
+          logger.warn(
+            `✖︎ Branch related to the GitHub repository branch "${githubRepositoryBranch}" not found in the GitLab repository.`
           );
 
-          // suppress Git errors as they could contain sensitive data
-          throw new Error(
-            `✖︎ Failed to checkout branch from origin related to the GitHub repository branch "${githubRepositoryBranch}`
+          throw new GitCommandError(
+            `Failed to checkout branch from origin related to the GitHub repository branch "${githubRepositoryBranch}`,
+            { cause: error }
           );
         })
     )
+    .then(() => true)
     .catch(async () => {
-      await git.fetch('origin', gitlabTargetBranch).catch(() => {
-        // suppress Git errors as they could contain sensitive data
-        throw new Error(
-          `✖︎ Failed to fetch ${gitlabTargetBranch} branch from origin`
+      await withRetry(() => git.fetch('origin', gitlabTargetBranch), {
+        operationName: 'git fetch',
+        retryOptions,
+        logger,
+        signal,
+      }).catch((error) => {
+        throw new GitCommandError(
+          `Failed to fetch ${gitlabTargetBranch} branch from origin`,
+          { cause: error }
         );
       });
 
       return git
         .checkoutBranch(gitlabSourceBranch, `origin/${gitlabTargetBranch}`)
-        .catch(() => {
-          // suppress Git errors as they could contain sensitive data
-          throw new Error(
-            `✖︎ Failed to checkout ${gitlabTargetBranch} branch from origin`
+        .then(() => false)
+        .catch((error) => {
+          throw new GitCommandError(
+            `Failed to checkout ${gitlabTargetBranch} branch from origin`,
+            { cause: error }
           );
         });
     });
+
+  if (isSourceBranchExists && cloneMode === 'fast') {
+    await deepenToMergeBase({
+      repoBaseDir,
+      gitlabTargetBranch,
+      gitlabSourceBranch,
+      retryOptions,
+      context,
+    });
+  }
+
+  return isSourceBranchExists;
+}
+
+/**
+ * Deepens the shallow history of the target and source branches until their merge base is fetched,
+ * so the source branch commits are listed correctly for the salt check and the rebase.
+ * The history is fetched entirely, if the merge base is still not found after a few attempts
+ *
+ * @param repoBaseDir Base directory of the Git repository
+ * @param gitlabTargetBranch Target branch name in GitLab to merge the MR into
+ * @param gitlabSourceBranch Source branch name in GitLab to create the MR from
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory and logger of the command
+ */
+async function deepenToMergeBase({
+  repoBaseDir,
+  gitlabTargetBranch,
+  gitlabSourceBranch,
+  retryOptions,
+  context: { createGit, logger, signal },
+}: { repoBaseDir: string } & Pick<
+  UpsertBranchOptions,
+  'gitlabTargetBranch' | 'gitlabSourceBranch' | 'retryOptions' | 'context'
+>) {
+  const git = createGit({
+    baseDir: repoBaseDir,
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    // `git merge-base` exits without an error output, if there is no merge base
+    const mergeBase = await git
+      .raw([
+        'merge-base',
+        `origin/${gitlabTargetBranch}`,
+        `origin/${gitlabSourceBranch}`,
+      ])
+      .then((output) => output.trim())
+      .catch(() => '');
+
+    if (mergeBase) return;
+
+    // the histories are unrelated, if the merge base is not found in the full history
+    const isShallow = await git
+      .revparse(['--is-shallow-repository'])
+      .then((output) => output.trim() === 'true')
+      .catch(() => false);
+
+    if (!isShallow) return;
+
+    const isLastAttempt = attempt === fastCloneMaxDeepenAttempts;
+    const deepenOptions = isLastAttempt
+      ? ['--unshallow']
+      : [`--deepen=${fastCloneFetchDepth * 2 ** attempt}`];
+
+    logger.info(
+      `🔍 Merge base of "${gitlabSourceBranch}" and "${gitlabTargetBranch}" is not fetched yet, ${
+        isLastAttempt ? 'fetching the full history' : 'deepening the history'
+      }`
+    );
+
+    await withRetry(
+      () =>
+        git.fetch([
+          ...deepenOptions,
+          'origin',
+          gitlabTargetBranch,
+          gitlabSourceBranch,
+        ]),
+      { operationName: 'git fetch', retryOptions, logger, signal }
+    ).catch((error) => {
+      throw new GitCommandError(
+        `Failed to fetch the history of the branches "${gitlabTargetBranch}" and "${gitlabSourceBranch}"`,
+        { cause: error }
+      );
+    });
+  }
 }
 
 /**
@@ -221,6 +921,8 @@ async function checkoutGitlabSourceBranch(
  * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
  * @param gitlabSourceBranch Source branch name in GitLab to create the MR from
  * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory and logger of the command
  */
 async function validateIsSubmoduleSyncBranch({
   repoBaseDir,
@@ -228,20 +930,32 @@ async function validateIsSubmoduleSyncBranch({
   githubRepositoryBranch,
   gitlabSourceBranch,
   commitMessageSalt,
+  retryOptions,
+  context: { createGit, logger, signal },
 }: {
   repoBaseDir: string;
   commitMessageSalt: string;
 } & Pick<
   UpsertBranchOptions,
-  'gitlabTargetBranch' | 'githubRepositoryBranch' | 'gitlabSourceBranch'
+  | 'gitlabTargetBranch'
+  | 'githubRepositoryBranch'
+  | 'gitlabSourceBranch'
+  | 'retryOptions'
+  | 'context'
 >): Promise<void> {
-  const git = simpleGit({
+  const git = createGit({
     baseDir: repoBaseDir,
   });
 
-  await git.fetch('origin', gitlabTargetBranch).catch(() => {
-    throw new Error(
-      `✖︎ Failed to fetch ${gitlabTargetBranch} branch from origin`
+  await withRetry(() => git.fetch('origin', gitlabTargetBranch), {
+    operationName: 'git fetch',
+    retryOptions,
+    logger,
+    signal,
+  }).catch((error) => {
+    throw new GitCommandError(
+      `Failed to fetch ${gitlabTargetBranch} branch from origin`,
+      { cause: error }
     );
   });
 
@@ -251,36 +965,173 @@ async function validateIsSubmoduleSyncBranch({
       to: gitlabSourceBranch,
       symmetric: false,
     })
-    .catch(() => {
-      // suppress Git errors as they could contain sensitive data
-      throw new Error('✖︎ Failed to get log from Git');
+    .catch((error) => {
+      throw new GitCommandError('Failed to get log from Git', { cause: error });
     });
 
   for (const logItem of log.all) {
     const logComment = typeof logItem === 'string' ? logItem : logItem.message;
 
-    if (typeof logComment !== 'string') throw new Error('Invalid log comment');
+    if (typeof logComment !== 'string')
+      throw new GitCommandError('Invalid log comment');
 
-    const hasAutoSyncCommitMessageSalt = new RegExp(
-      `\\b${commitMessageSalt}\\b`,
-      'g'
-    ).test(logComment);
+    if (hasCommitMessageSalt(logComment, commitMessageSalt)) continue;
 
-    if (hasAutoSyncCommitMessageSalt) continue;
+    logger.error(
+      [
+        `✖︎ Branch from origin related to the GitHub repository branch "${githubRepositoryBranch} has commits without '${commitMessageSalt}' in the commit message`,
+        `Therefore, the script cannot proceed with the sync process.`,
+        `🤔 The way to resolve this issue are:`,
+        `Delete the origin branch related to the GitHub repository branch "${githubRepositoryBranch}" and run the Job again.`,
+      ].join('\n')
+    );
 
-    console.error(
-      chalk.red(
-        [
-          `✖︎ Branch from origin related to the GitHub repository branch "${githubRepositoryBranch} has commits without '${commitMessageSalt}' in the commit message`,
-          `Therefore, the script cannot proceed with the sync process.`,
-          `🤔 The way to resolve this issue are:`,
-          `Delete the origin branch related to the GitHub repository branch "${githubRepositoryBranch}" and run the Job again.`,
-        ].join('\n')
-      )
+    throw new ManualCommitsError(
+      `Branch from origin related to the GitHub repository branch "${githubRepositoryBranch} has commits without '${commitMessageSalt}' in the commit message`,
+      gitlabSourceBranch
     );
+  }
+}
+
+/** Commit of the source branch created by people, not by the submodule sync */
+interface ManualCommit {
+  sha: string;
+  subject: string;
+}
 
-    throw new Error(
-      `Branch from origin related to the GitHub repository branch "${githubRepositoryBranch} has commits without '${commitMessageSalt}' in the commit message`
+/**
+ * Lists the commits of the source branch without the salt in the commit message, the oldest first
+ *
+ * @param repoBaseDir Base directory of the Git repository
+ * @param gitlabTargetBranch Target branch name in GitLab to merge the MR into
+ * @param gitlabSourceBranch Source branch name in GitLab to create the MR from
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory and logger of the command
+ */
+async function getManualCommits({
+  repoBaseDir,
+  gitlabTargetBranch,
+  gitlabSourceBranch,
+  commitMessageSalt,
+  retryOptions,
+  context: { createGit, logger, signal },
+}: {
+  repoBaseDir: string;
+  commitMessageSalt: string;
+} & Pick<
+  UpsertBranchOptions,
+  'gitlabTargetBranch' | 'gitlabSourceBranch' | 'retryOptions' | 'context'
+>): Promise<ManualCommit[]> {
+  const git = createGit({
+    baseDir: repoBaseDir,
+  });
+
+  await withRetry(() => git.fetch('origin', gitlabTargetBranch), {
+    operationName: 'git fetch',
+    retryOptions,
+    logger,
+    signal,
+  }).catch((error) => {
+    throw new GitCommandError(
+      `Failed to fetch ${gitlabTargetBranch} branch from origin`,
+      { cause: error }
+    );
+  });
+
+  // merge commits are not rebased, as `git rebase` drops them too
+  const output = await git
+    .raw([
+      'log',
+      '--reverse',
+      '--no-merges',
+      '--format=%H%x00%s',
+      `origin/${gitlabTargetBranch}..${gitlabSourceBranch}`,
+    ])
+    .catch((error) => {
+      throw new GitCommandError('Failed to get log from Git', { cause: error });
+    });
+
+  const manualCommits = output
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [sha, subject] = line.split('\0');
+      return { sha, subject };
+    })
+    .filter(({ subject }) => !hasCommitMessageSalt(subject, commitMessageSalt));
+
+  if (manualCommits.length) {
+    logger.info(
+      `☑︎ Keeping ${manualCommits.length} commits created by people: ${manualCommits
+        .map(({ sha, subject }) => `${sha.slice(0, 8)} "${subject}"`)
+        .join(', ')}`
+    );
+  }
+
+  return manualCommits;
+}
+
+/**
+ * Replays the commits created by people on top of the submodule sync commit.
+ * The rebase is aborted on the first conflict, so the branch in GitLab is left untouched
+ *
+ * @param repoBaseDir Base directory of the Git repository
+ * @param manualCommits Commits created by people, the oldest first
+ * @param gitlabTargetBranch Target branch name in GitLab the commits are rebased onto
+ * @param context Git factory and logger of the command
+ */
+async function rebaseGitlabRepoManualCommits({
+  repoBaseDir,
+  manualCommits,
+  gitlabTargetBranch,
+  context: { createGit, logger },
+}: {
+  repoBaseDir: string;
+  manualCommits: ManualCommit[];
+} & Pick<UpsertBranchOptions, 'gitlabTargetBranch' | 'context'>) {
+  const git = createGit({
+    baseDir: repoBaseDir,
+  });
+
+  for (const { sha, subject } of manualCommits) {
+    logger.info(
+      `⏳︎ Rebasing commit ${sha.slice(0, 8)} "${subject}" onto "${gitlabTargetBranch}"`
+    );
+
+    const isPicked = await git
+      .raw(['cherry-pick', '--allow-empty', '--keep-redundant-commits', sha])
+      .then(() => true)
+      .catch(() => false);
+
+    if (isPicked) continue;
+
+    const conflictedFiles = await git
+      .raw(['diff', '--name-only', '--diff-filter=U'])
+      .then((output) => output.split('\n').filter(Boolean))
+      .catch(() => []);
+
+    await git.raw(['cherry-pick', '--abort']).catch((error) => {
+      throw new GitCommandError('Failed to abort cherry-pick', {
+        cause: error,
+      });
+    });
+
+    logger.error(
+      [
+        `✖︎ Commit ${sha.slice(0, 8)} "${subject}" conflicts with the branch "${gitlabTargetBranch}"${
+          conflictedFiles.length ? ` in ${conflictedFiles.join(', ')}` : ''
+        }`,
+        `The branch in GitLab is left untouched.`,
+        `🤔 The way to resolve this issue is:`,
+        `Rebase the branch onto "${gitlabTargetBranch}" manually, resolve the conflicts and run the Job again.`,
+      ].join('\n')
+    );
+
+    throw new RebaseConflictError(
+      `Commit ${sha.slice(0, 8)} "${subject}" conflicts with the branch "${gitlabTargetBranch}"`,
+      sha,
+      conflictedFiles
     );
   }
 }
@@ -292,33 +1143,35 @@ async function validateIsSubmoduleSyncBranch({
  * @param repoBaseDir
  * @param gitlabTargetBranch
  * @param githubRepositoryBranch
+ * @param context Git factory and logger of the command
  */
 async function resetGitlabRepoBranch({
   repoBaseDir,
   gitlabTargetBranch,
   githubRepositoryBranch,
+  context: { createGit, logger },
 }: {
   repoBaseDir: string;
   commitMessageSalt: string;
 } & Pick<
   UpsertBranchOptions,
-  'gitlabTargetBranch' | 'githubRepositoryBranch' | 'gitlabSourceBranch'
+  | 'gitlabTargetBranch'
+  | 'githubRepositoryBranch'
+  | 'gitlabSourceBranch'
+  | 'context'
 >) {
-  const git = simpleGit({
+  const git = createGit({
     baseDir: repoBaseDir,
   });
 
-  console.log(
-    chalk.grey(
-      `‼️ Resetting branch related to the GitHub repository branch "${githubRepositoryBranch}" to the state of the branch "${gitlabTargetBranch}"`
-    )
+  logger.info(
+    `‼️ Resetting branch related to the GitHub repository branch "${githubRepositoryBranch}" to the state of the branch "${gitlabTargetBranch}"`
   );
 
   await git
     .reset(['--hard', '--quiet', `origin/${gitlabTargetBranch}`])
-    .catch(() => {
-      // suppress Git errors as they could contain sensitive data
-      throw new Error('✖︎ Failed to reset hard');
+    .catch((error) => {
+      throw new GitCommandError('Failed to reset hard', { cause: error });
     });
 }
 
@@ -327,14 +1180,16 @@ async function resetGitlabRepoBranch({
  *
  * @param repoBaseDir Base directory of the Git repository
  * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param context Git factory of the command
  */
 async function getSubmodulePath({
   repoBaseDir,
   githubProjectSubmoduleName,
+  context: { createGit },
 }: {
   repoBaseDir: string;
-} & Pick<UpsertBranchOptions, 'githubProjectSubmoduleName'>) {
-  const git = simpleGit({
+} & Pick<UpsertBranchOptions, 'githubProjectSubmoduleName' | 'context'>) {
+  const git = createGit({
     baseDir: repoBaseDir,
   });
 
@@ -344,14 +1199,18 @@ async function getSubmodulePath({
       '--file=.gitmodules',
       `submodule.${githubProjectSubmoduleName}.path`,
     ])
-    .catch(() => {
-      // suppress Git errors as they could contain sensitive data
-      throw new Error('✖︎ Failed to get submodule path');
+    .catch((error) => {
+      throw new GitCommandError('Failed to get submodule path', {
+        cause: error,
+      });
     })
     .then((res) => res.trim());
 
   if (!submodulePath) {
-    throw new Error('✖︎ Submodule path not found');
+    throw new SubmoduleNotFoundError(
+      'Submodule path not found',
+      githubProjectSubmoduleName
+    );
   }
 
   return submodulePath;
@@ -362,23 +1221,32 @@ async function getSubmodulePath({
  *
  * @param baseDir Base directory of the Git repository
  * @param branch Branch name in the submodule
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory and logger of the command
  */
 async function getRepoBranchHeadSHA({
   baseDir,
   branch,
+  retryOptions,
+  context: { createGit, logger, signal },
 }: {
   baseDir: string;
   branch: string;
-}) {
-  console.log(chalk.grey('🔍 Submodule SHA is not set, fetching from remote'));
-
-  const git = simpleGit({ baseDir });
-
-  return git
-    .listRemote(['--heads', branch])
-    .catch(() => {
-      // suppress Git errors as they could contain sensitive data
-      throw new Error('✖︎ Failed to list submodule remote');
+} & Pick<UpsertBranchOptions, 'retryOptions' | 'context'>) {
+  logger.info('🔍 Submodule SHA is not set, fetching from remote');
+
+  const git = createGit({ baseDir });
+
+  return withRetry(() => git.listRemote(['--heads', 'origin', branch]), {
+    operationName: 'git ls-remote',
+    retryOptions,
+    logger,
+    signal,
+  })
+    .catch((error) => {
+      throw new GitCommandError('Failed to list submodule remote', {
+        cause: error,
+      });
     })
     .then(
       /**
@@ -398,165 +1266,604 @@ async function getRepoBranchHeadSHA({
  * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
  * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
  * @param githubRepositorySHA SHA of the last branch commit to be used in the submodule update task
+ * @param sourceBranchSHA SHA of the existing sync branch, its submodule SHA commit is kept if the requested one is its ancestor
+ * @param allowRewind Move the submodule to the requested SHA commit, even if it's an ancestor of the sync branch one
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param cacheDir Directory of the mirrors kept between the runs, the submodule clone borrows the objects of its mirror
+ * @param context Git factory and logger of the command
+ * @returns SHA commit the submodule is checked out to, the SHA commit it pointed to before and the changelog
  */
 async function checkoutSubmoduleBranch({
   repoBaseDir,
   githubProjectSubmoduleName,
   githubRepositoryBranch,
   githubRepositorySHA,
-}: { repoBaseDir: string } & Pick<
+  sourceBranchSHA,
+  allowRewind,
+  retryOptions,
+  cacheDir,
+  context,
+}: {
+  repoBaseDir: string;
+  sourceBranchSHA: string | undefined;
+} & Pick<
   UpsertBranchOptions,
   | 'githubProjectSubmoduleName'
   | 'githubRepositoryBranch'
   | 'githubRepositorySHA'
+  | 'allowRewind'
+  | 'retryOptions'
+  | 'cacheDir'
+  | 'context'
 >) {
+  const { createGit, logger, signal } = context;
+
   const submoduleRelativePath = await getSubmodulePath({
     repoBaseDir,
     githubProjectSubmoduleName,
+    context,
   });
 
   const submoduleBaseDir = path.join(repoBaseDir, submoduleRelativePath);
 
+  const previousGithubRepositorySHA = await createGit({ baseDir: repoBaseDir })
+    .revparse([`HEAD:${submoduleRelativePath}`])
+    .catch(() => undefined);
+
+  const git = createGit({
+    baseDir: repoBaseDir,
+  });
+
+  // only the objects missing in the mirror are fetched from the submodule remote
+  const submoduleMirror = cacheDir
+    ? await refreshMirror({
+        cacheDir,
+        remoteUrl: await getSubmoduleRemoteUrl({
+          repoBaseDir,
+          githubProjectSubmoduleName,
+          context,
+        }),
+        retryOptions,
+        context,
+      })
+    : undefined;
+
+  // the clone copies the borrowed objects, so it doesn't depend on the mirror fetched and pruned by the next jobs
+  const referenceOptions = submoduleMirror
+    ? ['--reference', submoduleMirror.path, '--dissociate']
+    : [];
+
+  logger.info(`🔍 Initializing submodule "${githubProjectSubmoduleName}"`);
+
+  // the pathspec is the submodule path, which may differ from its name
+  await withRetry(
+    () =>
+      git.submoduleUpdate([
+        '--init',
+        ...referenceOptions,
+        '--',
+        submoduleRelativePath,
+      ]),
+    { operationName: 'git submodule update', retryOptions, logger, signal }
+  )
+    .catch((error) => {
+      throw new GitCommandError('Failed to submodule init', { cause: error });
+    })
+    // the mirror is locked only while the clone borrows its objects
+    .finally(() => submoduleMirror?.[Symbol.dispose]());
+
+  // the submodule remote is only available after the init
   const submoduleBranchHeadSHA =
     githubRepositorySHA ||
     (await getRepoBranchHeadSHA({
       baseDir: submoduleBaseDir,
       branch: githubRepositoryBranch,
+      retryOptions,
+      context,
     }));
 
-  console.log(
-    chalk.green(`☑︎ SHA for submodule is ${submoduleBranchHeadSHA}`)
-  );
-
-  const git = simpleGit({
-    baseDir: repoBaseDir,
-  });
+  logger.success(`☑︎ SHA for submodule is ${submoduleBranchHeadSHA}`);
 
-  console.log(
-    chalk.grey(`🔍 Initializing submodule "${githubProjectSubmoduleName}"`)
-  );
-
-  await git
-    .submoduleUpdate(['--init', githubProjectSubmoduleName])
-    .catch(() => {
-      // suppress Git errors as they could contain sensitive data
-      throw new Error('✖︎ Failed to submodule init');
-    });
-
-  const submodule = simpleGit({
+  const submodule = createGit({
     baseDir: submoduleBaseDir,
   });
 
-  console.log(chalk.gray(`🏗️ Updating submodule to ${submoduleBranchHeadSHA}`));
+  logger.info(`🏗️ Updating submodule to ${submoduleBranchHeadSHA}`);
 
-  console.log(
-    chalk.grey(
-      `🔍 Fetching submodule origin branch "${githubRepositoryBranch}"`
-    )
+  logger.info(
+    `🔍 Fetching submodule origin branch "${githubRepositoryBranch}"`
   );
 
-  await submodule.fetch('origin', githubRepositoryBranch).catch(() => {
-    // suppress Git errors as they could contain sensitive data
-    throw new Error(
-      `✖︎ Failed to fetch submodule origin branch "${githubRepositoryBranch}"`
+  await withRetry(() => submodule.fetch('origin', githubRepositoryBranch), {
+    operationName: 'git fetch',
+    retryOptions,
+    logger,
+    signal,
+  }).catch((error) => {
+    throw new GitCommandError(
+      `Failed to fetch submodule origin branch "${githubRepositoryBranch}"`,
+      { cause: error }
     );
   });
 
-  console.log(
-    chalk.grey(`⏳︎ Checking out submodule branch "${githubRepositoryBranch}"`)
-  );
+  // the submodule history is fetched, so the stale SHA commit is found in the clone
+  const { sha: submoduleSHA, staleSHA } = await skipStaleSubmoduleSHA({
+    githubProjectSubmoduleName,
+    sha: submoduleBranchHeadSHA,
+    syncBranchSHA: await getGitlinkSHA({
+      repoBaseDir,
+      revision: sourceBranchSHA,
+      submoduleRelativePath,
+      context,
+    }),
+    allowRewind,
+    getChangelog: (previousSHA, sha) =>
+      getSubmoduleChangelog({
+        git: submodule,
+        previousSHA,
+        sha,
+        remoteUrl: undefined,
+        retryOptions,
+        context,
+      }),
+    logger,
+  });
+
+  logger.info(`⏳︎ Checking out submodule branch "${githubRepositoryBranch}"`);
 
   await submodule
     .checkoutBranch(githubRepositoryBranch, `origin/${githubRepositoryBranch}`)
-    .catch(() => {
-      // suppress Git errors as they could contain sensitive data
-      throw new Error(
-        `✖︎ Failed to checkout submodule branch "${githubRepositoryBranch}"`
+    .catch((error) => {
+      throw new GitCommandError(
+        `Failed to checkout submodule branch "${githubRepositoryBranch}"`,
+        { cause: error }
       );
     });
 
-  console.log(
-    chalk.grey(`⏳︎ Checking out submodule SHA "${submoduleBranchHeadSHA}"`)
-  );
+  logger.info(`⏳︎ Checking out submodule SHA "${submoduleSHA}"`);
 
-  await submodule.checkout(submoduleBranchHeadSHA).catch(() => {
-    // suppress Git errors as they could contain sensitive data
-    throw new Error(
-      `✖︎ Failed to checkout submodule SHA "${submoduleBranchHeadSHA}"`
+  await submodule.checkout(submoduleSHA).catch((error) => {
+    throw new GitCommandError(
+      `Failed to checkout submodule SHA "${submoduleSHA}"`,
+      { cause: error }
     );
   });
 
-  console.log(
-    chalk.grey(
-      `⏳︎ Validating submodule branch "${githubRepositoryBranch}" HEAD is "${submoduleBranchHeadSHA}"`
-    )
+  logger.info(
+    `⏳︎ Validating submodule branch "${githubRepositoryBranch}" HEAD is "${submoduleSHA}"`
   );
 
-  const branchHeadSHA = await submodule.revparse('HEAD').catch(() => {
-    // suppress Git errors as they could contain sensitive data
-    throw new Error(
-      `✖︎ Failed to validate submodule branch "${githubRepositoryBranch}" HEAD is "${submoduleBranchHeadSHA}"`
+  const branchHeadSHA = await submodule.revparse('HEAD').catch((error) => {
+    throw new GitCommandError(
+      `Failed to validate submodule branch "${githubRepositoryBranch}" HEAD is "${submoduleSHA}"`,
+      { cause: error }
     );
   });
 
-  if (branchHeadSHA !== submoduleBranchHeadSHA) {
-    throw new Error(
-      `✖︎ Failed to checkout submodule branch "${githubRepositoryBranch}", submodule current HEAD is "${branchHeadSHA}" instead of "${submoduleBranchHeadSHA}"`
+  if (branchHeadSHA !== submoduleSHA) {
+    throw new GitCommandError(
+      `Failed to checkout submodule branch "${githubRepositoryBranch}", submodule current HEAD is "${branchHeadSHA}" instead of "${submoduleSHA}"`
     );
   }
+
+  // the URL from `.gitmodules`, as the origin of the relative URL contains the GitLab token
+  const submoduleUrl = await createGit({ baseDir: repoBaseDir })
+    .raw([
+      'config',
+      '--file=.gitmodules',
+      `submodule.${githubProjectSubmoduleName}.url`,
+    ])
+    .then((output) => output.trim())
+    .catch(() => undefined);
+
+  const changelog = await getSubmoduleChangelog({
+    git: submodule,
+    previousSHA: previousGithubRepositorySHA,
+    sha: submoduleSHA,
+    remoteUrl: submoduleUrl,
+    retryOptions,
+    context,
+  });
+
+  return {
+    githubRepositorySHA: submoduleSHA,
+    previousGithubRepositorySHA,
+    changelog,
+    ...(staleSHA && { staleGithubRepositorySHA: staleSHA }),
+  };
 }
 
 /**
- * Commits the changes in the GitLab repository related to the GitHub repository branch
+ * Stages the submodule SHA commit without checking out the submodule, for the `fast` clone mode.
+ * Only the SHA commit with its recent history is fetched from the submodule remote without the trees and blobs,
+ * it's checked to exist, and reused for the stale check and the changelog
  *
- * @param repoBaseDir Base directory of the Git repository
+ * @param repoBaseDir Base directory of the Git repository with the sparse checkout
  * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
  * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
- * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @param githubRepositorySHA SHA of the last branch commit to be used in the submodule update task
+ * @param sourceBranchSHA SHA of the existing sync branch, its submodule SHA commit is kept if the requested one is its ancestor
+ * @param allowRewind Move the submodule to the requested SHA commit, even if it's an ancestor of the sync branch one
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory and logger of the command
+ * @returns SHA commit the submodule is updated to, the SHA commit it pointed to before and the changelog
  */
-async function commitGitlabRepoChanges({
+async function stageSubmoduleCommit({
   repoBaseDir,
   githubProjectSubmoduleName,
   githubRepositoryBranch,
-  commitMessageSalt,
+  githubRepositorySHA,
+  sourceBranchSHA,
+  allowRewind,
+  retryOptions,
+  context,
 }: {
   repoBaseDir: string;
-  commitMessageSalt: string;
+  sourceBranchSHA: string | undefined;
 } & Pick<
   UpsertBranchOptions,
-  'githubProjectSubmoduleName' | 'githubRepositoryBranch'
+  | 'githubProjectSubmoduleName'
+  | 'githubRepositoryBranch'
+  | 'githubRepositorySHA'
+  | 'allowRewind'
+  | 'retryOptions'
+  | 'context'
 >) {
-  const git = simpleGit({
+  const { createGit, logger } = context;
+
+  const git = createGit({
     baseDir: repoBaseDir,
   });
 
-  console.log(
-    chalk.grey(
-      `📦 Committing submodule "${githubProjectSubmoduleName}" to branch related to the GitHub repository branch "${githubRepositoryBranch}"`
-    )
-  );
+  const submoduleRelativePath = await getSubmodulePath({
+    repoBaseDir,
+    githubProjectSubmoduleName,
+    context,
+  });
 
-  const submodulePath = await getSubmodulePath({
+  const previousGithubRepositorySHA = await git
+    .revparse([`HEAD:${submoduleRelativePath}`])
+    .catch(() => undefined);
+
+  const submoduleUrl = await getSubmoduleRemoteUrl({
     repoBaseDir,
     githubProjectSubmoduleName,
+    context,
   });
 
-  await git.add(submodulePath).catch(() => {
-    // suppress Git errors as they could contain sensitive data
-    throw new Error(
-      `✖︎ Failed to add submodule "${githubProjectSubmoduleName}"`
+  const submoduleBranchHeadSHA =
+    githubRepositorySHA ||
+    (await getRemoteBranchHeadSHA({
+      context,
+      remoteUrl: submoduleUrl,
+      branch: githubRepositoryBranch,
+      retryOptions,
+    }));
+
+  logger.success(`☑︎ SHA for submodule is ${submoduleBranchHeadSHA}`);
+
+  const syncBranchSubmoduleSHA = await getGitlinkSHA({
+    repoBaseDir,
+    revision: sourceBranchSHA,
+    submoduleRelativePath,
+    context,
+  });
+
+  logger.info(`🔍 Fetching submodule commit "${submoduleBranchHeadSHA}"`);
+
+  // the recent history of the commit is reused by the stale check and the changelog
+  using submoduleHistory = await fetchSubmoduleHistory({
+    remoteUrl: submoduleUrl,
+    sha: submoduleBranchHeadSHA,
+    previousSHAs: [previousGithubRepositorySHA, syncBranchSubmoduleSHA],
+    retryOptions,
+    context,
+  }).catch((error) => {
+    throw new GitCommandError(
+      `Failed to fetch submodule commit "${submoduleBranchHeadSHA}"`,
+      { cause: error }
     );
   });
 
+  /**
+   * Computes the changelog from the fetched submodule history
+   *
+   * @param previousSHA SHA commit the submodule pointed to
+   * @param sha SHA commit the submodule is updated to
+   */
+  const getChangelog = (previousSHA: string | undefined, sha: string) =>
+    getSubmoduleChangelog({
+      git: submoduleHistory.git,
+      previousSHA,
+      sha,
+      remoteUrl: submoduleUrl,
+      retryOptions,
+      context,
+    });
+
+  const { sha: submoduleSHA, staleSHA } = await skipStaleSubmoduleSHA({
+    githubProjectSubmoduleName,
+    sha: submoduleBranchHeadSHA,
+    syncBranchSHA: syncBranchSubmoduleSHA,
+    allowRewind,
+    getChangelog,
+    logger,
+  });
+
+  logger.info(`🏗️ Updating submodule to ${submoduleSHA}`);
+
+  // the submodule is outside of the sparse checkout, so only its gitlink is updated in the index
+  await git
+    .raw([
+      'update-index',
+      '--cacheinfo',
+      `160000,${submoduleSHA},${submoduleRelativePath}`,
+    ])
+    .then(() =>
+      git.raw(['update-index', '--skip-worktree', submoduleRelativePath])
+    )
+    .catch((error) => {
+      throw new GitCommandError(
+        `Failed to stage submodule "${githubProjectSubmoduleName}"`,
+        { cause: error }
+      );
+    });
+
+  const changelog = await getChangelog(
+    previousGithubRepositorySHA,
+    submoduleSHA
+  );
+
+  return {
+    githubRepositorySHA: submoduleSHA,
+    previousGithubRepositorySHA,
+    changelog,
+    ...(staleSHA && { staleGithubRepositorySHA: staleSHA }),
+  };
+}
+
+/**
+ * Keeps the submodule SHA commit of the sync branch, if the requested SHA commit is its ancestor,
+ * e.g. the delayed job of an older GitHub push is run after the job of the newer one
+ *
+ * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param sha Requested SHA commit of the submodule
+ * @param syncBranchSHA SHA commit the submodule points to in the existing sync branch
+ * @param allowRewind Move the submodule to the requested SHA commit anyway, e.g. for a rollback
+ * @param getChangelog Computes the changelog between the SHA commits from the submodule history
+ * @param logger Logger of the command
+ * @returns SHA commit to update the submodule to, and the requested SHA commit if it's skipped as stale
+ */
+async function skipStaleSubmoduleSHA({
+  githubProjectSubmoduleName,
+  sha,
+  syncBranchSHA,
+  allowRewind = false,
+  getChangelog,
+  logger,
+}: {
+  githubProjectSubmoduleName: string;
+  sha: string;
+  syncBranchSHA: string | undefined;
+  allowRewind: boolean | undefined;
+  getChangelog: (
+    previousSHA: string,
+    sha: string
+  ) => Promise<SubmoduleChangelog | undefined>;
+  logger: Logger;
+}): Promise<{ sha: string; staleSHA: string | undefined }> {
+  if (allowRewind || !syncBranchSHA || syncBranchSHA === sha)
+    return { sha, staleSHA: undefined };
+
+  // the sync branch SHA commit is newer, if the requested one is its ancestor
+  const changelog = await getChangelog(sha, syncBranchSHA);
+
+  if (changelog?.kind !== 'fast-forward') return { sha, staleSHA: undefined };
+
+  logger.warn(
+    `⚠︎ Submodule "${githubProjectSubmoduleName}" SHA "${sha}" is an ancestor of "${syncBranchSHA}" in the sync branch, skipping it as stale`
+  );
+
+  return { sha: syncBranchSHA, staleSHA: sha };
+}
+
+/**
+ * Gets the SHA commit the submodule points to in the revision
+ *
+ * @param repoBaseDir Base directory of the Git repository
+ * @param revision Revision of the Git repository, e.g. the sync branch SHA commit
+ * @param submoduleRelativePath Submodule path in the Git repository
+ * @param context Git factory of the command
+ * @returns `undefined` if the revision is not set, or it has no such submodule
+ */
+async function getGitlinkSHA({
+  repoBaseDir,
+  revision,
+  submoduleRelativePath,
+  context: { createGit },
+}: {
+  repoBaseDir: string;
+  revision: string | undefined;
+  submoduleRelativePath: string;
+  context: CommandContext;
+}): Promise<string | undefined> {
+  if (!revision) return undefined;
+
+  return createGit({ baseDir: repoBaseDir })
+    .revparse([`${revision}:${submoduleRelativePath}`])
+    .catch(() => undefined);
+}
+
+/**
+ * Checks whether the sync branch already points all the submodules to the SHA commits of the sync
+ *
+ * @param repoBaseDir Base directory of the Git repository
+ * @param sourceBranchSHA SHA of the existing sync branch
+ * @param syncedSubmodules Submodules with the SHA commits of the sync
+ * @param context Git factory of the command
+ */
+async function isSyncBranchUpToDate({
+  repoBaseDir,
+  sourceBranchSHA,
+  syncedSubmodules,
+  context,
+}: {
+  repoBaseDir: string;
+  sourceBranchSHA: string;
+  syncedSubmodules: SyncedSubmodule[];
+  context: CommandContext;
+}): Promise<boolean> {
+  for (const {
+    githubProjectSubmoduleName,
+    githubRepositorySHA,
+  } of syncedSubmodules) {
+    const submoduleRelativePath = await getSubmodulePath({
+      repoBaseDir,
+      githubProjectSubmoduleName,
+      context,
+    });
+
+    const syncBranchSHA = await getGitlinkSHA({
+      repoBaseDir,
+      revision: sourceBranchSHA,
+      submoduleRelativePath,
+      context,
+    });
+
+    if (syncBranchSHA !== githubRepositorySHA) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Gets the remote URL of the submodule from the `.gitmodules`.
+ * The relative URL is resolved against the GitLab repository URL, the same way as `git submodule` does
+ *
+ * @param repoBaseDir Base directory of the Git repository
+ * @param githubProjectSubmoduleName Submodule name in the GitLab project, e.g. `my-sdk`
+ * @param context Git factory of the command
+ */
+async function getSubmoduleRemoteUrl({
+  repoBaseDir,
+  githubProjectSubmoduleName,
+  context: { createGit },
+}: { repoBaseDir: string } & Pick<
+  UpsertBranchOptions,
+  'githubProjectSubmoduleName' | 'context'
+>): Promise<string> {
+  const git = createGit({ baseDir: repoBaseDir });
+
+  return git
+    .raw([
+      'config',
+      '--file=.gitmodules',
+      `submodule.${githubProjectSubmoduleName}.url`,
+    ])
+    .then(async (output) => {
+      const url = output.trim();
+
+      if (!/^\.\.?\//.test(url)) return url;
+
+      const originUrl = (await git.remote(['get-url', 'origin'])) ?? '';
+      return new URL(url, `${originUrl.trim()}/`).href;
+    })
+    .catch((error) => {
+      throw new GitCommandError('Failed to get submodule URL', {
+        cause: error,
+      });
+    });
+}
+
+/**
+ * Commits the changes in the GitLab repository related to the GitHub repository branch
+ *
+ * @param repoBaseDir Base directory of the Git repository
+ * @param syncedSubmodules Submodules to commit with the SHA commits before and after the update
+ * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
+ * @param gitlabTargetBranch Target branch name in GitLab to merge the MR into
+ * @param githubPullRequestUrl GitHub Pull Request URL, used in the commit message template
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ * @param messageTemplates Templates of the commit message
+ * @param cloneMode In the `fast` mode the submodules are already staged
+ * @param context Git factory and logger of the command
+ */
+async function commitGitlabRepoChanges({
+  repoBaseDir,
+  syncedSubmodules,
+  githubRepositoryBranch,
+  gitlabTargetBranch,
+  githubPullRequestUrl,
+  commitMessageSalt,
+  messageTemplates,
+  cloneMode,
+  context,
+}: {
+  repoBaseDir: string;
+  syncedSubmodules: SyncedSubmodule[];
+  commitMessageSalt: string;
+} & Pick<
+  UpsertBranchOptions,
+  | 'githubRepositoryBranch'
+  | 'gitlabTargetBranch'
+  | 'githubPullRequestUrl'
+  | 'messageTemplates'
+  | 'cloneMode'
+  | 'context'
+>) {
+  const { createGit, logger } = context;
+
+  const git = createGit({
+    baseDir: repoBaseDir,
+  });
+
+  for (const { githubProjectSubmoduleName } of syncedSubmodules) {
+    logger.info(
+      `📦 Committing submodule "${githubProjectSubmoduleName}" to branch related to the GitHub repository branch "${githubRepositoryBranch}"`
+    );
+
+    // the gitlink is already staged, as the submodule is outside of the sparse checkout
+    if (cloneMode === 'fast') continue;
+
+    const submodulePath = await getSubmodulePath({
+      repoBaseDir,
+      githubProjectSubmoduleName,
+      context,
+    });
+
+    await git.add(submodulePath).catch((error) => {
+      throw new GitCommandError(
+        `Failed to add submodule "${githubProjectSubmoduleName}"`,
+        { cause: error }
+      );
+    });
+  }
+
   await git
     .commit(
-      `chore: update '${githubProjectSubmoduleName}' submodule to '${githubRepositoryBranch}' \`${commitMessageSalt}\``,
+      createSubmoduleCommitMessage({
+        submoduleUpdates: syncedSubmodules,
+        commitMessageSalt,
+        template: messageTemplates?.commitMessage,
+        templateValues: createMessageTemplateValues({
+          submodules: syncedSubmodules,
+          githubRepositoryBranch,
+          gitlabTargetBranch,
+          githubPullRequestUrl,
+          jiraKeyPattern: messageTemplates?.jiraKeyPattern,
+        }),
+      }),
       ['--no-verify']
     )
-    .catch(() => {
-      // suppress Git errors as they could contain sensitive data
-      throw new Error(
-        `✖︎ Failed to commit submodule "${githubProjectSubmoduleName}"`
+    .catch((error) => {
+      throw new GitCommandError(
+        `Failed to commit submodules ${syncedSubmodules
+          .map(
+            ({ githubProjectSubmoduleName }) =>
+              `"${githubProjectSubmoduleName}"`
+          )
+          .join(', ')}`,
+        { cause: error }
       );
     });
 }
@@ -567,41 +1874,146 @@ async function commitGitlabRepoChanges({
  * @param repoBaseDir Base directory of the Git repository
  * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
  * @param gitlabSourceBranch Source branch name in GitLab to create the MR from
+ * @param sourceBranchSHA SHA of the origin branch at the fetch, `undefined` if it didn't exist.
+ * The push is rejected with `SourceBranchChangedError`, if the branch was changed since the fetch
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param context Git factory and logger of the command
  */
 async function pushGitlabRepoChanges({
   repoBaseDir,
   githubRepositoryBranch,
   gitlabSourceBranch,
+  sourceBranchSHA,
+  retryOptions,
+  context: { createGit, logger, signal },
 }: {
   repoBaseDir: string;
+  sourceBranchSHA: string | undefined;
 } & Pick<
   UpsertBranchOptions,
-  'githubRepositoryBranch' | 'gitlabSourceBranch'
+  'githubRepositoryBranch' | 'gitlabSourceBranch' | 'retryOptions' | 'context'
 >) {
-  const git = simpleGit({
+  const git = createGit({
     baseDir: repoBaseDir,
   });
 
-  console.log(
-    chalk.grey(
-      `🫸 Pushing changes to branch related to the GitHub repository branch "${githubRepositoryBranch}"`
-    )
+  logger.info(
+    `🫸 Pushing changes to branch related to the GitHub repository branch "${githubRepositoryBranch}"`
   );
 
-  await git
-    .push('origin', gitlabSourceBranch, ['--force', '--no-verify'])
-    .catch(() => {
-      // suppress Git errors as they could contain sensitive data
-      throw new Error(
-        `✖︎ Failed to push to the origin branch related to the GitHub repository branch "${githubRepositoryBranch}"`
+  // the empty lease expects the branch to be missing, as it's not found at the fetch
+  const leaseOption = `--force-with-lease=refs/heads/${gitlabSourceBranch}:${sourceBranchSHA ?? ''}`;
+
+  await withRetry(
+    () => git.push('origin', gitlabSourceBranch, [leaseOption, '--no-verify']),
+    { operationName: 'git push', retryOptions, logger, signal }
+  ).catch((error) => {
+    if (error instanceof Error && /\(stale info\)/.test(error.message)) {
+      throw new SourceBranchChangedError(
+        `Branch related to the GitHub repository branch "${githubRepositoryBranch}" was changed since it was fetched`,
+        gitlabSourceBranch,
+        { cause: error }
       );
-    });
+    }
 
-  console.log(
-    chalk.green(
-      `✔️ Changes pushed to the origin branch related to the GitHub repository branch "${githubRepositoryBranch}"`
-    )
+    throw new GitCommandError(
+      `Failed to push to the origin branch related to the GitHub repository branch "${githubRepositoryBranch}"`,
+      { cause: error }
+    );
+  });
+
+  logger.success(
+    `✔️ Changes pushed to the origin branch related to the GitHub repository branch "${githubRepositoryBranch}"`
+  );
+}
+
+/**
+ * Checks whether the origin branch changed by another job already points the submodules
+ * to the same SHA commits, or to the newer ones of the same submodule branches
+ *
+ * @param repoBaseDir Base directory of the Git repository
+ * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
+ * @param gitlabSourceBranch Source branch name in GitLab to create the MR from
+ * @param syncedSubmodules Submodules with the SHA commits of this sync
+ * @param retryOptions Retry counts and delays of the Git network operations
+ * @param cloneMode In the `fast` mode only the origin branch HEAD is fetched
+ * @param context Git factory and logger of the command
+ */
+async function isSourceBranchSuperseded({
+  repoBaseDir,
+  githubRepositoryBranch,
+  gitlabSourceBranch,
+  syncedSubmodules,
+  retryOptions,
+  cloneMode,
+  context,
+}: {
+  repoBaseDir: string;
+  syncedSubmodules: SyncedSubmodule[];
+} & Pick<
+  UpsertBranchOptions,
+  | 'githubRepositoryBranch'
+  | 'gitlabSourceBranch'
+  | 'retryOptions'
+  | 'cloneMode'
+  | 'context'
+>): Promise<boolean> {
+  const { createGit, logger, signal } = context;
+
+  const git = createGit({
+    baseDir: repoBaseDir,
+  });
+
+  logger.info(
+    `🔍 Fetching branch related to the GitHub repository branch "${githubRepositoryBranch}" changed during the sync`
   );
+
+  const fetchOptions = cloneMode === 'fast' ? ['--depth=1'] : [];
+
+  // the deleted branch is not superseded, the next attempt creates it again
+  const isFetched = await withRetry(
+    () => git.fetch('origin', gitlabSourceBranch, fetchOptions),
+    { operationName: 'git fetch', retryOptions, logger, signal }
+  )
+    .then(() => true)
+    .catch(() => false);
+
+  if (!isFetched) return false;
+
+  for (const {
+    githubProjectSubmoduleName,
+    githubRepositorySHA,
+  } of syncedSubmodules) {
+    const submoduleRelativePath = await getSubmodulePath({
+      repoBaseDir,
+      githubProjectSubmoduleName,
+      context,
+    });
+
+    const originSHA = await git
+      .revparse([`origin/${gitlabSourceBranch}:${submoduleRelativePath}`])
+      .catch(() => undefined);
+
+    if (originSHA === githubRepositorySHA) continue;
+    if (!originSHA) return false;
+
+    // the origin SHA commit is newer, if the SHA commit of this sync is its ancestor
+    const changelog = await getRemoteSubmoduleChangelog({
+      previousSHA: githubRepositorySHA,
+      sha: originSHA,
+      remoteUrl: await getSubmoduleRemoteUrl({
+        repoBaseDir,
+        githubProjectSubmoduleName,
+        context,
+      }),
+      retryOptions,
+      context,
+    });
+
+    if (changelog?.kind !== 'fast-forward') return false;
+  }
+
+  return true;
 }
 
 /**
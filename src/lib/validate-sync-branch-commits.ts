@@ -0,0 +1,56 @@
+import { hasCommitMessageSalt } from './commit-message-salt.js';
+import { ManualCommitsError } from './errors.js';
+import { Logger } from './logger.js';
+import { BaseCommandOptions, GitlabClient } from './types.js';
+
+/**
+ * Validates through the GitLab Commits API that the source branch contains
+ * only commits created by the submodule sync
+ *
+ * @param gitlab GitLab API client
+ * @param logger Logger to print the failure details to
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param gitlabTargetBranch Target branch name in GitLab to merge the MR into
+ * @param githubRepositoryBranch Branch name in the GitHub repository which is used as a submodule
+ * @param gitlabSourceBranch Source branch name in GitLab to create the MR from
+ * @param commitMessageSalt Salt to identify the commits related to the submodule sync
+ */
+export async function validateSyncBranchCommits({
+  gitlab,
+  logger,
+  gitlabProjectId,
+  gitlabTargetBranch,
+  githubRepositoryBranch,
+  gitlabSourceBranch,
+  commitMessageSalt,
+}: {
+  gitlab: GitlabClient;
+  logger: Logger;
+  gitlabSourceBranch: string;
+  commitMessageSalt: string;
+} & Pick<
+  BaseCommandOptions,
+  'gitlabProjectId' | 'gitlabTargetBranch' | 'githubRepositoryBranch'
+>): Promise<void> {
+  const commits = await gitlab.Commits.all(gitlabProjectId, {
+    refName: `${gitlabTargetBranch}..${gitlabSourceBranch}`,
+  });
+
+  const commitWithoutSalt = commits.find(
+    ({ message }) => !hasCommitMessageSalt(message, commitMessageSalt)
+  );
+
+  if (!commitWithoutSalt) return;
+
+  logger.error(
+    [
+      `✖︎ Branch from origin related to the GitHub repository branch "${githubRepositoryBranch}" has commits without '${commitMessageSalt}' in the commit message`,
+      `The commit ${commitWithoutSalt.short_id} "${commitWithoutSalt.title}" was not created by the submodule sync.`,
+    ].join('\n')
+  );
+
+  throw new ManualCommitsError(
+    `Branch from origin related to the GitHub repository branch "${githubRepositoryBranch}" has commits without '${commitMessageSalt}' in the commit message`,
+    gitlabSourceBranch
+  );
+}
@@ -0,0 +1,148 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import type {
+  ExpandedMergeRequestSchema,
+  PipelineSchema,
+} from '@gitbeaker/core';
+import {
+  MergeRequestNotMergedError,
+  MergeWaitTimeoutError,
+  PipelineFailedError,
+} from './errors.js';
+import { Logger } from './logger.js';
+import { BaseCommandOptions, GitlabClient } from './types.js';
+
+/** Pipeline statuses which will not change without a manual action */
+const terminalPipelineStatuses = ['success', 'failed', 'canceled', 'skipped'];
+
+/**
+ * Polls the MR and its head pipeline until the MR is merged.
+ * Throws if the pipeline fails, the MR is closed or not merged within the timeout
+ *
+ * @param gitlab GitLab API client
+ * @param logger Logger of the pipeline status changes
+ * @param signal Signal to stop waiting
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param mergeRequestIid IID of the MR to wait for
+ * @param timeout Maximum time to wait in seconds
+ * @param pollInterval Time between the polls in seconds
+ * @returns Merged MR
+ */
+export async function waitForMergeRequestMerge({
+  gitlab,
+  logger,
+  signal,
+  gitlabProjectId,
+  mergeRequestIid,
+  timeout,
+  pollInterval,
+}: {
+  gitlab: GitlabClient;
+  logger: Logger;
+  signal?: AbortSignal;
+  mergeRequestIid: number;
+  timeout: number;
+  pollInterval: number;
+} & Pick<
+  BaseCommandOptions,
+  'gitlabProjectId'
+>): Promise<ExpandedMergeRequestSchema> {
+  const deadline = Date.now() + timeout * 1000;
+  let lastPipelineStatus: string | undefined;
+
+  while (Date.now() < deadline) {
+    const mr = await gitlab.MergeRequests.show(
+      gitlabProjectId,
+      mergeRequestIid
+    );
+
+    if (mr.state === 'merged') return mr;
+
+    if (mr.state === 'closed' || mr.state === 'locked') {
+      throw new MergeRequestNotMergedError(
+        `Merge request #${mergeRequestIid} is ${mr.state} while waiting for it to be merged`,
+        mergeRequestIid
+      );
+    }
+
+    const pipeline = mr.head_pipeline;
+
+    if (pipeline && pipeline.status !== lastPipelineStatus) {
+      lastPipelineStatus = pipeline.status;
+
+      logger.info(
+        `⏳︎ Pipeline #${pipeline.id} is '${pipeline.status}': ${pipeline.web_url}`
+      );
+    }
+
+    if (pipeline && ['failed', 'canceled'].includes(pipeline.status)) {
+      throw await createPipelineFailedError({
+        gitlab,
+        gitlabProjectId,
+        mergeRequestIid,
+        pipeline,
+      });
+    }
+
+    // the MR is merged asynchronously after the pipeline has succeeded
+    if (
+      pipeline &&
+      terminalPipelineStatuses.includes(pipeline.status) &&
+      !mr.merge_when_pipeline_succeeds
+    ) {
+      throw new MergeRequestNotMergedError(
+        `Merge request #${mergeRequestIid} has not been merged after the pipeline #${pipeline.id} finished with status '${pipeline.status}', merge status is '${mr.detailed_merge_status ?? mr.merge_status}'`,
+        mergeRequestIid
+      );
+    }
+
+    await sleep(
+      Math.min(pollInterval * 1000, deadline - Date.now()),
+      undefined,
+      { signal }
+    );
+  }
+
+  throw new MergeWaitTimeoutError(
+    `Merge request #${mergeRequestIid} has not been merged within ${timeout}s, last pipeline status is '${lastPipelineStatus ?? 'none'}'`,
+    mergeRequestIid
+  );
+}
+
+/**
+ * Creates the error with the failed jobs of the pipeline and links to their logs in the message
+ *
+ * @param gitlab GitLab API client
+ * @param gitlabProjectId GitLab project ID, e.g. `123` or `group/project`
+ * @param mergeRequestIid IID of the MR the pipeline belongs to
+ * @param pipeline Failed or canceled pipeline
+ */
+export async function createPipelineFailedError({
+  gitlab,
+  gitlabProjectId,
+  mergeRequestIid,
+  pipeline,
+}: {
+  gitlab: GitlabClient;
+  mergeRequestIid: number;
+  pipeline: Pick<PipelineSchema, 'id' | 'status' | 'web_url'>;
+} & Pick<BaseCommandOptions, 'gitlabProjectId'>) {
+  const failedJobs = await gitlab.Jobs.all(gitlabProjectId, {
+    pipelineId: pipeline.id,
+    scope: 'failed',
+  });
+
+  const blockingFailedJobs = failedJobs.filter((job) => !job.allow_failure);
+
+  return new PipelineFailedError(
+    [
+      `Merge request #${mergeRequestIid} has not been merged due to pipeline #${pipeline.id} status '${pipeline.status}': ${pipeline.web_url}`,
+      ...blockingFailedJobs.map(
+        (job) =>
+          `  - job '${job.name}' (stage '${job.stage}') failed${job.failure_reason ? ` with '${job.failure_reason}'` : ''}: ${job.web_url}`
+      ),
+    ].join('\n'),
+    mergeRequestIid,
+    pipeline,
+    blockingFailedJobs
+  );
+}
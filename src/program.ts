@@ -1,112 +1,764 @@
-import { GitbeakerRequestError } from '@gitbeaker/requester-utils';
-
 import chalk from 'chalk';
-import { Command, program } from 'commander';
+import { Command, InvalidArgumentError, Option, program } from 'commander';
 import dotenv from 'dotenv';
+import { parseSubmoduleUpdates } from './lib/submodule-updates.js';
+import {
+  GitlabDestination,
+  formatGitlabDestination,
+  parseGitlabDestinations,
+  printGitlabDestinationsSummary,
+  runForEachGitlabDestination,
+} from './lib/gitlab-destinations.js';
+import { parseBooleanEnvVar } from './lib/parse-boolean-env-var.js';
+import {
+  parseList,
+  parseUsernameMapping,
+} from './lib/merge-request-metadata.js';
+import {
+  ProgramOptions,
+  resolveProgramOptions,
+} from './lib/program-options.js';
+import { formatErrorChain } from './lib/errors.js';
+import { addSecret } from './lib/secrets.js';
+import { Logger, consoleLogger } from './lib/logger.js';
+import { gitlabTokenTypes } from './lib/git-credentials.js';
+import { StatusReportFormat, statusReportFormats } from './commands/status.js';
+import {
+  CommandResult,
+  GitlabTokenType,
+  SubmoduleUpdate,
+} from './lib/types.js';
+import {
+  createActionOutputs,
+  printGithubErrorAnnotation,
+  serializeGitlabDestinationResults,
+  writeGithubOutputs,
+} from './lib/action-outputs.js';
 
 dotenv.config({ path: '.env.local', override: false });
 dotenv.config({ path: '.env', override: false });
 
-if (!process.env.GITLAB_TOKEN) {
-  console.error(chalk.red('`GITLAB_TOKEN` environment variable is required'));
-  console.error(chalk.gray('You can add it to a `.env.local` file'));
-  process.exit(1);
-}
+addSecret(process.env.GITLAB_TOKEN);
 
-if (!process.env.GITLAB_HOST) {
-  console.error(chalk.yellow('`GITLAB_HOST` environment variable is not set'));
-  process.exit(1);
-}
+/**
+ * Creates the command with the options shared by all commands
+ *
+ * @param isBranchRequired Whether the `--branch` is required, it's an optional filter of the `status` and `prune` commands
+ */
+const commandWithOptions = ({ isBranchRequired = true } = {}) =>
+  new Command()
+    .addOption(
+      new Option(
+        '-c, --config <path>',
+        'Path to the config file. If not provided, `.gitlab-submodule-sync.yml` is looked up from the working directory upwards'
+      ).env('GITLAB_SUBMODULE_SYNC_CONFIG')
+    )
+    .addOption(
+      new Option(
+        '--gitlab-host <host>',
+        'GitLab host. Example: `https://gitlab.com`'
+      ).env('GITLAB_HOST')
+    )
+    .addOption(
+      new Option(
+        '--gitlab-token-type <type>',
+        `Type of the \`GITLAB_TOKEN\`: \`personal\`, \`project\` or \`group\` access token, \`oauth\` token or CI \`job\` token. Default: \`personal\``
+      )
+        .argParser((value: string) => {
+          if (!value.trim()) return undefined;
 
-const gitlabToken = process.env.GITLAB_TOKEN;
-const gitlabHost = process.env.GITLAB_HOST;
+          if (!gitlabTokenTypes.includes(value as GitlabTokenType))
+            throw new InvalidArgumentError(
+              `Allowed choices are ${gitlabTokenTypes.join(', ')}.`
+            );
 
-const commandWithOptions = () =>
-  new Command()
-    .requiredOption(
-      '-p, --gitlab-project-id <project-id>',
-      'GitLab Project ID. Example: `123`'
+          return value;
+        })
+        .env('GITLAB_TOKEN_TYPE')
+    )
+    .addOption(
+      new Option(
+        '-p, --gitlab-project-id <project-id>',
+        'GitLab Project ID. Example: `123`'
+      ).env('GITLAB_PROJECT_ID')
+    )
+    .addOption(
+      new Option(
+        '-b, --branch <branch>',
+        isBranchRequired
+          ? 'Branch name, used to create a branch in GitLab'
+          : 'GitHub branch name, only its sync branch is checked if provided'
+      ).makeOptionMandatory(isBranchRequired)
+    )
+    .addOption(
+      new Option(
+        '--gitlab-target-branch <branch-name>',
+        'Target branch name in GitLab to merge the MR'
+      ).env('GITLAB_TARGET_BRANCH')
+    )
+    .addOption(
+      new Option(
+        '-m, --submodule-name <submodule-name>',
+        'Branch name, used to create a branch in GitLab'
+      ).env('GITLAB_SUBMODULE_NAME')
+    )
+    .addOption(
+      new Option(
+        '--github-pr-url <url>',
+        'GitHub Pull Request URL, used in the GitLab MR description'
+      ).env('GITHUB_PR_URL')
+    )
+    .addOption(
+      new Option(
+        '--retries <count>',
+        'Maximum number of retries of the GitLab API requests and Git network operations failed with transient errors. Default: `3`'
+      )
+        .argParser(createNumberOptionParser({ min: 0, isInteger: true }))
+        .env('GITLAB_RETRIES')
+    )
+    .addOption(
+      new Option(
+        '--retry-delay <seconds>',
+        'Delay before the first retry, doubled on every next retry. Default: `1`'
+      )
+        .argParser(createNumberOptionParser({ min: 0, isInteger: false }))
+        .env('GITLAB_RETRY_DELAY')
+    )
+    .addOption(
+      new Option(
+        '--retry-max-delay <seconds>',
+        'Maximum delay between the retries. The request fails, if GitLab asks to retry later with `Retry-After`. Default: `30`'
+      )
+        .argParser(createNumberOptionParser({ min: 0, isInteger: false }))
+        .env('GITLAB_RETRY_MAX_DELAY')
     )
-    .requiredOption(
-      '-b, --branch <branch>',
-      'Branch name, used to create a branch in GitLab'
+    .option(
+      '--json',
+      'Print the result as a JSON document to stdout, the logs are printed to stderr'
+    );
+
+const additionalSubmodulesOption = () =>
+  new Option(
+    '--submodule <submodule:branch[:sha]>',
+    'Additional submodule to update in the same branch and MR, can be repeated or separated by commas. Example: `my-ui:feature/test-01:cc80816`'
+  )
+    .argParser(
+      (value: string, previous: SubmoduleUpdate[] | undefined = []) => {
+        try {
+          return [...previous, ...parseSubmoduleUpdates(value)];
+        } catch (error) {
+          throw new InvalidArgumentError(
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      }
+    )
+    .env('GITLAB_ADDITIONAL_SUBMODULES');
+
+/**
+ * Creates the parser of the number option, blank values, e.g. from the empty Action inputs, are ignored
+ *
+ * @param min Minimum allowed value
+ * @param isInteger Whether only integers are allowed
+ */
+function createNumberOptionParser({
+  min,
+  isInteger,
+}: {
+  min: number;
+  isInteger: boolean;
+}) {
+  return (value: string) => {
+    if (!value.trim()) return undefined;
+
+    const number = Number(value);
+
+    if (
+      !Number.isFinite(number) ||
+      number < min ||
+      (isInteger && !Number.isInteger(number))
     )
+      throw new InvalidArgumentError(
+        `Must be ${isInteger ? 'an integer' : 'a number'} greater than or equal to ${min}.`
+      );
+
+    return number;
+  };
+}
+
+const parsePositiveIntegerOption = createNumberOptionParser({
+  min: 1,
+  isInteger: true,
+});
 
-    .requiredOption(
-      '--gitlab-target-branch <branch-name>',
-      'Target branch name in GitLab to merge the MR'
+const dryRunOption = () =>
+  new Option(
+    '--dry-run [boolean]',
+    'Validate and print the planned changes without pushing branches or touching MRs. Default: `false`'
+  )
+    .preset('true')
+    .argParser(parseBooleanEnvVar)
+    .env('GITLAB_DRY_RUN');
+
+const jiraKeyPatternOption = () =>
+  new Option(
+    '--jira-key-pattern <regex>',
+    'Regular expression to take the `{{jiraKey}}` template placeholder from the --branch, its first capturing group is used if present. Default: `[A-Z][A-Z0-9_]+-\\d+`'
+  ).env('GITLAB_JIRA_KEY_PATTERN');
+
+const commandWithDestinationsOptions = ({ isBranchRequired = true } = {}) =>
+  commandWithOptions({ isBranchRequired })
+    .addOption(
+      new Option(
+        '--destination <project-id:target-branch[:submodule-name]>',
+        'Additional GitLab project to sync the branch into, can be repeated or separated by commas. The --submodule-name is used if omitted. Example: `my-team/my-web:develop`'
+      )
+        .argParser(
+          (
+            value: string,
+            previous: ReturnType<typeof parseGitlabDestinations> = []
+          ) => {
+            try {
+              return [...previous, ...parseGitlabDestinations(value)];
+            } catch (error) {
+              throw new InvalidArgumentError(
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+          }
+        )
+        .env('GITLAB_ADDITIONAL_DESTINATIONS')
     )
-    .requiredOption(
-      '-m, --submodule-name <submodule-name>',
-      'Branch name, used to create a branch in GitLab'
+    .addOption(
+      new Option(
+        '--concurrency <number>',
+        'Maximum number of GitLab destinations processed at the same time'
+      )
+        .argParser(parsePositiveIntegerOption)
+        .default(2)
+        .env('GITLAB_DESTINATIONS_CONCURRENCY')
     );
 
 program
   .addCommand(
-    commandWithOptions()
+    commandWithDestinationsOptions()
       .name('sync-branch')
 
       .option(
         '-s --sha <sha>',
         'SHA of the commit to be used in the submodule update job. If not provided, the latest commit in the --branch will be used.'
       )
-      .action(async (args) => {
+      .addOption(
+        new Option(
+          '--strategy <strategy>',
+          'Strategy to update the submodule: `api` uses GitLab API without cloning, `git` clones the GitLab repository, `rebase` clones it and keeps the commits pushed by people to the MR branch'
+        )
+          .argParser((value: string) => {
+            if (!value.trim()) return undefined;
+
+            if (value !== 'api' && value !== 'git' && value !== 'rebase')
+              throw new InvalidArgumentError(
+                'Allowed choices are api, git, rebase.'
+              );
+
+            return value;
+          })
+          .default('git')
+          .env('GITLAB_SYNC_STRATEGY')
+      )
+      .addOption(
+        new Option(
+          '--clone-mode <mode>',
+          'Clone mode of the `git` and `rebase` strategies: `full` clones the whole repository, `fast` clones without the blobs and the full history, and checks out only the `.gitmodules`. Default: `full`'
+        )
+          .argParser((value: string) => {
+            if (!value.trim()) return undefined;
+
+            if (value !== 'full' && value !== 'fast')
+              throw new InvalidArgumentError('Allowed choices are full, fast.');
+
+            return value;
+          })
+          .env('GITLAB_CLONE_MODE')
+      )
+      .addOption(
+        new Option(
+          '--cache-dir <path>',
+          'Directory of the Git mirrors kept between the runs of the `git` and `rebase` strategies. Every run checks out a worktree of the refreshed mirror, the concurrent runs wait for each other. Default: a temporary clone'
+        ).env('GITLAB_CACHE_DIR')
+      )
+      .addOption(
+        new Option(
+          '--allow-rewind [boolean]',
+          'Move the submodules of the `git` and `rebase` strategies to the --sha, even if the MR branch points to its descendant, e.g. for a rollback. Otherwise the older SHA commit is skipped as stale. Default: `false`'
+        )
+          .preset('true')
+          .argParser(parseBooleanEnvVar)
+          .env('GITLAB_ALLOW_REWIND')
+      )
+      .addOption(
+        new Option(
+          '--committer-name <name>',
+          'Git name of the submodule update commit of the `git` and `rebase` strategies. Default: the GitLab token username'
+        ).env('GITLAB_COMMITTER_NAME')
+      )
+      .addOption(
+        new Option(
+          '--committer-email <email>',
+          'Git email of the submodule update commit of the `git` and `rebase` strategies. Default: the GitLab token user email'
+        ).env('GITLAB_COMMITTER_EMAIL')
+      )
+      .addOption(
+        new Option(
+          '--signing-key <key>',
+          'ASCII-armored GPG private key or OpenSSH private key to sign the commits of the `git` and `rebase` strategies, imported into an isolated keyring for the sync. Prefer the environment variable, as the arguments are visible to other processes'
+        ).env('GITLAB_SIGNING_KEY')
+      )
+      .addOption(
+        new Option(
+          '--signing-key-passphrase <passphrase>',
+          'Passphrase of the --signing-key, if it is protected'
+        ).env('GITLAB_SIGNING_KEY_PASSPHRASE')
+      )
+      .addOption(additionalSubmodulesOption())
+      .addOption(
+        new Option(
+          '--mr-title-template <template>',
+          'Template of the MR title. Example: `feat({{jiraKey}}): update {{submodule}} to {{shortSha}}`'
+        ).env('GITLAB_MR_TITLE_TEMPLATE')
+      )
+      .addOption(
+        new Option(
+          '--mr-description-template <template>',
+          'Template of the MR description. Example: `Updates {{submodule}} from {{shortOldSha}} to {{shortSha}}, see {{prUrl}}`'
+        ).env('GITLAB_MR_DESCRIPTION_TEMPLATE')
+      )
+      .addOption(
+        new Option(
+          '--commit-message-template <template>',
+          'Template of the submodule update commit message, the commit message salt is appended to its first line if missing. Example: `chore({{jiraKey}}): update {{submodule}} to {{shortSha}}`'
+        ).env('GITLAB_COMMIT_MESSAGE_TEMPLATE')
+      )
+      .addOption(jiraKeyPatternOption())
+      .addOption(
+        new Option(
+          '--labels <labels>',
+          'Comma-separated labels added to the MR, the labels added by people are kept on re-sync'
+        )
+          .argParser(parseList)
+          .env('GITLAB_MR_LABELS')
+      )
+      .addOption(
+        new Option(
+          '--assignees <usernames>',
+          'Comma-separated GitLab usernames of the MR assignees'
+        )
+          .argParser(parseList)
+          .env('GITLAB_MR_ASSIGNEES')
+      )
+      .addOption(
+        new Option(
+          '--reviewers <usernames>',
+          'Comma-separated GitLab usernames of the MR reviewers'
+        )
+          .argParser(parseList)
+          .env('GITLAB_MR_REVIEWERS')
+      )
+      .addOption(
+        new Option(
+          '--milestone <title>',
+          'Title of the project or group milestone of the MR'
+        ).env('GITLAB_MR_MILESTONE')
+      )
+      .addOption(
+        new Option(
+          '--draft [boolean]',
+          'Create the MR as a draft, the draft status is kept on re-sync. Default: `false`'
+        )
+          .preset('true')
+          .argParser(parseBooleanEnvVar)
+          .env('GITLAB_MR_DRAFT')
+      )
+      .addOption(
+        new Option(
+          '--squash [boolean]',
+          'Squash the MR commits on merge. The project setting is used if not provided'
+        )
+          .preset('true')
+          .argParser(parseBooleanEnvVar)
+          .env('GITLAB_MR_SQUASH')
+      )
+      .addOption(
+        new Option(
+          '--github-pr-author <username>',
+          'GitHub username of the Pull Request author, assigned to the MR through the --username-mapping'
+        ).env('GITHUB_PR_AUTHOR')
+      )
+      .addOption(
+        new Option(
+          '--username-mapping <github-username:gitlab-username>',
+          'GitLab username of the GitHub user, can be repeated or separated by commas. Example: `octocat:john.doe`'
+        )
+          .argParser(
+            (value: string, previous: Record<string, string> | undefined) => {
+              try {
+                return { ...previous, ...parseUsernameMapping(value) };
+              } catch (error) {
+                throw new InvalidArgumentError(
+                  error instanceof Error ? error.message : String(error)
+                );
+              }
+            }
+          )
+          .env('GITLAB_USERNAME_MAPPING')
+      )
+      .addOption(dryRunOption())
+      .action(async (_args, command: Command) => {
         const { syncBranch } = await import('./commands/sync-branch.js');
 
-        try {
-          await syncBranch({
-            gitlabProjectId: args.gitlabProjectId,
-            gitlabTargetBranch: args.gitlabTargetBranch,
-            githubRepositoryBranch: args.branch,
-            githubRepositorySHA: args.sha,
-            githubProjectSubmoduleName: args.submoduleName,
-            gitlabOptions: {
-              host: gitlabHost,
-              token: gitlabToken,
-            },
-          });
-        } catch (error) {
-          logError(error);
-          process.exit(1);
-        }
+        await runForDestinations(command, (destination, options, logger) =>
+          syncBranch({
+            ...destination,
+            logger,
+            githubRepositoryBranch: options.githubRepositoryBranch,
+            githubRepositorySHA: options.githubRepositorySHA,
+            additionalSubmodules: options.additionalSubmodules,
+            githubPullRequestUrl: options.githubPullRequestUrl,
+            gitlabOptions: options.gitlabOptions,
+            retryOptions: options.retryOptions,
+            messageTemplates: options.messageTemplates,
+            mergeRequestMetadata: options.mergeRequestMetadata,
+            syncStrategy: options.syncStrategy,
+            committer: options.committer,
+            cloneMode: options.cloneMode,
+            cacheDir: options.cacheDir,
+            allowRewind: options.allowRewind,
+            signingKey: options.signingKey,
+            dryRun: options.dryRun,
+          })
+        );
       })
   )
   .addCommand(
-    commandWithOptions()
+    commandWithDestinationsOptions()
       .name('merge-mr')
       .requiredOption(
         '-s --sha <sha>',
         'SHA of the commit to be used in the submodule update job. If not provided, the latest commit in the --branch will be used.'
       )
-      .action(async (args) => {
+      .addOption(additionalSubmodulesOption())
+      .addOption(
+        new Option(
+          '--merge-when-pipeline-succeeds <boolean>',
+          'Merge the MR when the pipeline succeeds. Default: `false`'
+        )
+          .argParser(parseBooleanEnvVar)
+          .env('GITLAB_MERGE_WHEN_PIPELINE_SUCCEEDS')
+      )
+      .addOption(
+        new Option(
+          '--wait [boolean]',
+          'Wait until the MR is merged, the MR is merged when the pipeline succeeds. Fails, if the pipeline fails or the timeout is reached. Default: `false`'
+        )
+          .preset('true')
+          .argParser(parseBooleanEnvVar)
+          .env('GITLAB_MERGE_WAIT')
+      )
+      .addOption(
+        new Option(
+          '--wait-timeout <seconds>',
+          'Maximum time to wait for the MR to be merged. Default: `3600`'
+        )
+          .argParser(parsePositiveIntegerOption)
+          .env('GITLAB_MERGE_WAIT_TIMEOUT')
+      )
+      .addOption(
+        new Option(
+          '--wait-poll-interval <seconds>',
+          'Time between the MR pipeline status polls. Default: `15`'
+        )
+          .argParser(parsePositiveIntegerOption)
+          .env('GITLAB_MERGE_WAIT_POLL_INTERVAL')
+      )
+      .addOption(
+        new Option(
+          '--merge-commit-message-template <template>',
+          'Template of the MR merge commit message. Example: `Merge {{branch}} into {{targetBranch}} ({{jiraKey}})`'
+        ).env('GITLAB_MERGE_COMMIT_MESSAGE_TEMPLATE')
+      )
+      .addOption(jiraKeyPatternOption())
+      .addOption(dryRunOption())
+      .action(async (_args, command: Command) => {
         const { mergeMr } = await import('./commands/merge-mr.js');
 
+        await runForDestinations(command, (destination, options, logger) =>
+          mergeMr({
+            ...destination,
+            logger,
+            githubRepositoryBranch: options.githubRepositoryBranch,
+            githubRepositorySHA: options.githubRepositorySHA,
+            additionalSubmodules: options.additionalSubmodules,
+            githubPullRequestUrl: options.githubPullRequestUrl,
+            gitlabOptions: options.gitlabOptions,
+            retryOptions: options.retryOptions,
+            messageTemplates: options.messageTemplates,
+            mergeWhenPipelineSucceeds: options.mergeWhenPipelineSucceeds,
+            wait: options.wait,
+            waitTimeout: options.waitTimeout,
+            waitPollInterval: options.waitPollInterval,
+            dryRun: options.dryRun,
+          })
+        );
+      })
+  )
+  .addCommand(
+    commandWithDestinationsOptions({ isBranchRequired: false })
+      .name('status')
+      .addOption(
+        new Option('--format <format>', 'Output format of the report')
+          .choices(statusReportFormats)
+          .default('table')
+          .env('GITLAB_STATUS_FORMAT')
+      )
+      .action(async (_args, command: Command) => {
+        const { status, formatStatusReport } = await import(
+          './commands/status.js'
+        );
+
+        const format: StatusReportFormat = command.getOptionValue('json')
+          ? 'json'
+          : command.getOptionValue('format');
+        const consoleLog = console.log;
+
+        // keep stdout for the JSON document only, the table and markdown reports follow the progress messages
+        if (format === 'json') console.log = console.error;
+
+        let options: ProgramOptions;
+
+        try {
+          options = resolveProgramOptions(command);
+        } catch (error) {
+          logError(error);
+          process.exit(1);
+        }
+
+        const results = await runForEachGitlabDestination({
+          destinations: options.destinations,
+          concurrency: options.concurrency,
+          task: (destination, logger) =>
+            status({
+              ...destination,
+              logger,
+              githubRepositoryBranch:
+                options.githubRepositoryBranch || undefined,
+              gitlabOptions: options.gitlabOptions,
+              retryOptions: options.retryOptions,
+            }),
+        });
+
+        for (const result of results) {
+          if (result.status === 'failure')
+            logError(result.error, formatGitlabDestination(result.destination));
+        }
+
+        console.log = consoleLog;
+
+        process.stdout.write(`${formatStatusReport(results, format)}\n`);
+
+        if (results.some((result) => result.status === 'failure'))
+          process.exit(1);
+      })
+  )
+  .addCommand(
+    commandWithDestinationsOptions({ isBranchRequired: false })
+      .name('prune')
+      .addOption(
+        new Option(
+          '--max-age <days>',
+          'Delete the sync branches with the last sync commit older than the number of days. Only the branches of the deleted GitHub branches are deleted if not provided'
+        )
+          .argParser(parsePositiveIntegerOption)
+          .env('GITLAB_PRUNE_MAX_AGE')
+      )
+      .addOption(dryRunOption())
+      .action(async (_args, command: Command) => {
+        const { prune } = await import('./commands/prune.js');
+
+        const isJson = command.getOptionValue('json') === true;
+
+        // keep stdout for the JSON document only
+        if (isJson) console.log = console.error;
+
+        let options: ProgramOptions;
+
         try {
-          await mergeMr({
-            gitlabProjectId: args.gitlabProjectId,
-            gitlabTargetBranch: args.gitlabTargetBranch,
-            githubRepositoryBranch: args.branch,
-            githubRepositorySHA: args.sha,
-            githubProjectSubmoduleName: args.submoduleName,
-            gitlabOptions: {
-              host: gitlabHost,
-              token: gitlabToken,
-            },
-          });
+          options = resolveProgramOptions(command);
         } catch (error) {
           logError(error);
           process.exit(1);
         }
+
+        const results = await runForEachGitlabDestination({
+          destinations: options.destinations,
+          concurrency: options.concurrency,
+          task: (destination, logger) =>
+            prune({
+              ...destination,
+              logger,
+              githubRepositoryBranch:
+                options.githubRepositoryBranch || undefined,
+              gitlabOptions: options.gitlabOptions,
+              retryOptions: options.retryOptions,
+              maxAge: options.pruneMaxAge,
+              dryRun: options.dryRun,
+            }),
+        });
+
+        for (const result of results) {
+          if (result.status !== 'failure') continue;
+
+          console.error(
+            chalk.red.bold(
+              `\n✖︎ ${formatGitlabDestination(result.destination)} failed`
+            )
+          );
+          logError(result.error, formatGitlabDestination(result.destination));
+        }
+
+        if (results.length > 1) printGitlabDestinationsSummary(results);
+
+        if (isJson)
+          process.stdout.write(
+            `${JSON.stringify(serializeGitlabDestinationResults(results), null, 2)}\n`
+          );
+
+        if (results.some((result) => result.status === 'failure'))
+          process.exit(1);
+      })
+  )
+  .addCommand(
+    commandWithOptions()
+      .name('close-mr')
+      .option(
+        '-s --sha <sha>',
+        'SHA of the last commit of the closed --branch. Used in the note of the closed MR.'
+      )
+      .action(async (_args, command: Command) => {
+        const { closeMr } = await import('./commands/close-mr.js');
+
+        await runForDestinations(command, (destination, options, logger) =>
+          closeMr({
+            ...destination,
+            logger,
+            githubRepositoryBranch: options.githubRepositoryBranch,
+            githubRepositorySHA: options.githubRepositorySHA,
+            githubPullRequestUrl: options.githubPullRequestUrl,
+            gitlabOptions: options.gitlabOptions,
+            retryOptions: options.retryOptions,
+          })
+        );
       })
   );
 
-function logError(error: unknown) {
-  if (error instanceof GitbeakerRequestError) {
-    console.error(chalk.red('Gitbeaker Request Error'));
-    console.error(chalk.red(JSON.stringify(error.cause?.description)));
-  } else {
-    console.error(error instanceof Error ? chalk.red(error.message) : error);
+/**
+ * Resolves the options and runs the command for every GitLab destination,
+ * exits with non-zero code after all destinations have been attempted, if any of them failed
+ *
+ * @param command Command with the parsed options
+ * @param task Task to run for the GitLab destination with its logger, prefixed with the destination when they run at the same time
+ */
+async function runForDestinations(
+  command: Command,
+  task: (
+    destination: GitlabDestination,
+    options: ProgramOptions,
+    logger: Logger
+  ) => Promise<CommandResult>
+) {
+  const isJson = command.getOptionValue('json') === true;
+
+  // keep stdout for the JSON document only
+  if (isJson) console.log = console.error;
+
+  let options: ProgramOptions;
+
+  try {
+    options = resolveProgramOptions(command);
+  } catch (error) {
+    logError(error);
+    process.exit(1);
   }
+
+  const { destinations, concurrency } = options;
+
+  if (destinations.length === 1) {
+    const [destination] = destinations;
+    let result: CommandResult;
+
+    try {
+      result = await task(destination, options, consoleLogger);
+    } catch (error) {
+      logError(error);
+      writeGithubOutputs(
+        createActionOutputs([{ destination, status: 'failure', error }])
+      );
+      process.exit(1);
+    }
+
+    writeGithubOutputs(
+      createActionOutputs([{ destination, status: 'success', result }])
+    );
+
+    if (isJson) process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+
+    return;
+  }
+
+  const results = await runForEachGitlabDestination({
+    destinations,
+    concurrency,
+    task: (destination, logger) => task(destination, options, logger),
+  });
+
+  for (const result of results) {
+    if (result.status !== 'failure') continue;
+
+    console.error(
+      chalk.red.bold(
+        `\n✖︎ ${formatGitlabDestination(result.destination)} failed`
+      )
+    );
+    logError(result.error, formatGitlabDestination(result.destination));
+  }
+
+  printGitlabDestinationsSummary(results);
+  writeGithubOutputs(createActionOutputs(results));
+
+  if (isJson)
+    process.stdout.write(
+      `${JSON.stringify(serializeGitlabDestinationResults(results), null, 2)}\n`
+    );
+
+  if (results.some((result) => result.status === 'failure')) process.exit(1);
+}
+
+/**
+ * Prints the error with its cause chain, the secrets are masked.
+ * In GitHub Actions the error annotation is printed too
+ *
+ * @param error Error thrown by the command
+ * @param title Title of the error annotation, e.g. the failed GitLab destination
+ */
+function logError(error: unknown, title?: string) {
+  const [message = 'Unknown error', ...causes] = formatErrorChain(error);
+
+  console.error(chalk.red(`✖︎ ${message}`));
+
+  for (const cause of causes) {
+    console.error(chalk.red(`  ↳ ${cause.replace(/\n/g, '\n    ')}`));
+  }
+
+  printGithubErrorAnnotation([message, ...causes].join('\n'), title);
 }
 
 export { program };
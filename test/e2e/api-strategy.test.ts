@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { SubmodulesUpToDateError } from '../../src/lib/errors.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { git, readGitlink, resolveCommit } from '../fake-gitlab/git.js';
+
+describe('sync-branch with the "api" strategy', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  test('commits on top of the existing branch without deleting it', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await syncBranch({ ...commandOptions, syncStrategy: 'api' });
+    const syncSHA = resolveCommit(
+      project.repositoryPath,
+      'my-sdk/feature/test-01'
+    );
+
+    const updatedSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: updatedSubmoduleSHA,
+      syncStrategy: 'api',
+    });
+
+    assert.equal(result.sourceBranchAction, 'update');
+    assert.equal(
+      git(project.repositoryPath, ['rev-parse', 'my-sdk/feature/test-01^']),
+      syncSHA
+    );
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      updatedSubmoduleSHA
+    );
+  });
+
+  test('does not create the branch, if the target branch is up to date', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, initialSubmoduleSHA } = fixture;
+
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: initialSubmoduleSHA,
+      syncStrategy: 'api',
+    });
+
+    assert.equal(result.sourceBranchAction, 'unchanged');
+    assert.equal(
+      resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+      undefined
+    );
+  });
+
+  test('keeps the sync commit, if the target branch is updated to the submodule commit', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+    await syncBranch({ ...commandOptions, syncStrategy: 'api' });
+    const syncSHA = resolveCommit(
+      project.repositoryPath,
+      'my-sdk/feature/test-01'
+    );
+
+    fixture.pushProjectCommit('main', {
+      gitlinks: { 'packages/sdk': featureSubmoduleSHA },
+    });
+
+    await assert.rejects(
+      syncBranch({ ...commandOptions, syncStrategy: 'api' }),
+      SubmodulesUpToDateError
+    );
+
+    assert.equal(
+      resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+      syncSHA
+    );
+  });
+});
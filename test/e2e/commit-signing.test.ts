@@ -0,0 +1,331 @@
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import {
+  CommitSignatureNotVerifiedError,
+  SigningKeyError,
+} from '../../src/lib/errors.js';
+import { appendGitConfigEnv } from '../../src/lib/git-credentials.js';
+import { Logger } from '../../src/lib/logger.js';
+import { TempDir } from '../../src/lib/temp-dir.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { git, readGitlink } from '../fake-gitlab/git.js';
+
+/**
+ * Generates the SSH signing key
+ *
+ * @param keysDir Directory to create the key files in
+ * @param passphrase Passphrase of the private key
+ */
+function generateSSHKey(keysDir: string, passphrase = '') {
+  const keyPath = path.join(keysDir, 'id_ed25519');
+
+  execFileSync('ssh-keygen', [
+    '-q',
+    '-t',
+    'ed25519',
+    '-N',
+    passphrase,
+    '-C',
+    'fake-gitlab-user@example.com',
+    '-f',
+    keyPath,
+  ]);
+
+  return {
+    privateKey: fs.readFileSync(keyPath, 'utf8'),
+    publicKey: fs.readFileSync(`${keyPath}.pub`, 'utf8'),
+  };
+}
+
+/**
+ * Generates the GPG signing key in its own GPG home directory
+ *
+ * @param gnupgHome GPG home directory of the generated key
+ * @param passphrase Passphrase of the private key
+ */
+function generateGPGKey(gnupgHome: string, passphrase: string) {
+  const gpg = (args: string[]) =>
+    execFileSync(
+      'gpg',
+      [
+        '--batch',
+        '--pinentry-mode',
+        'loopback',
+        '--passphrase',
+        passphrase,
+        ...args,
+      ],
+      { env: { ...process.env, GNUPGHOME: gnupgHome }, encoding: 'utf8' }
+    );
+
+  fs.chmodSync(gnupgHome, 0o700);
+
+  try {
+    gpg([
+      '--quick-gen-key',
+      'Fake GitLab User <fake-gitlab-user@example.com>',
+      'ed25519',
+      'sign',
+      'never',
+    ]);
+
+    return {
+      privateKey: gpg(['--armor', '--export-secret-keys']),
+      publicKey: gpg(['--armor', '--export']),
+    };
+  } finally {
+    execFileSync('gpgconf', ['--kill', 'gpg-agent'], {
+      env: { ...process.env, GNUPGHOME: gnupgHome },
+    });
+  }
+}
+
+describe('sync-branch with the signing key', () => {
+  let messages: string[];
+  let logger: Logger;
+  let keysDir: TempDir;
+
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+
+    messages = [];
+    logger = {
+      info: (message) => messages.push(message),
+      success: (message) => messages.push(message),
+      warn: (message) => messages.push(message),
+      error: (message) => messages.push(message),
+    };
+    keysDir = new TempDir();
+  });
+
+  afterEach(() => {
+    keysDir[Symbol.dispose]();
+  });
+
+  test('signs the commit with the SSH key and removes the keyring', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions, featureSubmoduleSHA } =
+      fixture;
+    const { privateKey, publicKey } = generateSSHKey(keysDir.path, 'ssh-pass');
+    using workingDir = new TempDir();
+
+    fakeGitlab.addSigningKey(publicKey);
+
+    // the keyring is created in the working directory of the temporary clones
+    const previousWorkingDir = process.env.TMP_GITLAB_REPOSITORY_WORKING_DIR;
+    process.env.TMP_GITLAB_REPOSITORY_WORKING_DIR = workingDir.path;
+
+    try {
+      await syncBranch({
+        ...commandOptions,
+        syncStrategy: 'git',
+        signingKey: { privateKey, passphrase: 'ssh-pass' },
+        logger,
+      });
+    } finally {
+      if (previousWorkingDir === undefined)
+        delete process.env.TMP_GITLAB_REPOSITORY_WORKING_DIR;
+      else process.env.TMP_GITLAB_REPOSITORY_WORKING_DIR = previousWorkingDir;
+    }
+
+    const headSHA = git(project.repositoryPath, [
+      'rev-parse',
+      'my-sdk/feature/test-01',
+    ]);
+
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      featureSubmoduleSHA
+    );
+    assert.match(
+      git(project.repositoryPath, ['cat-file', 'commit', headSHA]),
+      /^gpgsig -----BEGIN SSH SIGNATURE-----$/m
+    );
+    assert.ok(
+      messages.includes(
+        `✔️ Commit "${headSHA}" signature is verified in GitLab`
+      )
+    );
+    assert.deepEqual(fs.readdirSync(workingDir.path), []);
+  });
+
+  test('signs the rebased commits with the GPG key', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+    const { privateKey, publicKey } = generateGPGKey(keysDir.path, 'gpg-pass');
+
+    fakeGitlab.addSigningKey(publicKey);
+
+    await syncBranch({ ...commandOptions, syncStrategy: 'git' });
+    fixture.pushProjectCommit('my-sdk/feature/test-01', {
+      files: { 'CHANGELOG.md': '# Changelog\n' },
+    });
+
+    await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: fixture.pushSubmoduleCommit('feature/test-01'),
+      syncStrategy: 'rebase',
+      signingKey: { privateKey, passphrase: 'gpg-pass' },
+      logger,
+    });
+
+    const commits = git(project.repositoryPath, [
+      'rev-list',
+      'main..my-sdk/feature/test-01',
+    ]).split('\n');
+
+    assert.equal(commits.length, 2);
+    for (const commit of commits) {
+      assert.match(
+        git(project.repositoryPath, ['cat-file', 'commit', commit]),
+        /^gpgsig -----BEGIN PGP SIGNATURE-----$/m
+      );
+    }
+    assert.ok(
+      messages.includes(
+        `✔️ Commit "${commits[0]}" signature is verified in GitLab`
+      )
+    );
+  });
+
+  test('fails, if GitLab does not verify the signature', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions } = fixture;
+    const { privateKey } = generateSSHKey(keysDir.path);
+
+    await assert.rejects(
+      syncBranch({
+        ...commandOptions,
+        syncStrategy: 'git',
+        signingKey: { privateKey },
+      }),
+      (error) => {
+        assert.ok(error instanceof CommitSignatureNotVerifiedError);
+        assert.equal(error.verificationStatus, 'unverified');
+        return true;
+      }
+    );
+  });
+
+  test('fails before the push, if the commit is not signed with the signing key', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+    const { privateKey, publicKey } = generateSSHKey(keysDir.path);
+    const hooksDir = path.join(keysDir.path, 'hooks');
+
+    fakeGitlab.addSigningKey(publicKey);
+
+    // the hook of the runner replaces the commit with the unsigned one
+    fs.mkdirSync(hooksDir);
+    fs.writeFileSync(
+      path.join(hooksDir, 'post-commit'),
+      '#!/bin/sh\n[ -n "$UNSIGNED" ] || UNSIGNED=1 git commit --amend --no-edit --no-gpg-sign --quiet\n',
+      { mode: 0o755 }
+    );
+
+    // the fixture already rewrites the GitLab URL through the Git config variables
+    const gitConfigCount = Number(process.env.GIT_CONFIG_COUNT) || 0;
+    Object.assign(
+      process.env,
+      appendGitConfigEnv(
+        { GIT_CONFIG_COUNT: String(gitConfigCount) },
+        { 'core.hooksPath': hooksDir }
+      )
+    );
+
+    try {
+      await assert.rejects(
+        syncBranch({
+          ...commandOptions,
+          syncStrategy: 'git',
+          signingKey: { privateKey },
+          logger,
+        }),
+        (error) => {
+          assert.ok(error instanceof CommitSignatureNotVerifiedError);
+          assert.equal(error.verificationStatus, undefined);
+          return true;
+        }
+      );
+    } finally {
+      process.env.GIT_CONFIG_COUNT = String(gitConfigCount);
+      delete process.env[`GIT_CONFIG_KEY_${gitConfigCount}`];
+      delete process.env[`GIT_CONFIG_VALUE_${gitConfigCount}`];
+    }
+
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      undefined
+    );
+  });
+
+  test('fails, if the unchanged branch is not verified in GitLab', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, commandOptions } = fixture;
+    const { privateKey, publicKey } = generateSSHKey(keysDir.path);
+
+    fakeGitlab.addSigningKey(publicKey);
+
+    // the branch is synced without the key, e.g. before the push rules required the signed commits
+    await syncBranch({ ...commandOptions, syncStrategy: 'git' });
+
+    await assert.rejects(
+      syncBranch({
+        ...commandOptions,
+        syncStrategy: 'git',
+        signingKey: { privateKey },
+        logger,
+      }),
+      (error) => {
+        assert.ok(error instanceof CommitSignatureNotVerifiedError);
+        assert.equal(error.verificationStatus, undefined);
+        return true;
+      }
+    );
+
+    assert.ok(
+      messages.some((message) =>
+        message.startsWith(
+          '⚠︎ Branch related to the GitHub repository branch "feature/test-01" already points the submodules to the same SHA commits'
+        )
+      )
+    );
+  });
+
+  test('fails before the clone, if the passphrase is wrong', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+    const { privateKey } = generateSSHKey(keysDir.path, 'ssh-pass');
+
+    await assert.rejects(
+      syncBranch({
+        ...commandOptions,
+        syncStrategy: 'git',
+        signingKey: { privateKey, passphrase: 'wrong-pass' },
+      }),
+      SigningKeyError
+    );
+
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      undefined
+    );
+  });
+});
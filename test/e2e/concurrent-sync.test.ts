@@ -0,0 +1,274 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { Logger } from '../../src/lib/logger.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { git, readGitlink, resolveCommit } from '../fake-gitlab/git.js';
+
+describe('sync-branch racing with another job', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  /**
+   * Creates the logger, which moves the source branch to the commit right before the push,
+   * as if another job has pushed it during the sync
+   *
+   * @param repositoryPath Bare repository of the GitLab project
+   * @param commitSHA Commit pushed by another job
+   * @param messages Logged messages
+   * @param trigger Prefix of the message to move the branch at, the push by default
+   */
+  const createRacingLogger = (
+    repositoryPath: string,
+    commitSHA: string,
+    messages: string[],
+    trigger = '🫸 Pushing'
+  ): Logger => {
+    let isPushed = false;
+
+    const log = (message: string) => {
+      messages.push(message);
+
+      if (!isPushed && message.startsWith(trigger)) {
+        isPushed = true;
+        git(repositoryPath, [
+          'update-ref',
+          'refs/heads/my-sdk/feature/test-01',
+          commitSHA,
+        ]);
+      }
+    };
+
+    return { info: log, success: log, warn: log, error: log };
+  };
+
+  test('exits as superseded, if another job has pushed a newer submodule commit', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+    // another job syncs the newer commit, its branch is pushed while this job syncs the older one
+    const newerSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+    const { mergeRequestIid } = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: newerSubmoduleSHA,
+      syncStrategy: 'git',
+    });
+    const newerSyncSHA = resolveCommit(
+      project.repositoryPath,
+      'my-sdk/feature/test-01'
+    );
+    git(project.repositoryPath, [
+      'update-ref',
+      '-d',
+      'refs/heads/my-sdk/feature/test-01',
+    ]);
+
+    const messages: string[] = [];
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: featureSubmoduleSHA,
+      syncStrategy: 'git',
+      logger: createRacingLogger(
+        project.repositoryPath,
+        newerSyncSHA ?? '',
+        messages
+      ),
+    });
+
+    assert.equal(result.sourceBranchAction, 'superseded');
+    assert.equal(result.mergeRequestAction, 'none');
+    assert.equal(result.mergeRequestIid, mergeRequestIid);
+    assert.equal(
+      resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+      newerSyncSHA
+    );
+    assert.ok(
+      messages.includes(
+        '⚠︎ Branch related to the GitHub repository branch "feature/test-01" already has the same or newer submodule commits, the sync is superseded'
+      )
+    );
+  });
+
+  test('retries the sync, if another job has pushed an older submodule commit', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    // another job syncs the older commit, its branch is pushed while this job syncs the newer one
+    await syncBranch({ ...commandOptions, syncStrategy: 'git' });
+    const olderSyncSHA = resolveCommit(
+      project.repositoryPath,
+      'my-sdk/feature/test-01'
+    );
+    git(project.repositoryPath, [
+      'update-ref',
+      '-d',
+      'refs/heads/my-sdk/feature/test-01',
+    ]);
+
+    const newerSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+    const messages: string[] = [];
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: newerSubmoduleSHA,
+      syncStrategy: 'git',
+      logger: createRacingLogger(
+        project.repositoryPath,
+        olderSyncSHA ?? '',
+        messages
+      ),
+    });
+
+    assert.equal(result.sourceBranchAction, 'reset');
+    assert.equal(result.mergeRequestAction, 'edit');
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      newerSubmoduleSHA
+    );
+    assert.ok(
+      messages.includes(
+        '⚠︎ Branch related to the GitHub repository branch "feature/test-01" was changed during the sync, retrying (1/2)'
+      )
+    );
+  });
+
+  describe('with the "api" strategy', () => {
+    test('exits as superseded, if another job has created the branch with a newer submodule commit', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+      const newerSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+      await syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: newerSubmoduleSHA,
+        syncStrategy: 'api',
+      });
+      const newerSyncSHA = resolveCommit(
+        project.repositoryPath,
+        'my-sdk/feature/test-01'
+      );
+      git(project.repositoryPath, [
+        'update-ref',
+        '-d',
+        'refs/heads/my-sdk/feature/test-01',
+      ]);
+
+      const messages: string[] = [];
+      const result = await syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: featureSubmoduleSHA,
+        syncStrategy: 'api',
+        logger: createRacingLogger(
+          project.repositoryPath,
+          newerSyncSHA ?? '',
+          messages,
+          '☑︎ SHA for submodule'
+        ),
+      });
+
+      assert.equal(result.sourceBranchAction, 'superseded');
+      assert.equal(result.mergeRequestAction, 'none');
+      assert.equal(
+        resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+        newerSyncSHA
+      );
+    });
+
+    test('restores the newer submodule commit pushed by another job during the commit', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions } = fixture;
+
+      await syncBranch({ ...commandOptions, syncStrategy: 'api' });
+      const syncSHA = resolveCommit(
+        project.repositoryPath,
+        'my-sdk/feature/test-01'
+      );
+
+      const submoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+      const newerSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+
+      // another job commits the newer submodule commit right before this job commits the older one
+      const newerCommitSHA = fixture.pushProjectCommit(
+        'my-sdk/feature/test-01',
+        { gitlinks: { 'packages/sdk': newerSubmoduleSHA } }
+      );
+      git(project.repositoryPath, [
+        'update-ref',
+        'refs/heads/my-sdk/feature/test-01',
+        syncSHA ?? '',
+      ]);
+
+      const result = await syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: submoduleSHA,
+        syncStrategy: 'api',
+        logger: createRacingLogger(
+          project.repositoryPath,
+          newerCommitSHA,
+          [],
+          '📦 Committing'
+        ),
+      });
+
+      assert.equal(result.sourceBranchAction, 'superseded');
+      assert.equal(
+        readGitlink(
+          project.repositoryPath,
+          'my-sdk/feature/test-01',
+          'packages/sdk'
+        ),
+        newerSubmoduleSHA
+      );
+    });
+
+    test('retries the sync, if another job has created the branch with an older submodule commit', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions } = fixture;
+
+      await syncBranch({ ...commandOptions, syncStrategy: 'api' });
+      const olderSyncSHA = resolveCommit(
+        project.repositoryPath,
+        'my-sdk/feature/test-01'
+      );
+      git(project.repositoryPath, [
+        'update-ref',
+        '-d',
+        'refs/heads/my-sdk/feature/test-01',
+      ]);
+
+      const newerSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+      const messages: string[] = [];
+      const result = await syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: newerSubmoduleSHA,
+        syncStrategy: 'api',
+        logger: createRacingLogger(
+          project.repositoryPath,
+          olderSyncSHA ?? '',
+          messages,
+          '☑︎ SHA for submodule'
+        ),
+      });
+
+      assert.equal(result.sourceBranchAction, 'update');
+      assert.equal(
+        readGitlink(
+          project.repositoryPath,
+          'my-sdk/feature/test-01',
+          'packages/sdk'
+        ),
+        newerSubmoduleSHA
+      );
+      assert.ok(
+        messages.includes(
+          '⚠︎ Branch related to the GitHub repository branch "feature/test-01" was changed during the sync, retrying (1/2)'
+        )
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { simpleGit } from 'simple-git';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { ManualCommitsError } from '../../src/lib/errors.js';
+import { Logger } from '../../src/lib/logger.js';
+import { GitFactory } from '../../src/lib/types.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { git, readGitlink } from '../fake-gitlab/git.js';
+
+describe('sync-branch with the "fast" clone mode', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  test('clones the shallow sparse repository and updates the gitlink', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+    const messages: string[] = [];
+    const logger: Logger = {
+      info: (message) => messages.push(message),
+      success: (message) => messages.push(message),
+      warn: (message) => messages.push(message),
+      error: (message) => messages.push(message),
+    };
+
+    const checkouts: { files: string[]; isShallow: boolean }[] = [];
+    const createGit: GitFactory = (options) => {
+      const gitDir = path.join(options.baseDir ?? '', '.git');
+
+      if (options.baseDir && fs.existsSync(path.join(gitDir, 'HEAD')))
+        checkouts.push({
+          files: fs.readdirSync(options.baseDir).sort(),
+          isShallow: fs.existsSync(path.join(gitDir, 'shallow')),
+        });
+
+      return simpleGit(options);
+    };
+
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: undefined,
+      syncStrategy: 'git',
+      cloneMode: 'fast',
+      createGit,
+      logger,
+    });
+
+    assert.equal(result.sourceBranchAction, 'create');
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      featureSubmoduleSHA
+    );
+    assert.deepEqual(checkouts.at(-1), {
+      files: ['.git', '.gitmodules'],
+      isShallow: true,
+    });
+    assert.ok(
+      messages.some((message) =>
+        /^⏱︎ Clone \(fast\) took \d+\.\d{2}s$/.test(message)
+      )
+    );
+    assert.ok(
+      messages.some((message) => /^⏱︎ Push took \d+\.\d{2}s$/.test(message))
+    );
+  });
+
+  test('rebases the manual commits onto the target branch far ahead of the merge base', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await syncBranch({
+      ...commandOptions,
+      syncStrategy: 'rebase',
+      cloneMode: 'fast',
+    });
+
+    fixture.pushProjectCommit('my-sdk/feature/test-01', {
+      files: { 'src/sdk-fix.ts': 'export const fixed = true;\n' },
+    });
+
+    for (let index = 0; index < 30; index++) {
+      fixture.pushProjectCommit('main', {
+        files: { 'CHANGELOG.md': `# Changelog ${index}\n` },
+      });
+    }
+
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: fixture.pushSubmoduleCommit('feature/test-01'),
+      syncStrategy: 'rebase',
+      cloneMode: 'fast',
+    });
+
+    assert.equal(result.sourceBranchAction, 'rebase');
+    assert.deepEqual(
+      git(project.repositoryPath, [
+        'log',
+        '--format=%s',
+        'main..my-sdk/feature/test-01',
+      ]).split('\n'),
+      [
+        'chore: manual change',
+        "chore: update 'my-sdk' submodule to 'feature/test-01' `submodule-auto-sync`",
+      ]
+    );
+    assert.equal(
+      git(project.repositoryPath, [
+        'show',
+        'my-sdk/feature/test-01:src/sdk-fix.ts',
+      ]),
+      'export const fixed = true;'
+    );
+  });
+
+  test('detects the manual commits in the shallow history', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions } = fixture;
+
+    await syncBranch({
+      ...commandOptions,
+      syncStrategy: 'git',
+      cloneMode: 'fast',
+    });
+
+    fixture.pushProjectCommit('my-sdk/feature/test-01', {
+      files: { 'README.md': '# My App with a manual fix\n' },
+    });
+
+    for (let index = 0; index < 25; index++) {
+      fixture.pushProjectCommit('main', {
+        files: { 'CHANGELOG.md': `# Changelog ${index}\n` },
+      });
+    }
+
+    await assert.rejects(
+      syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: fixture.pushSubmoduleCommit('feature/test-01'),
+        syncStrategy: 'git',
+        cloneMode: 'fast',
+      }),
+      ManualCommitsError
+    );
+  });
+
+  test('fetches the submodule commit once with its recent history for the stale check and the changelog', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions, initialSubmoduleSHA, featureSubmoduleSHA } =
+      fixture;
+
+    await syncBranch({
+      ...commandOptions,
+      syncStrategy: 'git',
+      cloneMode: 'fast',
+    });
+
+    const fetches: string[][] = [];
+    const createGit: GitFactory = (options) =>
+      simpleGit(options).outputHandler((_command, _stdout, _stderr, args) => {
+        if (args[0] === 'fetch') fetches.push(args);
+      });
+    const nextSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: nextSubmoduleSHA,
+      syncStrategy: 'git',
+      cloneMode: 'fast',
+      createGit,
+    });
+
+    const submoduleFetches = fetches.filter((args) =>
+      args.includes('--filter=tree:0')
+    );
+
+    assert.equal(result.submodules[0].changelog?.kind, 'fast-forward');
+    assert.equal(result.submodules[0].changelog?.totalCommits, 2);
+    // the requested commit, the target branch one for the changelog, and the sync branch one for the stale check
+    assert.deepEqual(
+      submoduleFetches.map((args) => args.at(-1)),
+      [nextSubmoduleSHA, initialSubmoduleSHA, featureSubmoduleSHA]
+    );
+    assert.ok(submoduleFetches.every((args) => args.includes('--depth=100')));
+  });
+});
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { simpleGit } from 'simple-git';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { InvalidOptionsError } from '../../src/lib/errors.js';
+import { createGitCredentialsEnv } from '../../src/lib/git-credentials.js';
+import { GitFactory } from '../../src/lib/types.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { git } from '../fake-gitlab/git.js';
+
+describe('git credentials', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  test('scopes the credentials header to the GitLab host and keeps the Git config variables', async () => {
+    const env = await createGitCredentialsEnv(
+      {
+        host: 'https://gitlab.example.com',
+        token: 'job-token',
+        tokenType: 'job',
+      },
+      {
+        GIT_CONFIG_COUNT: '1',
+        GIT_CONFIG_KEY_0: 'protocol.file.allow',
+        GIT_CONFIG_VALUE_0: 'always',
+      }
+    );
+
+    assert.deepEqual(env, {
+      GIT_CONFIG_COUNT: '2',
+      GIT_CONFIG_KEY_0: 'protocol.file.allow',
+      GIT_CONFIG_VALUE_0: 'always',
+      GIT_CONFIG_KEY_1: 'http.https://gitlab.example.com/.extraHeader',
+      GIT_CONFIG_VALUE_1: `Authorization: Basic ${Buffer.from('gitlab-ci-token:job-token').toString('base64')}`,
+      GIT_TERMINAL_PROMPT: '0',
+    });
+  });
+
+  test('does not store the token in the cloned repository', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+
+    const gitConfigs: string[] = [];
+    const createGit: GitFactory = (options) => {
+      const gitConfigPath = path.join(options.baseDir ?? '', '.git', 'config');
+
+      if (options.baseDir && fs.existsSync(gitConfigPath))
+        gitConfigs.push(fs.readFileSync(gitConfigPath, 'utf8'));
+
+      return simpleGit(options);
+    };
+
+    await syncBranch({ ...commandOptions, syncStrategy: 'git', createGit });
+
+    assert.ok(gitConfigs.length);
+    for (const gitConfig of gitConfigs) {
+      assert.match(
+        gitConfig,
+        /url = https:\/\/127\.0\.0\.1:\d+\/my-team\/my-app\.git/
+      );
+      assert.doesNotMatch(gitConfig, new RegExp(fakeGitlab.token));
+    }
+    assert.equal(
+      git(project.repositoryPath, [
+        'log',
+        '-1',
+        '--format=%an <%ae>',
+        'my-sdk/feature/test-01',
+      ]),
+      'fake-gitlab-user <fake-gitlab-user@example.com>'
+    );
+  });
+
+  test('commits as the configured committer with the CI job token', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+    const gitlabOptions = {
+      ...commandOptions.gitlabOptions,
+      tokenType: 'job' as const,
+    };
+
+    await assert.rejects(
+      syncBranch({ ...commandOptions, gitlabOptions, syncStrategy: 'git' }),
+      InvalidOptionsError
+    );
+
+    await syncBranch({
+      ...commandOptions,
+      gitlabOptions,
+      syncStrategy: 'git',
+      committer: {
+        name: 'Submodule Sync',
+        email: 'submodule-sync@example.com',
+      },
+    });
+
+    assert.equal(
+      git(project.repositoryPath, [
+        'log',
+        '-1',
+        '--format=%an <%ae>, %cn <%ce>',
+        'my-sdk/feature/test-01',
+      ]),
+      'Submodule Sync <submodule-sync@example.com>, Submodule Sync <submodule-sync@example.com>'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import chalk from 'chalk';
+import { runForEachGitlabDestination } from '../../src/lib/gitlab-destinations.js';
+
+const destinations = [
+  {
+    gitlabProjectId: 'my-team/app',
+    gitlabTargetBranch: 'main',
+    githubProjectSubmoduleName: 'my-sdk',
+  },
+  {
+    gitlabProjectId: 'my-team/web',
+    gitlabTargetBranch: 'develop',
+    githubProjectSubmoduleName: 'my-sdk',
+  },
+];
+
+describe('GitLab destinations', () => {
+  let lines: string[];
+
+  beforeEach(() => {
+    lines = [];
+
+    // the messages are compared without the colors
+    chalk.level = 0;
+    mock.method(console, 'log', (message: string) => lines.push(message));
+    mock.method(console, 'error', (message: string) => lines.push(message));
+  });
+
+  test('prefixes every line of the destinations processed at the same time', async () => {
+    const results = await runForEachGitlabDestination({
+      destinations,
+      concurrency: 2,
+      task: async ({ gitlabProjectId }, logger) => {
+        logger.info(`🔍 Syncing ${gitlabProjectId}`);
+        await Promise.resolve();
+        logger.error('✖︎ First line\nSecond line');
+      },
+    });
+
+    assert.deepEqual(
+      results.map(({ status }) => status),
+      ['success', 'success']
+    );
+    assert.deepEqual(
+      lines.filter((line) => !line.includes('🎯')),
+      [
+        '[my-team/app@main (my-sdk)] 🔍 Syncing my-team/app',
+        '[my-team/web@develop (my-sdk)] 🔍 Syncing my-team/web',
+        '[my-team/app@main (my-sdk)] ✖︎ First line\n[my-team/app@main (my-sdk)] Second line',
+        '[my-team/web@develop (my-sdk)] ✖︎ First line\n[my-team/web@develop (my-sdk)] Second line',
+      ]
+    );
+  });
+
+  test('keeps the messages of the destinations processed one by one as they are', async () => {
+    await runForEachGitlabDestination({
+      destinations,
+      concurrency: 1,
+      task: async ({ gitlabProjectId }, logger) =>
+        logger.info(`🔍 Syncing ${gitlabProjectId}`),
+    });
+
+    assert.deepEqual(
+      lines.filter((line) => !line.includes('🎯')),
+      ['🔍 Syncing my-team/app', '🔍 Syncing my-team/web']
+    );
+  });
+});
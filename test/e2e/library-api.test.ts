@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { simpleGit } from 'simple-git';
+import {
+  Logger,
+  ManualCommitsError,
+  SubmoduleSHAMismatchError,
+  SubmoduleSyncError,
+  createGitlabClient,
+  createMRSourceBranchName,
+  mergeMr,
+  syncBranch,
+} from '../../src/index.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { resolveCommit } from '../fake-gitlab/git.js';
+
+/**
+ * Creates the logger collecting the messages to assert them
+ */
+function createCollectingLogger() {
+  const messages: { level: keyof Logger; message: string }[] = [];
+
+  const logger: Logger = {
+    info: (message) => messages.push({ level: 'info', message }),
+    success: (message) => messages.push({ level: 'success', message }),
+    warn: (message) => messages.push({ level: 'warn', message }),
+    error: (message) => messages.push({ level: 'error', message }),
+  };
+
+  return { logger, messages };
+}
+
+describe('library API', () => {
+  let consoleLog: ReturnType<typeof mock.method>;
+  let consoleError: ReturnType<typeof mock.method>;
+
+  beforeEach(() => {
+    consoleLog = mock.method(console, 'log', () => {});
+    consoleError = mock.method(console, 'error', () => {});
+  });
+
+  test('uses the injected GitLab client, Git factory and logger', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, featureSubmoduleSHA } = fixture;
+    const { logger, messages } = createCollectingLogger();
+    const createGit = mock.fn(simpleGit);
+
+    const result = await syncBranch({
+      ...commandOptions,
+      syncStrategy: 'git',
+      gitlab: createGitlabClient(commandOptions.gitlabOptions),
+      createGit,
+      logger,
+    });
+
+    assert.equal(result.mergeRequestAction, 'create');
+    assert.equal(result.submodules[0].githubRepositorySHA, featureSubmoduleSHA);
+    assert.equal(
+      result.gitlabSourceBranch,
+      createMRSourceBranchName({
+        githubProjectSubmoduleName: 'my-sdk',
+        githubRepositoryBranch: 'feature/test-01',
+      })
+    );
+    assert.equal(project.mergeRequests.length, 1);
+
+    assert.ok(createGit.mock.callCount() > 0);
+    assert.ok(messages.some(({ level }) => level === 'success'));
+    assert.equal(consoleLog.mock.callCount(), 0);
+    assert.equal(consoleError.mock.callCount(), 0);
+  });
+
+  test('rejects with the typed error of the manual commits', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions } = fixture;
+    const { logger } = createCollectingLogger();
+
+    await syncBranch({ ...commandOptions, logger });
+    fixture.pushProjectCommit('my-sdk/feature/test-01', {
+      files: { 'README.md': '# My App with manual changes\n' },
+    });
+
+    await assert.rejects(syncBranch({ ...commandOptions, logger }), (error) => {
+      assert.ok(error instanceof ManualCommitsError);
+      assert.ok(error instanceof SubmoduleSyncError);
+      assert.equal(error.name, 'ManualCommitsError');
+      assert.equal(error.gitlabSourceBranch, 'my-sdk/feature/test-01');
+      assert.doesNotMatch(error.message, /✖︎/);
+      return true;
+    });
+  });
+
+  test('rejects with the typed error of the submodule SHA mismatch', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions, featureSubmoduleSHA } = fixture;
+    const { logger } = createCollectingLogger();
+
+    await syncBranch({ ...commandOptions, logger });
+    const newerSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+
+    await assert.rejects(
+      mergeMr({
+        ...commandOptions,
+        githubRepositorySHA: newerSubmoduleSHA,
+        logger,
+      }),
+      (error) => {
+        assert.ok(error instanceof SubmoduleSHAMismatchError);
+        assert.deepEqual(error.details, {
+          mergeRequestIid: 1,
+          githubProjectSubmoduleName: 'my-sdk',
+          expectedSHA: newerSubmoduleSHA,
+          actualSHA: featureSubmoduleSHA,
+        });
+        return true;
+      }
+    );
+  });
+
+  test('rejects with the abort reason and makes no changes', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+    const { logger } = createCollectingLogger();
+
+    await assert.rejects(
+      syncBranch({
+        ...commandOptions,
+        syncStrategy: 'git',
+        logger,
+        signal: AbortSignal.abort(),
+      }),
+      { name: 'AbortError' }
+    );
+
+    assert.equal(
+      resolveCommit(
+        project.repositoryPath,
+        'refs/heads/my-sdk/feature/test-01'
+      ),
+      undefined
+    );
+    assert.equal(project.mergeRequests.length, 0);
+  });
+});
@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { mergeMr } from '../../src/commands/merge-mr.js';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { readGitlink, resolveCommit } from '../fake-gitlab/git.js';
+
+describe('merge-mr', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  test('merges the MR with the expected submodule SHA', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+    await syncBranch(commandOptions);
+    const result = await mergeMr(commandOptions);
+
+    assert.equal(result.mergeRequestState, 'merged');
+    assert.equal(project.mergeRequests[0].state, 'merged');
+    assert.match(
+      project.mergeRequests[0].mergeCommitMessage ?? '',
+      /with 'my-sdk' submodule commit/
+    );
+    assert.equal(
+      readGitlink(project.repositoryPath, 'main', 'packages/sdk'),
+      featureSubmoduleSHA
+    );
+    assert.equal(
+      resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+      undefined
+    );
+  });
+
+  test('rejects the MR with an outdated submodule SHA', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await syncBranch(commandOptions);
+    const newerSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+
+    await assert.rejects(
+      mergeMr({ ...commandOptions, githubRepositorySHA: newerSubmoduleSHA }),
+      /does not contain submodule "my-sdk" SHA/
+    );
+    assert.equal(project.mergeRequests[0].state, 'opened');
+  });
+
+  test('rejects the MR with conflicts', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await syncBranch(commandOptions);
+    fixture.pushProjectCommit('main', {
+      gitlinks: { 'packages/sdk': fixture.pushSubmoduleCommit('main') },
+    });
+
+    await assert.rejects(mergeMr(commandOptions), /has conflicts/);
+    assert.equal(project.mergeRequests[0].state, 'opened');
+  });
+
+  test('requires the submodule SHA', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions } = fixture;
+
+    await syncBranch(commandOptions);
+
+    await assert.rejects(
+      mergeMr({ ...commandOptions, githubRepositorySHA: '' }),
+      /SHA is required to merge the MR/
+    );
+  });
+
+  test('sets the MR to merge when the pipeline succeeds', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+
+    await syncBranch(commandOptions);
+    fakeGitlab.setPipelineStatus(project.id, 1, 'running');
+
+    const result = await mergeMr({
+      ...commandOptions,
+      mergeWhenPipelineSucceeds: true,
+    });
+
+    assert.equal(result.mergeRequestState, 'merge_when_pipeline_succeeds');
+    assert.equal(project.mergeRequests[0].state, 'opened');
+
+    fakeGitlab.setPipelineStatus(project.id, 1, 'success');
+
+    assert.equal(project.mergeRequests[0].state, 'merged');
+  });
+
+  test('waits for the MR to be merged after the pipeline succeeds', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+
+    await syncBranch(commandOptions);
+    fakeGitlab.setPipelineStatus(project.id, 1, 'running');
+
+    const timer = setTimeout(
+      () => fakeGitlab.setPipelineStatus(project.id, 1, 'success'),
+      200
+    );
+    const result = await mergeMr({
+      ...commandOptions,
+      wait: true,
+      waitPollInterval: 0.05,
+      waitTimeout: 10,
+    }).finally(() => clearTimeout(timer));
+
+    assert.equal(result.mergeRequestState, 'merged');
+  });
+
+  test('reports the failed jobs while waiting for the MR to be merged', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+
+    await syncBranch(commandOptions);
+    fakeGitlab.setPipelineStatus(project.id, 1, 'running');
+
+    const timer = setTimeout(
+      () =>
+        fakeGitlab.setPipelineStatus(project.id, 1, 'failed', [
+          { name: 'unit-tests', stage: 'test' },
+          { name: 'flaky-lint', stage: 'test', allowFailure: true },
+        ]),
+      200
+    );
+
+    await assert.rejects(
+      mergeMr({
+        ...commandOptions,
+        wait: true,
+        waitPollInterval: 0.05,
+        waitTimeout: 10,
+      }).finally(() => clearTimeout(timer)),
+      (error: Error) => {
+        assert.match(error.message, /job 'unit-tests' \(stage 'test'\) failed/);
+        assert.doesNotMatch(error.message, /flaky-lint/);
+        return true;
+      }
+    );
+    assert.equal(project.mergeRequests[0].state, 'opened');
+  });
+});
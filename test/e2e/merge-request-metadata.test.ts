@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { InvalidOptionsError } from '../../src/lib/errors.js';
+import { MergeRequestMetadata } from '../../src/lib/merge-request-metadata.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { resolveCommit } from '../fake-gitlab/git.js';
+
+describe('MR metadata', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  test('creates the MR with the labels, people, milestone, draft and squash', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+
+    const john = fakeGitlab.createUser('john.doe');
+    const jane = fakeGitlab.createUser('jane.doe');
+    const bob = fakeGitlab.createUser('bob');
+    const milestone = fakeGitlab.createMilestone(project.id, 'v1.2');
+
+    const mergeRequestMetadata: MergeRequestMetadata = {
+      labels: ['submodule-sync', 'sdk'],
+      assignees: ['john.doe'],
+      reviewers: ['jane.doe'],
+      milestone: 'v1.2',
+      draft: true,
+      squash: true,
+      githubPullRequestAuthor: 'octocat',
+      usernameMapping: { octocat: 'bob' },
+    };
+
+    await syncBranch({ ...commandOptions, mergeRequestMetadata });
+
+    const [mr] = project.mergeRequests;
+    assert.equal(
+      mr.title,
+      "Draft: chore(my-sdk): update submodule to 'feature/test-01'"
+    );
+    assert.deepEqual(mr.labels, ['submodule-sync', 'sdk']);
+    assert.deepEqual(mr.assigneeIds, [john.id, bob.id]);
+    assert.deepEqual(mr.reviewerIds, [jane.id]);
+    assert.equal(mr.milestoneId, milestone.id);
+    assert.equal(mr.squash, true);
+    assert.equal(mr.forceRemoveSourceBranch, true);
+  });
+
+  test('keeps the labels, assignees and draft status set by people on re-sync', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+
+    const john = fakeGitlab.createUser('john.doe');
+    const jane = fakeGitlab.createUser('jane.doe');
+
+    const mergeRequestMetadata: MergeRequestMetadata = {
+      labels: ['submodule-sync'],
+      assignees: ['john.doe'],
+      draft: true,
+    };
+
+    await syncBranch({ ...commandOptions, mergeRequestMetadata });
+
+    // people mark the MR as ready, add a label and an assignee
+    const [mr] = project.mergeRequests;
+    mr.title = mr.title.replace(/^Draft: /, '');
+    mr.labels.push('needs-review');
+    mr.assigneeIds.push(jane.id);
+
+    const updatedSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: updatedSubmoduleSHA,
+      mergeRequestMetadata: { ...mergeRequestMetadata, labels: ['sdk'] },
+    });
+
+    assert.equal(result.mergeRequestAction, 'edit');
+    assert.equal(
+      mr.title,
+      "chore(my-sdk): update submodule to 'feature/test-01'"
+    );
+    assert.deepEqual(mr.labels, ['submodule-sync', 'needs-review', 'sdk']);
+    assert.deepEqual(mr.assigneeIds, [john.id, jane.id]);
+  });
+
+  test('keeps the draft status on re-sync', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await syncBranch({
+      ...commandOptions,
+      mergeRequestMetadata: { draft: true },
+    });
+
+    const updatedSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+    await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: updatedSubmoduleSHA,
+    });
+
+    assert.match(project.mergeRequests[0].title, /^Draft: /);
+  });
+
+  test('rejects the unknown user before any change', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await assert.rejects(
+      syncBranch({
+        ...commandOptions,
+        mergeRequestMetadata: { reviewers: ['nobody'] },
+      }),
+      (error) => {
+        assert.ok(error instanceof InvalidOptionsError);
+        assert.equal(error.message, 'GitLab user "nobody" not found');
+        return true;
+      }
+    );
+
+    assert.equal(
+      resolveCommit(
+        project.repositoryPath,
+        'refs/heads/my-sdk/feature/test-01'
+      ),
+      undefined
+    );
+  });
+
+  test('rejects the unknown milestone', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions } = fixture;
+
+    await assert.rejects(
+      syncBranch({
+        ...commandOptions,
+        mergeRequestMetadata: { milestone: 'v9.9' },
+      }),
+      /Milestone "v9.9" not found in the project "my-team\/my-app"/
+    );
+  });
+
+  test('skips the PR author missing in the username mapping', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await syncBranch({
+      ...commandOptions,
+      mergeRequestMetadata: { githubPullRequestAuthor: 'octocat' },
+    });
+
+    assert.deepEqual(project.mergeRequests[0].assigneeIds, []);
+  });
+});
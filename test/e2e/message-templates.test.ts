@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { mergeMr } from '../../src/commands/merge-mr.js';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { InvalidOptionsError } from '../../src/lib/errors.js';
+import { MessageTemplates } from '../../src/lib/message-templates.js';
+import { SyncStrategy } from '../../src/lib/types.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { git, resolveCommit } from '../fake-gitlab/git.js';
+
+const githubPullRequestUrl = 'https://github.com/my-team/my-sdk/pull/42';
+
+const messageTemplates: MessageTemplates = {
+  mergeRequestTitle: 'feat({{jiraKey}}): update {{submodule}} to {{shortSha}}',
+  mergeRequestDescription:
+    'Updates {{submodule}} from {{shortOldSha}} to {{sha}} on {{targetBranch}}, PR #{{prNumber}} {{prUrl}}',
+  commitMessage: 'chore({{jiraKey}}): bump {{submodules}}\n\nBranch {{branch}}',
+  mergeCommitMessage: 'Merge {{branch}} into {{targetBranch}} ({{jiraKey}})',
+  jiraKeyPattern: 'feature/(test-\\d+)',
+};
+
+const syncStrategies: SyncStrategy[] = ['api', 'git'];
+
+describe('message templates', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  for (const syncStrategy of syncStrategies) {
+    test(`creates the MR and the commit from the templates with the "${syncStrategy}" strategy`, async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+      await syncBranch({
+        ...commandOptions,
+        githubPullRequestUrl,
+        messageTemplates,
+        syncStrategy,
+      });
+
+      const [mr] = project.mergeRequests;
+      assert.equal(
+        mr.title,
+        `feat(test-01): update my-sdk to ${featureSubmoduleSHA.slice(0, 7)}`
+      );
+      assert.equal(
+        mr.description,
+        `Updates my-sdk from ${fixture.initialSubmoduleSHA.slice(0, 7)} to ${featureSubmoduleSHA} on main, PR #42 ${githubPullRequestUrl}`
+      );
+
+      assert.equal(
+        git(project.repositoryPath, [
+          'log',
+          '-1',
+          '--format=%B',
+          'my-sdk/feature/test-01',
+        ]).trim(),
+        'chore(test-01): bump my-sdk `submodule-auto-sync`\n\nBranch feature/test-01'
+      );
+
+      // the salt is kept, so the branch is still recognized as the sync branch
+      const updatedSubmoduleSHA =
+        fixture.pushSubmoduleCommit('feature/test-01');
+      const result = await syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: updatedSubmoduleSHA,
+        githubPullRequestUrl,
+        messageTemplates,
+        syncStrategy,
+      });
+
+      assert.equal(result.mergeRequestAction, 'edit');
+    });
+  }
+
+  test('merges the MR with the merge commit message template', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await syncBranch(commandOptions);
+    await mergeMr({ ...commandOptions, messageTemplates });
+
+    assert.equal(
+      project.mergeRequests[0].mergeCommitMessage,
+      'Merge feature/test-01 into main (test-01)'
+    );
+  });
+
+  test('rejects the unknown placeholder before any change', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await assert.rejects(
+      syncBranch({
+        ...commandOptions,
+        messageTemplates: { mergeRequestTitle: 'update {{submoduleName}}' },
+      }),
+      (error) => {
+        assert.ok(error instanceof InvalidOptionsError);
+        assert.match(
+          error.message,
+          /unknown placeholders "\{\{submoduleName\}\}"/
+        );
+        return true;
+      }
+    );
+
+    assert.equal(
+      resolveCommit(
+        project.repositoryPath,
+        'refs/heads/my-sdk/feature/test-01'
+      ),
+      undefined
+    );
+  });
+
+  test('rejects the invalid Jira key pattern', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions } = fixture;
+
+    await assert.rejects(
+      syncBranch({
+        ...commandOptions,
+        messageTemplates: { jiraKeyPattern: '(' },
+      }),
+      /Invalid Jira key pattern "\("/
+    );
+  });
+});
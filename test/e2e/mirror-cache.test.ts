@@ -0,0 +1,248 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { InvalidOptionsError } from '../../src/lib/errors.js';
+import { acquireFileLock } from '../../src/lib/file-lock.js';
+import { Logger } from '../../src/lib/logger.js';
+import { getMirrorPath } from '../../src/lib/mirror-cache.js';
+import { TempDir } from '../../src/lib/temp-dir.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import {
+  commitToBareRepository,
+  git,
+  readGitlink,
+} from '../fake-gitlab/git.js';
+
+describe('sync-branch with the cache directory', () => {
+  let messages: string[];
+  let logger: Logger;
+
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+
+    messages = [];
+    logger = {
+      info: (message) => messages.push(message),
+      success: (message) => messages.push(message),
+      warn: (message) => messages.push(message),
+      error: (message) => messages.push(message),
+    };
+  });
+
+  test('reuses the mirrors of the GitLab repository and the submodule across the runs', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const {
+      fakeGitlab,
+      project,
+      submoduleRepositoryPath,
+      commandOptions,
+      featureSubmoduleSHA,
+    } = fixture;
+    using cacheDir = new TempDir();
+
+    const projectMirrorPath = getMirrorPath(
+      cacheDir.path,
+      `https://${new URL(fakeGitlab.url).host}/my-team/my-app.git`
+    );
+    const submoduleMirrorPath = getMirrorPath(
+      cacheDir.path,
+      `file://${submoduleRepositoryPath}`
+    );
+
+    await syncBranch({
+      ...commandOptions,
+      syncStrategy: 'git',
+      cacheDir: cacheDir.path,
+      logger,
+    });
+
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      featureSubmoduleSHA
+    );
+    assert.ok(messages.includes(`🎋 Creating mirror "${projectMirrorPath}"`));
+    assert.ok(messages.includes(`🎋 Creating mirror "${submoduleMirrorPath}"`));
+
+    const nextSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+    messages.length = 0;
+
+    await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: nextSubmoduleSHA,
+      syncStrategy: 'git',
+      cacheDir: cacheDir.path,
+      logger,
+    });
+
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      nextSubmoduleSHA
+    );
+    assert.ok(messages.includes(`🔍 Refreshing mirror "${projectMirrorPath}"`));
+    assert.ok(
+      messages.includes(`🔍 Refreshing mirror "${submoduleMirrorPath}"`)
+    );
+
+    // the worktree is removed and the mirrors are unlocked after the sync
+    assert.equal(
+      git(projectMirrorPath, ['worktree', 'list', '--porcelain']),
+      `worktree ${projectMirrorPath}\nbare`
+    );
+    assert.equal(fs.existsSync(`${projectMirrorPath}.lock`), false);
+    assert.equal(fs.existsSync(`${submoduleMirrorPath}.lock`), false);
+  });
+
+  test('syncs the concurrent jobs one by one through the mirror lock', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const {
+      project,
+      submoduleRepositoryPath,
+      commandOptions,
+      featureSubmoduleSHA,
+    } = fixture;
+    using cacheDir = new TempDir();
+
+    const secondFeatureSubmoduleSHA = commitToBareRepository(
+      submoduleRepositoryPath,
+      {
+        branch: 'feature/test-02',
+        startPoint: 'main',
+        files: { 'index.ts': 'export const version = 2;\n' },
+        message: 'feat: add another SDK version',
+      }
+    );
+
+    await Promise.all([
+      syncBranch({
+        ...commandOptions,
+        syncStrategy: 'git',
+        cacheDir: cacheDir.path,
+        logger,
+      }),
+      syncBranch({
+        ...commandOptions,
+        githubRepositoryBranch: 'feature/test-02',
+        githubRepositorySHA: secondFeatureSubmoduleSHA,
+        syncStrategy: 'rebase',
+        cacheDir: cacheDir.path,
+        logger,
+      }),
+    ]);
+
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      featureSubmoduleSHA
+    );
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-02',
+        'packages/sdk'
+      ),
+      secondFeatureSubmoduleSHA
+    );
+    assert.ok(
+      messages.some((message) =>
+        /^⏳︎ Waiting for the lock ".+\.lock" held by another job$/.test(
+          message
+        )
+      )
+    );
+  });
+
+  test('takes over the stale lock of a killed job', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions, featureSubmoduleSHA } =
+      fixture;
+    using cacheDir = new TempDir();
+
+    const lockPath = `${getMirrorPath(
+      cacheDir.path,
+      `https://${new URL(fakeGitlab.url).host}/my-team/my-app.git`
+    )}.lock`;
+    const lockTime = new Date(Date.now() - 5 * 60 * 1000);
+
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    fs.writeFileSync(lockPath, '{}');
+    fs.utimesSync(lockPath, lockTime, lockTime);
+
+    await syncBranch({
+      ...commandOptions,
+      syncStrategy: 'git',
+      cacheDir: cacheDir.path,
+      logger,
+    });
+
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      featureSubmoduleSHA
+    );
+    assert.ok(
+      messages.includes(
+        `⚠︎ Removed the stale lock "${lockPath}" of a dead job`
+      )
+    );
+    assert.equal(fs.existsSync(lockPath), false);
+  });
+
+  test('fails before any change with the fast clone mode', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+    using cacheDir = new TempDir();
+
+    await assert.rejects(
+      syncBranch({
+        ...commandOptions,
+        syncStrategy: 'git',
+        cloneMode: 'fast',
+        cacheDir: cacheDir.path,
+        logger,
+      }),
+      InvalidOptionsError
+    );
+
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      undefined
+    );
+    assert.deepEqual(fs.readdirSync(cacheDir.path), []);
+  });
+
+  test('keeps the lock taken over by another job, when the lock is released', async () => {
+    using cacheDir = new TempDir();
+    const lockPath = path.join(cacheDir.path, 'my-app.git.lock');
+    const otherLockContent = JSON.stringify({ hostname: 'other', pid: 1 });
+
+    const lock = await acquireFileLock(lockPath, { logger });
+
+    // e.g. the job was paused longer than the stale timeout, and another job took the lock over
+    fs.writeFileSync(lockPath, otherLockContent);
+    lock[Symbol.dispose]();
+
+    assert.equal(fs.readFileSync(lockPath, 'utf8'), otherLockContent);
+    assert.deepEqual(fs.readdirSync(cacheDir.path), ['my-app.git.lock']);
+  });
+});
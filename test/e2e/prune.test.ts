@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { prune } from '../../src/commands/prune.js';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { git, resolveCommit } from '../fake-gitlab/git.js';
+
+describe('prune', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  test('closes the MR and deletes the branch of the deleted GitHub branch', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, submoduleRepositoryPath } = fixture;
+
+    await syncBranch(commandOptions);
+    git(submoduleRepositoryPath, ['branch', 'feature/test-02', 'main']);
+    await syncBranch({
+      ...commandOptions,
+      githubRepositoryBranch: 'feature/test-02',
+      githubRepositorySHA: fixture.pushSubmoduleCommit('feature/test-02'),
+    });
+    git(submoduleRepositoryPath, ['branch', '-D', 'feature/test-02']);
+
+    const result = await prune({
+      ...commandOptions,
+      githubRepositoryBranch: undefined,
+    });
+
+    assert.deepEqual(
+      result.branches.map(({ gitlabSourceBranch, reason, isSkipped }) => ({
+        gitlabSourceBranch,
+        reason,
+        isSkipped,
+      })),
+      [
+        {
+          gitlabSourceBranch: 'my-sdk/feature/test-02',
+          reason: 'missing-github-branch',
+          isSkipped: false,
+        },
+      ]
+    );
+
+    const [activeMr, prunedMr] = project.mergeRequests;
+    assert.equal(activeMr.state, 'opened');
+    assert.equal(prunedMr.state, 'closed');
+    assert.deepEqual(prunedMr.notes, [
+      'This MR is closed automatically, because the GitHub branch `feature/test-02` no longer exists.',
+    ]);
+    assert.ok(
+      resolveCommit(project.repositoryPath, 'refs/heads/my-sdk/feature/test-01')
+    );
+    assert.equal(
+      resolveCommit(
+        project.repositoryPath,
+        'refs/heads/my-sdk/feature/test-02'
+      ),
+      undefined
+    );
+  });
+
+  test('deletes the branch not synced for longer than the max age', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    process.env.GIT_COMMITTER_DATE = new Date(
+      Date.now() - 40 * 24 * 60 * 60 * 1000
+    ).toISOString();
+    await syncBranch(commandOptions);
+    delete process.env.GIT_COMMITTER_DATE;
+
+    const notStaleResult = await prune({ ...commandOptions, maxAge: 60 });
+    assert.deepEqual(notStaleResult.branches, []);
+
+    const result = await prune({ ...commandOptions, maxAge: 30 });
+
+    assert.equal(result.branches[0].reason, 'stale');
+    assert.deepEqual(result.branches[0].mergeRequestIids, [1]);
+    assert.equal(project.mergeRequests[0].state, 'closed');
+    assert.match(
+      project.mergeRequests[0].notes[0],
+      /^This MR is closed automatically, because the GitHub branch `feature\/test-01` was not synced for 30 days\.\n\nThe last sync commit was created at /
+    );
+    assert.equal(
+      resolveCommit(
+        project.repositoryPath,
+        'refs/heads/my-sdk/feature/test-01'
+      ),
+      undefined
+    );
+  });
+
+  test('keeps the branch with commits created by people', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, submoduleRepositoryPath } = fixture;
+
+    await syncBranch(commandOptions);
+    const manualCommitSHA = fixture.pushProjectCommit(
+      'my-sdk/feature/test-01',
+      { files: { 'README.md': '# My App with a manual fix\n' } }
+    );
+    git(submoduleRepositoryPath, ['branch', '-D', 'feature/test-01']);
+
+    const result = await prune(commandOptions);
+
+    assert.equal(result.branches[0].isSkipped, true);
+    assert.equal(project.mergeRequests[0].state, 'opened');
+    assert.equal(
+      resolveCommit(
+        project.repositoryPath,
+        'refs/heads/my-sdk/feature/test-01'
+      ),
+      manualCommitSHA
+    );
+  });
+
+  test('changes nothing in the dry run', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, submoduleRepositoryPath } = fixture;
+
+    await syncBranch(commandOptions);
+    git(submoduleRepositoryPath, ['branch', '-D', 'feature/test-01']);
+
+    const result = await prune({ ...commandOptions, dryRun: true });
+
+    assert.equal(result.dryRun, true);
+    assert.equal(
+      result.branches[0].gitlabSourceBranch,
+      'my-sdk/feature/test-01'
+    );
+    assert.equal(project.mergeRequests[0].state, 'opened');
+    assert.deepEqual(project.mergeRequests[0].notes, []);
+    assert.ok(
+      resolveCommit(project.repositoryPath, 'refs/heads/my-sdk/feature/test-01')
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { RebaseConflictError } from '../../src/lib/errors.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { git, readGitlink, resolveCommit } from '../fake-gitlab/git.js';
+
+describe('sync-branch with the "rebase" strategy', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  test('keeps the manual commits and rebases them onto the target branch', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await syncBranch({ ...commandOptions, syncStrategy: 'rebase' });
+
+    fixture.pushProjectCommit('my-sdk/feature/test-01', {
+      files: { 'src/sdk-fix.ts': 'export const fixed = true;\n' },
+    });
+    const targetSHA = fixture.pushProjectCommit('main', {
+      files: { 'CHANGELOG.md': '# Changelog\n' },
+    });
+    const updatedSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: updatedSubmoduleSHA,
+      syncStrategy: 'rebase',
+    });
+
+    assert.equal(result.sourceBranchAction, 'rebase');
+    assert.deepEqual(
+      git(project.repositoryPath, [
+        'log',
+        '--format=%s',
+        `${targetSHA}..my-sdk/feature/test-01`,
+      ]).split('\n'),
+      [
+        'chore: manual change',
+        "chore: update 'my-sdk' submodule to 'feature/test-01' `submodule-auto-sync`",
+      ]
+    );
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      updatedSubmoduleSHA
+    );
+    assert.equal(
+      git(project.repositoryPath, [
+        'show',
+        'my-sdk/feature/test-01:src/sdk-fix.ts',
+      ]),
+      'export const fixed = true;'
+    );
+  });
+
+  test('resets the branch without manual commits', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions } = fixture;
+
+    await syncBranch({ ...commandOptions, syncStrategy: 'rebase' });
+
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: fixture.pushSubmoduleCommit('feature/test-01'),
+      syncStrategy: 'rebase',
+    });
+
+    assert.equal(result.sourceBranchAction, 'reset');
+  });
+
+  test('aborts on the conflicting manual commit and leaves the branch untouched', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await syncBranch({ ...commandOptions, syncStrategy: 'rebase' });
+
+    const manualCommitSHA = fixture.pushProjectCommit(
+      'my-sdk/feature/test-01',
+      { files: { 'README.md': '# My App with the SDK fix\n' } }
+    );
+    fixture.pushProjectCommit('main', {
+      files: { 'README.md': '# My App renamed\n' },
+    });
+
+    await assert.rejects(
+      syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: fixture.pushSubmoduleCommit('feature/test-01'),
+        syncStrategy: 'rebase',
+      }),
+      (error) => {
+        assert.ok(error instanceof RebaseConflictError);
+        assert.equal(
+          error.message,
+          `Commit ${manualCommitSHA.slice(0, 8)} "chore: manual change" conflicts with the branch "main"`
+        );
+        assert.equal(error.commitSHA, manualCommitSHA);
+        assert.deepEqual(error.conflictedFiles, ['README.md']);
+        return true;
+      }
+    );
+
+    assert.equal(
+      resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+      manualCommitSHA
+    );
+  });
+});
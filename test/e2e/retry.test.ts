@@ -0,0 +1,195 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import { GitbeakerRequestError } from '@gitbeaker/requester-utils';
+import { createGitlabClient } from '../../src/lib/gitlab-client.js';
+import { Logger } from '../../src/lib/logger.js';
+import { RetryOptions } from '../../src/lib/retry.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { resolveCommit } from '../fake-gitlab/git.js';
+
+const retryOptions: RetryOptions = { retries: 2, minDelay: 0, maxDelay: 1000 };
+
+describe('GitLab API retries', () => {
+  let messages: string[];
+  let logger: Logger;
+
+  beforeEach(() => {
+    messages = [];
+    logger = {
+      info: (message) => messages.push(message),
+      success: (message) => messages.push(message),
+      warn: (message) => messages.push(message),
+      error: (message) => messages.push(message),
+    };
+  });
+
+  test('retries the GET request failed with HTTP 502 with the backoff', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+    const gitlab = createGitlabClient(
+      commandOptions.gitlabOptions,
+      retryOptions,
+      { logger }
+    );
+
+    fakeGitlab.failRequests(
+      {
+        method: 'GET',
+        route: 'projects/:id/repository/branches/:branch',
+        status: 502,
+      },
+      {
+        method: 'GET',
+        route: 'projects/:id/repository/branches/:branch',
+        status: 502,
+      }
+    );
+
+    const branch = await gitlab.Branches.show(
+      project.pathWithNamespace,
+      'main'
+    );
+
+    assert.equal(branch.name, 'main');
+    assert.equal(
+      fakeGitlab.requests.filter(
+        (request) => request === 'GET projects/:id/repository/branches/:branch'
+      ).length,
+      3
+    );
+    assert.deepEqual(
+      messages.map((message) => message.replace(/ in \d+\.\ds/, '')),
+      [
+        '↻ GitLab API GET projects/my-team%2Fmy-app/repository/branches/main failed with HTTP 502, retrying (1/2)',
+        '↻ GitLab API GET projects/my-team%2Fmy-app/repository/branches/main failed with HTTP 502, retrying (2/2)',
+      ]
+    );
+  });
+
+  test('retries the POST request rejected with HTTP 429 after the Retry-After delay', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+    const gitlab = createGitlabClient(
+      commandOptions.gitlabOptions,
+      retryOptions,
+      { logger }
+    );
+
+    fakeGitlab.failRequests({
+      method: 'POST',
+      route: 'projects/:id/repository/branches',
+      status: 429,
+      headers: { 'retry-after': '0' },
+    });
+
+    await gitlab.Branches.create(
+      project.pathWithNamespace,
+      'my-branch',
+      'main'
+    );
+
+    assert.ok(resolveCommit(project.repositoryPath, 'my-branch'));
+    assert.equal(
+      fakeGitlab.requests.filter(
+        (request) => request === 'POST projects/:id/repository/branches'
+      ).length,
+      2
+    );
+    assert.deepEqual(messages, [
+      '↻ GitLab API POST projects/my-team%2Fmy-app/repository/branches failed with HTTP 429, retrying in 0.0s (1/2)',
+    ]);
+  });
+
+  test('does not retry the POST request failed with HTTP 502, as it may be handled', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+    const gitlab = createGitlabClient(
+      commandOptions.gitlabOptions,
+      retryOptions,
+      { logger }
+    );
+
+    fakeGitlab.failRequests({
+      method: 'POST',
+      route: 'projects/:id/repository/branches',
+      status: 502,
+      isHandled: true,
+    });
+
+    await assert.rejects(
+      gitlab.Branches.create(project.pathWithNamespace, 'my-branch', 'main'),
+      (error) =>
+        error instanceof GitbeakerRequestError &&
+        error.cause?.response.status === 502
+    );
+
+    assert.ok(resolveCommit(project.repositoryPath, 'my-branch'));
+    assert.equal(
+      fakeGitlab.requests.filter(
+        (request) => request === 'POST projects/:id/repository/branches'
+      ).length,
+      1
+    );
+    assert.deepEqual(messages, []);
+  });
+
+  for (const status of [401, 403]) {
+    test(`does not retry the request failed with HTTP ${status}`, async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { fakeGitlab, project, commandOptions } = fixture;
+      const gitlab = createGitlabClient(
+        commandOptions.gitlabOptions,
+        retryOptions,
+        { logger }
+      );
+
+      fakeGitlab.failRequests({
+        method: 'GET',
+        route: 'projects/:id/repository/branches/:branch',
+        status,
+      });
+
+      await assert.rejects(
+        gitlab.Branches.show(project.pathWithNamespace, 'main'),
+        (error) =>
+          error instanceof GitbeakerRequestError &&
+          error.cause?.response.status === status
+      );
+
+      assert.equal(
+        fakeGitlab.requests.filter(
+          (request) =>
+            request === 'GET projects/:id/repository/branches/:branch'
+        ).length,
+        1
+      );
+      assert.deepEqual(messages, []);
+    });
+  }
+
+  test('keeps the HTTP status of the error with a malformed JSON body', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions } = fixture;
+    const gitlab = createGitlabClient(
+      commandOptions.gitlabOptions,
+      retryOptions,
+      { logger }
+    );
+
+    fakeGitlab.failRequests({
+      method: 'GET',
+      route: 'projects/:id/repository/branches/:branch',
+      status: 502,
+      body: '{"message": "502 Bad Gat',
+    });
+
+    const branch = await gitlab.Branches.show(
+      project.pathWithNamespace,
+      'main'
+    );
+
+    assert.equal(branch.name, 'main');
+    assert.equal(messages.length, 1);
+    assert.match(messages[0], /failed with HTTP 502, retrying/);
+  });
+});
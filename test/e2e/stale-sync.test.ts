@@ -0,0 +1,228 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { Logger } from '../../src/lib/logger.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { readGitlink, resolveCommit } from '../fake-gitlab/git.js';
+
+describe('sync-branch with a stale submodule SHA commit', () => {
+  let messages: string[];
+  let logger: Logger;
+
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+
+    messages = [];
+    logger = {
+      info: (message) => messages.push(message),
+      success: (message) => messages.push(message),
+      warn: (message) => messages.push(message),
+      error: (message) => messages.push(message),
+    };
+  });
+
+  for (const cloneMode of ['full', 'fast'] as const) {
+    test(`skips the ancestor of the branch submodule commit as stale in the ${cloneMode} clone mode`, async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+      // the job of the newer GitHub push is run before the delayed job of the older one
+      const newerSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+      const { mergeRequestIid } = await syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: newerSubmoduleSHA,
+        syncStrategy: 'git',
+        cloneMode,
+      });
+      const syncSHA = resolveCommit(
+        project.repositoryPath,
+        'my-sdk/feature/test-01'
+      );
+
+      const result = await syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: featureSubmoduleSHA,
+        syncStrategy: 'git',
+        cloneMode,
+        logger,
+      });
+
+      assert.equal(result.sourceBranchAction, 'stale');
+      assert.equal(result.mergeRequestAction, 'none');
+      assert.equal(result.mergeRequestIid, mergeRequestIid);
+      assert.equal(result.submodules[0].githubRepositorySHA, newerSubmoduleSHA);
+      assert.equal(
+        result.submodules[0].staleGithubRepositorySHA,
+        featureSubmoduleSHA
+      );
+      assert.equal(
+        resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+        syncSHA
+      );
+      assert.ok(
+        messages.includes(
+          `⚠︎ Submodule "my-sdk" SHA "${featureSubmoduleSHA}" is an ancestor of "${newerSubmoduleSHA}" in the sync branch, skipping it as stale`
+        )
+      );
+    });
+  }
+
+  test('skips the commit and the push, if the branch already points to the submodule commit', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    await syncBranch({ ...commandOptions, syncStrategy: 'git' });
+    const syncSHA = resolveCommit(
+      project.repositoryPath,
+      'my-sdk/feature/test-01'
+    );
+
+    const result = await syncBranch({
+      ...commandOptions,
+      syncStrategy: 'rebase',
+      logger,
+    });
+
+    assert.equal(result.sourceBranchAction, 'unchanged');
+    assert.equal(result.mergeRequestAction, 'none');
+    assert.equal(
+      resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+      syncSHA
+    );
+    assert.ok(
+      messages.includes(
+        '⚠︎ Branch related to the GitHub repository branch "feature/test-01" already points the submodules to the same SHA commits, skipping the commit and push'
+      )
+    );
+  });
+
+  for (const syncStrategy of ['git', 'api'] as const) {
+    test(`skips the commit and the push, if the target branch already points to the submodule commit with the "${syncStrategy}" strategy`, async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions, initialSubmoduleSHA } = fixture;
+
+      const result = await syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: initialSubmoduleSHA,
+        syncStrategy,
+        logger,
+      });
+
+      assert.equal(result.sourceBranchAction, 'unchanged');
+      assert.equal(result.mergeRequestAction, 'none');
+      assert.equal(result.mergeRequestIid, undefined);
+      assert.equal(project.mergeRequests.length, 0);
+      assert.equal(
+        resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+        undefined
+      );
+      assert.ok(
+        messages.some((message) =>
+          message.startsWith(
+            '⚠︎ Branch "main" already points the submodules to the same SHA commits, skipping the commit'
+          )
+        )
+      );
+    });
+  }
+
+  test('moves the submodule back with the rewind allowed', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+    const newerSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+    await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: newerSubmoduleSHA,
+      syncStrategy: 'git',
+    });
+
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: featureSubmoduleSHA,
+      syncStrategy: 'git',
+      allowRewind: true,
+    });
+
+    assert.equal(result.sourceBranchAction, 'reset');
+    assert.equal(result.mergeRequestAction, 'edit');
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      featureSubmoduleSHA
+    );
+  });
+
+  test('skips the ancestor of the branch submodule commit as stale with the "api" strategy', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+    const newerSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+    await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: newerSubmoduleSHA,
+      syncStrategy: 'api',
+    });
+    const syncSHA = resolveCommit(
+      project.repositoryPath,
+      'my-sdk/feature/test-01'
+    );
+
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: featureSubmoduleSHA,
+      syncStrategy: 'api',
+      logger,
+    });
+
+    assert.equal(result.sourceBranchAction, 'stale');
+    assert.equal(result.mergeRequestAction, 'none');
+    assert.equal(result.submodules[0].githubRepositorySHA, newerSubmoduleSHA);
+    assert.equal(
+      result.submodules[0].staleGithubRepositorySHA,
+      featureSubmoduleSHA
+    );
+    assert.equal(
+      resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+      syncSHA
+    );
+    assert.ok(
+      messages.includes(
+        `⚠︎ Submodule "my-sdk" SHA "${featureSubmoduleSHA}" is an ancestor of "${newerSubmoduleSHA}" in the sync branch, skipping it as stale`
+      )
+    );
+  });
+
+  test('moves the submodule back with the rewind allowed with the "api" strategy', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+    const newerSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+    await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: newerSubmoduleSHA,
+      syncStrategy: 'api',
+    });
+
+    const result = await syncBranch({
+      ...commandOptions,
+      githubRepositorySHA: featureSubmoduleSHA,
+      syncStrategy: 'api',
+      allowRewind: true,
+    });
+
+    assert.equal(result.sourceBranchAction, 'update');
+    assert.equal(
+      readGitlink(
+        project.repositoryPath,
+        'my-sdk/feature/test-01',
+        'packages/sdk'
+      ),
+      featureSubmoduleSHA
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { formatStatusReport, status } from '../../src/commands/status.js';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { git } from '../fake-gitlab/git.js';
+
+describe('status', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  test('reports the synced branch with its MR', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { fakeGitlab, project, commandOptions, featureSubmoduleSHA } =
+      fixture;
+
+    await syncBranch(commandOptions);
+    fakeGitlab.setPipelineStatus(project.id, 1, 'running');
+
+    const result = await status(commandOptions);
+
+    assert.equal(result.isGithubRemoteAvailable, true);
+    assert.deepEqual(result.branches, [
+      {
+        gitlabSourceBranch: 'my-sdk/feature/test-01',
+        githubRepositoryBranch: 'feature/test-01',
+        isBranchExists: true,
+        gitlinkSHA: featureSubmoduleSHA,
+        githubBranchSHA: featureSubmoduleSHA,
+        mergeRequest: {
+          iid: 1,
+          webUrl: `${fakeGitlab.url}/my-team/my-app/-/merge_requests/1`,
+          targetBranch: 'main',
+          state: 'opened',
+          pipelineStatus: 'running',
+          hasConflicts: false,
+        },
+        issues: [],
+      },
+    ]);
+  });
+
+  test('flags the drift when the GitHub branch has new commits', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions } = fixture;
+
+    await syncBranch(commandOptions);
+    const updatedSubmoduleSHA = fixture.pushSubmoduleCommit('feature/test-01');
+
+    const [branch] = (await status(commandOptions)).branches;
+
+    assert.equal(branch.githubBranchSHA, updatedSubmoduleSHA);
+    assert.deepEqual(branch.issues, ['drift']);
+  });
+
+  test('flags the orphaned branch, the missing branch and the deleted GitHub branch', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions, submoduleRepositoryPath } = fixture;
+
+    await syncBranch(commandOptions);
+    project.mergeRequests[0].state = 'closed';
+
+    git(submoduleRepositoryPath, ['branch', 'feature/test-02', 'main']);
+    await syncBranch({
+      ...commandOptions,
+      githubRepositoryBranch: 'feature/test-02',
+      githubRepositorySHA: fixture.pushSubmoduleCommit('feature/test-02'),
+    });
+    git(project.repositoryPath, [
+      'update-ref',
+      '-d',
+      'refs/heads/my-sdk/feature/test-02',
+    ]);
+    git(submoduleRepositoryPath, ['branch', '-D', 'feature/test-02']);
+
+    const result = await status({
+      ...commandOptions,
+      githubRepositoryBranch: undefined,
+    });
+
+    assert.deepEqual(
+      result.branches.map(({ gitlabSourceBranch, issues }) => ({
+        gitlabSourceBranch,
+        issues,
+      })),
+      [
+        {
+          gitlabSourceBranch: 'my-sdk/feature/test-01',
+          issues: ['orphaned-branch'],
+        },
+        {
+          gitlabSourceBranch: 'my-sdk/feature/test-02',
+          issues: ['missing-branch', 'missing-github-branch'],
+        },
+      ]
+    );
+  });
+
+  test('reports only the sync branch of the GitHub branch', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions } = fixture;
+
+    await syncBranch(commandOptions);
+
+    const result = await status({
+      ...commandOptions,
+      githubRepositoryBranch: 'feature/test-02',
+    });
+
+    assert.deepEqual(result.branches, []);
+  });
+
+  test('formats the report as a table, markdown and JSON', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { commandOptions, featureSubmoduleSHA } = fixture;
+
+    await syncBranch(commandOptions);
+    fixture.pushSubmoduleCommit('feature/test-01');
+
+    const destination = {
+      gitlabProjectId: 'my-team/my-app',
+      gitlabTargetBranch: 'main',
+      githubProjectSubmoduleName: 'my-sdk',
+    };
+    const result = await status(commandOptions);
+    const results = [
+      { destination, status: 'success' as const, result },
+      {
+        destination: { ...destination, gitlabProjectId: 'my-team/other' },
+        status: 'failure' as const,
+        error: new Error('404 Project Not Found'),
+      },
+    ];
+
+    const table = formatStatusReport(results, 'table');
+    assert.match(
+      table,
+      /^my-team\/my-app@main \(my-sdk\)\nBranch +GitHub HEAD/
+    );
+    assert.match(
+      table,
+      new RegExp(
+        `my-sdk/feature/test-01 +\\w{7} +${featureSubmoduleSHA.slice(0, 7)} +!1`
+      )
+    );
+    assert.match(table, /drift/);
+    assert.match(
+      table,
+      /my-team\/other@main \(my-sdk\)\n✖︎ 404 Project Not Found/
+    );
+
+    const markdown = formatStatusReport(results, 'markdown');
+    assert.match(
+      markdown,
+      /^### my-team\/my-app@main \(my-sdk\)\n\n\| Branch \|/
+    );
+    assert.match(
+      markdown,
+      /\| `my-sdk\/feature\/test-01` \|.*\[!1\]\(http.+\/merge_requests\/1\)/
+    );
+
+    assert.deepEqual(JSON.parse(formatStatusReport(results, 'json')), [
+      JSON.parse(JSON.stringify(result)),
+      {
+        ...destination,
+        gitlabProjectId: 'my-team/other',
+        error: '404 Project Not Found',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { SyncStrategy } from '../../src/lib/types.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { commitToBareRepository } from '../fake-gitlab/git.js';
+
+const syncStrategies: SyncStrategy[] = ['api', 'git'];
+
+for (const syncStrategy of syncStrategies) {
+  describe(`submodule changelog with the "${syncStrategy}" strategy`, () => {
+    beforeEach(() => {
+      mock.method(console, 'log', () => {});
+      mock.method(console, 'error', () => {});
+    });
+
+    test('lists the commits since the target branch gitlink and refreshes them on re-sync', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+      const result = await syncBranch({ ...commandOptions, syncStrategy });
+
+      assert.equal(result.submodules[0].changelog?.kind, 'fast-forward');
+      assert.equal(result.submodules[0].changelog?.totalCommits, 1);
+
+      const [mr] = project.mergeRequests;
+      assert.match(mr.description, /#### Changes in `my-sdk`/);
+      assert.match(
+        mr.description,
+        new RegExp(
+          `Compare \`${fixture.initialSubmoduleSHA.slice(0, 7)}\\.\\.\\.${featureSubmoduleSHA.slice(0, 7)}\``
+        )
+      );
+      assert.match(
+        mr.description,
+        new RegExp(
+          `- \`${featureSubmoduleSHA.slice(0, 7)}\` feat: add SDK version \\(Fixture Author\\)`
+        )
+      );
+
+      const updatedSubmoduleSHA =
+        fixture.pushSubmoduleCommit('feature/test-01');
+      await syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: updatedSubmoduleSHA,
+        syncStrategy,
+      });
+
+      assert.match(
+        mr.description,
+        new RegExp(
+          `- \`${updatedSubmoduleSHA.slice(0, 7)}\` feat: bump SDK version`
+        )
+      );
+      assert.match(
+        mr.description,
+        new RegExp(`- \`${featureSubmoduleSHA.slice(0, 7)}\``)
+      );
+    });
+
+    test('lists the commits since the common ancestor of the force-pushed branch', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+      fixture.pushProjectCommit('main', {
+        gitlinks: { 'packages/sdk': featureSubmoduleSHA },
+      });
+      const rewrittenSubmoduleSHA = commitToBareRepository(
+        fixture.submoduleRepositoryPath,
+        {
+          branch: 'feature/test-02',
+          startPoint: 'main',
+          files: { 'index.ts': 'export const version = 2;\n' },
+          message: 'feat: rewrite SDK version',
+        }
+      );
+
+      const result = await syncBranch({
+        ...commandOptions,
+        githubRepositoryBranch: 'feature/test-02',
+        githubRepositorySHA: rewrittenSubmoduleSHA,
+        syncStrategy,
+      });
+
+      assert.equal(result.submodules[0].changelog?.kind, 'rewritten');
+      assert.equal(result.submodules[0].changelog?.droppedCommits, 1);
+
+      const [mr] = project.mergeRequests;
+      assert.match(
+        mr.description,
+        /The new commit doesn't include 1 commit of the previous commit/
+      );
+      assert.match(mr.description, /feat: rewrite SDK version/);
+      assert.doesNotMatch(mr.description, /feat: add SDK version/);
+    });
+
+    test('reports the unrelated histories', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions } = fixture;
+
+      const orphanSubmoduleSHA = commitToBareRepository(
+        fixture.submoduleRepositoryPath,
+        {
+          branch: 'feature/test-03',
+          files: { 'index.ts': 'export const version = 3;\n' },
+          message: 'feat: orphan SDK',
+        }
+      );
+
+      const result = await syncBranch({
+        ...commandOptions,
+        githubRepositoryBranch: 'feature/test-03',
+        githubRepositorySHA: orphanSubmoduleSHA,
+        syncStrategy,
+      });
+
+      assert.equal(result.submodules[0].changelog?.kind, 'unrelated');
+      assert.match(project.mergeRequests[0].description, /unrelated histories/);
+    });
+  });
+}
+
+describe('submodule changelog with the missing previous commit', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  test('reports the previous commit is not found', async () => {
+    await using fixture = await createSubmoduleSyncFixture();
+    const { project, commandOptions } = fixture;
+
+    fixture.pushProjectCommit('main', {
+      gitlinks: { 'packages/sdk': 'f'.repeat(40) },
+    });
+
+    const result = await syncBranch({ ...commandOptions, syncStrategy: 'api' });
+
+    assert.equal(result.submodules[0].changelog?.kind, 'missing-base');
+    assert.match(
+      project.mergeRequests[0].description,
+      /The previous commit `fffffff` is not found/
+    );
+  });
+});
@@ -0,0 +1,196 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { syncBranch } from '../../src/commands/sync-branch.js';
+import { SyncStrategy } from '../../src/lib/types.js';
+import { createSubmoduleSyncFixture } from '../fake-gitlab/fixtures.js';
+import { git, readGitlink, resolveCommit } from '../fake-gitlab/git.js';
+
+const syncStrategies: SyncStrategy[] = ['api', 'git'];
+
+for (const syncStrategy of syncStrategies) {
+  describe(`sync-branch with the "${syncStrategy}" strategy`, () => {
+    beforeEach(() => {
+      mock.method(console, 'log', () => {});
+      mock.method(console, 'error', () => {});
+    });
+
+    test('creates the branch and the MR', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+      const result = await syncBranch({ ...commandOptions, syncStrategy });
+
+      assert.equal(result.sourceBranchAction, 'create');
+      assert.equal(result.mergeRequestAction, 'create');
+      assert.equal(result.mergeRequestIid, 1);
+      assert.equal(result.mergeRequestState, 'opened');
+      assert.deepEqual(result.submodules[0], {
+        githubProjectSubmoduleName: 'my-sdk',
+        githubRepositoryBranch: 'feature/test-01',
+        githubRepositorySHA: featureSubmoduleSHA,
+        previousGithubRepositorySHA: fixture.initialSubmoduleSHA,
+        changelog: {
+          kind: 'fast-forward',
+          previousSHA: fixture.initialSubmoduleSHA,
+          sha: featureSubmoduleSHA,
+          commits: [
+            {
+              sha: featureSubmoduleSHA,
+              author: 'Fixture Author',
+              subject: 'feat: add SDK version',
+            },
+          ],
+          totalCommits: 1,
+          droppedCommits: 0,
+          repositoryWebUrl: undefined,
+        },
+      });
+
+      assert.equal(
+        readGitlink(
+          project.repositoryPath,
+          'my-sdk/feature/test-01',
+          'packages/sdk'
+        ),
+        featureSubmoduleSHA
+      );
+
+      const [mr] = project.mergeRequests;
+      assert.equal(mr.sourceBranch, 'my-sdk/feature/test-01');
+      assert.equal(mr.targetBranch, 'main');
+      assert.equal(
+        mr.title,
+        "chore(my-sdk): update submodule to 'feature/test-01'"
+      );
+      assert.equal(mr.forceRemoveSourceBranch, true);
+    });
+
+    test('resets the branch and edits the existing MR on update', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions } = fixture;
+
+      await syncBranch({ ...commandOptions, syncStrategy });
+
+      // the target branch is moved since the sync, so the branch is reset onto it by every strategy
+      const targetSHA = fixture.pushProjectCommit('main', {
+        files: { 'CHANGELOG.md': '# Changelog\n' },
+      });
+      const updatedSubmoduleSHA =
+        fixture.pushSubmoduleCommit('feature/test-01');
+      const result = await syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: updatedSubmoduleSHA,
+        syncStrategy,
+      });
+
+      assert.equal(result.sourceBranchAction, 'reset');
+      assert.equal(result.mergeRequestAction, 'edit');
+      assert.equal(result.mergeRequestIid, 1);
+      assert.equal(project.mergeRequests.length, 1);
+      assert.match(
+        project.mergeRequests[0].description,
+        new RegExp(updatedSubmoduleSHA)
+      );
+
+      assert.equal(
+        readGitlink(
+          project.repositoryPath,
+          'my-sdk/feature/test-01',
+          'packages/sdk'
+        ),
+        updatedSubmoduleSHA
+      );
+      assert.equal(
+        git(project.repositoryPath, ['rev-parse', 'my-sdk/feature/test-01^']),
+        targetSHA
+      );
+    });
+
+    test('keeps the branch, if it already points to the submodule commit', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions } = fixture;
+
+      await syncBranch({ ...commandOptions, syncStrategy });
+      const syncSHA = resolveCommit(
+        project.repositoryPath,
+        'my-sdk/feature/test-01'
+      );
+
+      const result = await syncBranch({ ...commandOptions, syncStrategy });
+
+      assert.equal(result.sourceBranchAction, 'unchanged');
+      assert.equal(result.mergeRequestAction, 'none');
+      assert.equal(
+        resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+        syncSHA
+      );
+    });
+
+    test('rejects the branch with manual commits', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions } = fixture;
+
+      await syncBranch({ ...commandOptions, syncStrategy });
+
+      const manualCommitSHA = fixture.pushProjectCommit(
+        'my-sdk/feature/test-01',
+        {
+          files: { 'README.md': '# My App with manual changes\n' },
+        }
+      );
+
+      await assert.rejects(
+        syncBranch({ ...commandOptions, syncStrategy }),
+        /has commits without 'submodule-auto-sync' in the commit message/
+      );
+
+      assert.equal(
+        resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+        manualCommitSHA
+      );
+    });
+
+    test('resolves the missing SHA from the submodule branch HEAD', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions, featureSubmoduleSHA } = fixture;
+
+      const result = await syncBranch({
+        ...commandOptions,
+        githubRepositorySHA: '',
+        syncStrategy,
+      });
+
+      assert.equal(
+        result.submodules[0].githubRepositorySHA,
+        featureSubmoduleSHA
+      );
+      assert.equal(
+        readGitlink(
+          project.repositoryPath,
+          'my-sdk/feature/test-01',
+          'packages/sdk'
+        ),
+        featureSubmoduleSHA
+      );
+    });
+
+    test('does not change the repository and MRs in the dry run', async () => {
+      await using fixture = await createSubmoduleSyncFixture();
+      const { project, commandOptions } = fixture;
+
+      const result = await syncBranch({
+        ...commandOptions,
+        syncStrategy,
+        dryRun: true,
+      });
+
+      assert.equal(result.dryRun, true);
+      assert.equal(result.mergeRequestIid, undefined);
+      assert.equal(
+        resolveCommit(project.repositoryPath, 'my-sdk/feature/test-01'),
+        undefined
+      );
+      assert.equal(project.mergeRequests.length, 0);
+    });
+  });
+}
@@ -0,0 +1,152 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { TempDir } from '../../src/lib/temp-dir.js';
+import type { BaseCommandOptions } from '../../src/lib/types.js';
+import { commitToBareRepository, git } from './git.js';
+import { FakeGitlab, FakeGitlabProject, startFakeGitlab } from './server.js';
+
+export interface SubmoduleSyncFixture extends AsyncDisposable {
+  fakeGitlab: FakeGitlab;
+
+  /** GitLab project with the `my-sdk` submodule at `packages/sdk` */
+  project: FakeGitlabProject;
+
+  /** Bare repository of the submodule, which stands for the GitHub repository */
+  submoduleRepositoryPath: string;
+
+  /** SHA of the submodule `main` branch, the superproject `main` points to it */
+  initialSubmoduleSHA: string;
+
+  /** SHA of the submodule `feature/test-01` branch HEAD */
+  featureSubmoduleSHA: string;
+
+  /** Command options to sync the `feature/test-01` branch into the project `main` branch */
+  commandOptions: BaseCommandOptions;
+
+  /**
+   * Pushes a new commit to the submodule branch, as if it's pushed to GitHub
+   *
+   * @param branch Submodule branch
+   * @returns SHA of the new commit
+   */
+  pushSubmoduleCommit(branch: string): string;
+
+  /**
+   * Pushes a commit to the project branch, as if it's pushed by a developer
+   *
+   * @param branch Project branch
+   * @param files Files to change, path to content
+   * @param gitlinks Submodule pointers to change, path to SHA
+   * @returns SHA of the new commit
+   */
+  pushProjectCommit(
+    branch: string,
+    changes: {
+      files?: Record<string, string>;
+      gitlinks?: Record<string, string>;
+    }
+  ): string;
+}
+
+/**
+ * Starts the fake GitLab with the `my-team/my-app` project,
+ * which has the `my-sdk` submodule pointing to the local bare repository with the `feature/test-01` branch.
+ * The Git config environment variables are applied to the `process.env` until the fixture is disposed
+ */
+export async function createSubmoduleSyncFixture(): Promise<SubmoduleSyncFixture> {
+  const reposDir = new TempDir();
+  const fakeGitlab = await startFakeGitlab({ reposDir: reposDir.path });
+  const previousEnv = { ...process.env };
+
+  Object.assign(process.env, fakeGitlab.gitEnv);
+
+  const submoduleRepositoryPath = path.join(
+    reposDir.path,
+    'github',
+    'my-sdk.git'
+  );
+
+  fs.mkdirSync(submoduleRepositoryPath, { recursive: true });
+  git(submoduleRepositoryPath, [
+    'init',
+    '--bare',
+    '--quiet',
+    '--initial-branch=main',
+  ]);
+  git(submoduleRepositoryPath, ['config', 'uploadpack.allowFilter', 'true']);
+
+  const initialSubmoduleSHA = commitToBareRepository(submoduleRepositoryPath, {
+    branch: 'main',
+    files: { 'README.md': '# My SDK\n' },
+    message: 'feat: initial SDK',
+  });
+
+  const featureSubmoduleSHA = commitToBareRepository(submoduleRepositoryPath, {
+    branch: 'feature/test-01',
+    startPoint: 'main',
+    files: { 'index.ts': 'export const version = 1;\n' },
+    message: 'feat: add SDK version',
+  });
+
+  const project = fakeGitlab.createProject('my-team/my-app');
+
+  commitToBareRepository(project.repositoryPath, {
+    branch: 'main',
+    files: {
+      'README.md': '# My App\n',
+      '.gitmodules': [
+        '[submodule "my-sdk"]',
+        '\tpath = packages/sdk',
+        `\turl = file://${submoduleRepositoryPath}`,
+        '',
+      ].join('\n'),
+    },
+    gitlinks: { 'packages/sdk': initialSubmoduleSHA },
+    message: 'feat: initial app',
+  });
+
+  return {
+    fakeGitlab,
+    project,
+    submoduleRepositoryPath,
+    initialSubmoduleSHA,
+    featureSubmoduleSHA,
+    commandOptions: {
+      gitlabProjectId: project.pathWithNamespace,
+      gitlabTargetBranch: 'main',
+      githubRepositoryBranch: 'feature/test-01',
+      githubRepositorySHA: featureSubmoduleSHA,
+      githubProjectSubmoduleName: 'my-sdk',
+      gitlabOptions: { host: fakeGitlab.url, token: fakeGitlab.token },
+      retryOptions: { retries: 0, minDelay: 0, maxDelay: 0 },
+    },
+
+    pushSubmoduleCommit(branch) {
+      return commitToBareRepository(submoduleRepositoryPath, {
+        branch,
+        files: { 'index.ts': `export const version = ${Date.now()};\n` },
+        message: 'feat: bump SDK version',
+      });
+    },
+
+    pushProjectCommit(branch, { files, gitlinks }) {
+      return commitToBareRepository(project.repositoryPath, {
+        branch,
+        files,
+        gitlinks,
+        message: 'chore: manual change',
+      });
+    },
+
+    async [Symbol.asyncDispose]() {
+      await fakeGitlab.close();
+
+      for (const key of Object.keys(fakeGitlab.gitEnv)) {
+        if (key in previousEnv) process.env[key] = previousEnv[key];
+        else delete process.env[key];
+      }
+
+      reposDir[Symbol.dispose]();
+    },
+  };
+}
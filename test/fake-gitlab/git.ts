@@ -0,0 +1,170 @@
+import { execFileSync } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+/** Author and committer of the fixture commits, so the tests don't depend on the global Git config */
+const gitIdentityEnv = {
+  GIT_AUTHOR_NAME: 'Fixture Author',
+  GIT_AUTHOR_EMAIL: 'fixture@example.com',
+  GIT_COMMITTER_NAME: 'Fixture Author',
+  GIT_COMMITTER_EMAIL: 'fixture@example.com',
+};
+
+/**
+ * Runs the Git command synchronously
+ *
+ * @param cwd Working directory, or the bare repository path
+ * @param args Git arguments
+ * @param env Additional environment variables, e.g. `GIT_INDEX_FILE`
+ * @param input Data written to the Git stdin
+ * @returns Trimmed stdout
+ */
+export function git(
+  cwd: string,
+  args: string[],
+  { env = {}, input }: { env?: Record<string, string>; input?: string } = {}
+) {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf8',
+    input,
+    env: { ...process.env, ...gitIdentityEnv, ...env },
+    stdio: ['pipe', 'pipe', 'pipe'],
+  }).trim();
+}
+
+/**
+ * Runs the Git command, returning `undefined` instead of throwing, if it fails
+ *
+ * @param cwd Working directory, or the bare repository path
+ * @param args Git arguments
+ * @param options Additional environment variables and stdin data
+ */
+export function tryGit(
+  cwd: string,
+  args: string[],
+  options?: Parameters<typeof git>[2]
+) {
+  try {
+    return git(cwd, args, options);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves the branch name or SHA to the commit SHA in the repository
+ *
+ * @param repositoryPath Bare repository path
+ * @param ref Branch name or SHA
+ * @returns Commit SHA, `undefined` if the ref doesn't exist
+ */
+export function resolveCommit(repositoryPath: string, ref: string) {
+  return tryGit(repositoryPath, [
+    'rev-parse',
+    '--verify',
+    '-q',
+    `${ref}^{commit}`,
+  ]);
+}
+
+/**
+ * Creates the commit in the bare repository without a working tree,
+ * the same way GitLab does for the commits created through the API
+ *
+ * @param repositoryPath Bare repository path
+ * @param branch Branch to commit to, it's created if it doesn't exist
+ * @param startPoint Branch or SHA to create the missing branch from, an orphan commit is created without it
+ * @param files Files to add or replace, path to content
+ * @param gitlinks Submodule pointers to add or replace, path to SHA
+ * @param message Commit message
+ * @returns SHA of the new commit
+ */
+export function commitToBareRepository(
+  repositoryPath: string,
+  {
+    branch,
+    startPoint,
+    files = {},
+    gitlinks = {},
+    message,
+  }: {
+    branch: string;
+    startPoint?: string;
+    files?: Record<string, string>;
+    gitlinks?: Record<string, string>;
+    message: string;
+  }
+) {
+  const parent =
+    resolveCommit(repositoryPath, branch) ??
+    (startPoint && resolveCommit(repositoryPath, startPoint));
+  const indexFile = path.join(os.tmpdir(), `fake-gitlab-index-${randomUUID()}`);
+  const env = { GIT_INDEX_FILE: indexFile };
+
+  try {
+    git(repositoryPath, ['read-tree', parent ?? '--empty'], { env });
+
+    for (const [filePath, content] of Object.entries(files)) {
+      const blob = git(repositoryPath, ['hash-object', '-w', '--stdin'], {
+        input: content,
+      });
+
+      git(
+        repositoryPath,
+        ['update-index', '--add', '--cacheinfo', `100644,${blob},${filePath}`],
+        { env }
+      );
+    }
+
+    for (const [gitlinkPath, sha] of Object.entries(gitlinks)) {
+      git(
+        repositoryPath,
+        [
+          'update-index',
+          '--add',
+          '--cacheinfo',
+          `160000,${sha},${gitlinkPath}`,
+        ],
+        { env }
+      );
+    }
+
+    const tree = git(repositoryPath, ['write-tree'], { env });
+    const commit = git(repositoryPath, [
+      'commit-tree',
+      tree,
+      ...(parent ? ['-p', parent] : []),
+      '-m',
+      message,
+    ]);
+
+    git(repositoryPath, ['update-ref', `refs/heads/${branch}`, commit]);
+
+    return commit;
+  } finally {
+    fs.rmSync(indexFile, { force: true });
+  }
+}
+
+/**
+ * Reads the submodule pointer from the tree of the ref
+ *
+ * @param repositoryPath Bare repository path
+ * @param ref Branch name or SHA
+ * @param gitlinkPath Submodule path
+ * @returns SHA the submodule points to, `undefined` if it's not a submodule
+ */
+export function readGitlink(
+  repositoryPath: string,
+  ref: string,
+  gitlinkPath: string
+) {
+  const [mode, , sha] =
+    tryGit(repositoryPath, ['ls-tree', ref, '--', gitlinkPath])?.split(/\s+/) ??
+    [];
+
+  return mode === '160000' ? sha : undefined;
+}
@@ -0,0 +1,1303 @@
+import { execFileSync } from 'node:child_process';
+import { once } from 'node:events';
+import fs from 'node:fs';
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import path from 'node:path';
+import {
+  commitToBareRepository,
+  git,
+  readGitlink,
+  resolveCommit,
+  tryGit,
+} from './git.js';
+
+/** Pipeline statuses the fake GitLab can report for the MR head pipeline */
+export type FakePipelineStatus = 'running' | 'success' | 'failed' | 'canceled';
+
+export interface FakeJob {
+  name: string;
+  stage: string;
+  allowFailure?: boolean;
+  failureReason?: string;
+}
+
+export interface FakePipeline {
+  id: number;
+  status: FakePipelineStatus;
+
+  /** Jobs returned by the `scope=failed` jobs request */
+  failedJobs: FakeJob[];
+}
+
+export interface FakeMergeRequest {
+  iid: number;
+  title: string;
+  description: string;
+  sourceBranch: string;
+  targetBranch: string;
+  state: 'opened' | 'closed' | 'merged';
+
+  /** Source branch HEAD, refreshed on every read until the MR is merged */
+  sha: string;
+  mergeWhenPipelineSucceeds: boolean;
+  forceRemoveSourceBranch: boolean;
+  mergeCommitSha: string | undefined;
+  mergeCommitMessage: string | undefined;
+  pipeline: FakePipeline | undefined;
+  notes: string[];
+  labels: string[];
+  assigneeIds: number[];
+  reviewerIds: number[];
+  milestoneId: number | undefined;
+  squash: boolean;
+}
+
+export interface FakeUser {
+  id: number;
+  username: string;
+}
+
+export interface FakeMilestone {
+  id: number;
+  title: string;
+}
+
+/** Failure returned by the fake GitLab instead of the API response */
+export interface FakeFailure {
+  /** HTTP method of the failed request, e.g. `GET` */
+  method: string;
+
+  /** Route pattern of the failed request, e.g. `projects/:id/merge_requests` */
+  route: string;
+
+  /** HTTP status of the failure, e.g. `502` */
+  status: number;
+
+  /** Response headers, e.g. `Retry-After` */
+  headers?: Record<string, string>;
+
+  /** Raw response body sent as `application/json`, the GitLab error message by default */
+  body?: string;
+
+  /** Handle the request before the failure is sent, as if the response is lost on the way back */
+  isHandled?: boolean;
+}
+
+export interface FakeGitlabProject {
+  id: number;
+  pathWithNamespace: string;
+
+  /** Bare repository path, cloned by the `git` sync strategy through the `gitEnv` URL rewrite */
+  repositoryPath: string;
+  defaultBranch: string;
+  mergeRequests: FakeMergeRequest[];
+  milestones: FakeMilestone[];
+}
+
+export interface FakeGitlab extends AsyncDisposable {
+  /** GitLab host to pass as `gitlabOptions.host` */
+  url: string;
+
+  /** The only token accepted in the `PRIVATE-TOKEN`, `JOB-TOKEN` or `Authorization: Bearer` header */
+  token: string;
+
+  /**
+   * Git config environment variables which rewrite the GitLab clone URLs to the local bare repositories
+   * and allow the `file://` submodules
+   */
+  gitEnv: Record<string, string>;
+
+  /**
+   * Creates the project with the empty bare repository
+   *
+   * @param pathWithNamespace Project path, e.g. `my-team/my-app`
+   * @param defaultBranch Default branch name
+   */
+  createProject(
+    pathWithNamespace: string,
+    options?: { defaultBranch?: string }
+  ): FakeGitlabProject;
+
+  /**
+   * Finds the project by its ID or path
+   *
+   * @param projectId Project ID or path, e.g. `1` or `my-team/my-app`
+   */
+  getProject(projectId: string | number): FakeGitlabProject;
+
+  /**
+   * Creates the user returned by the users API
+   *
+   * @param username GitLab username
+   */
+  createUser(username: string): FakeUser;
+
+  /**
+   * Creates the project milestone
+   *
+   * @param projectId Project ID or path
+   * @param title Milestone title
+   */
+  createMilestone(projectId: string | number, title: string): FakeMilestone;
+
+  /**
+   * Creates or updates the MR head pipeline.
+   * A succeeded pipeline merges the MR set to merge when the pipeline succeeds,
+   * a failed or canceled one cancels the auto-merge, the same way as GitLab does
+   *
+   * @param projectId Project ID or path
+   * @param mergeRequestIid MR IID
+   * @param status New pipeline status
+   * @param failedJobs Jobs reported as failed
+   */
+  setPipelineStatus(
+    projectId: string | number,
+    mergeRequestIid: number,
+    status: FakePipelineStatus,
+    failedJobs?: FakeJob[]
+  ): void;
+
+  /**
+   * Adds the public key, which verifies the commit signatures in the signature API,
+   * as if it's added to the account of the committer
+   *
+   * @param publicKey ASCII-armored GPG public key, or SSH public key
+   */
+  addSigningKey(publicKey: string): void;
+
+  /**
+   * Fails the next requests matching the failures, every failure is returned once in the order of the calls
+   *
+   * @param failures Failures to return
+   */
+  failRequests(...failures: FakeFailure[]): void;
+
+  /** Requests received by the API routes, e.g. `GET projects/:id/merge_requests` */
+  requests: string[];
+
+  close(): Promise<void>;
+}
+
+/** Error which is sent as the GitLab API error response */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+}
+
+type Route = [
+  method: string,
+  pattern: string,
+  handler: (context: RouteContext) => { status?: number; body?: unknown },
+];
+
+/**
+ * Starts the in-process HTTP server which implements the subset of the GitLab REST API used by the commands.
+ * The project repositories are bare Git repositories in the `reposDir`,
+ * which are changed by the API requests the same way GitLab changes them
+ *
+ * @param reposDir Directory to create the bare repositories in
+ * @param token Access token accepted by the server
+ * @param username Username of the token owner
+ */
+export async function startFakeGitlab({
+  reposDir,
+  token = 'fake-gitlab-token',
+  username = 'fake-gitlab-user',
+}: {
+  reposDir: string;
+  token?: string;
+  username?: string;
+}): Promise<FakeGitlab> {
+  const projects: FakeGitlabProject[] = [];
+  const users: FakeUser[] = [];
+  const failures: FakeFailure[] = [];
+  const requests: string[] = [];
+  let nextPipelineId = 1;
+  let nextMilestoneId = 1;
+
+  const server = http.createServer((request, response) => {
+    handleRequest(request, response).catch((error: unknown) => {
+      sendJson(response, 500, { message: String(error) });
+    });
+  });
+
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+
+  // the added signing keys, GitLab verifies the signatures with the keys of the committer account
+  const allowedSignersPath = path.join(reposDir, 'allowed-signers');
+  const gnupgHome = path.join(reposDir, 'gnupg');
+
+  const getProject = (projectId: string | number) => {
+    const project = projects.find(
+      ({ id, pathWithNamespace }) =>
+        String(id) === String(projectId) || pathWithNamespace === projectId
+    );
+
+    if (!project) throw new HttpError(404, '404 Project Not Found');
+
+    return project;
+  };
+
+  const getProjectWebUrl = (project: FakeGitlabProject) =>
+    `${url}/${project.pathWithNamespace}`;
+
+  const getMergeRequest = (
+    project: FakeGitlabProject,
+    iid: string | number
+  ) => {
+    const mr = project.mergeRequests.find((mr) => mr.iid === Number(iid));
+
+    if (!mr) throw new HttpError(404, '404 Not found');
+
+    return mr;
+  };
+
+  const getBranchSHA = (project: FakeGitlabProject, branch: string) =>
+    resolveCommit(project.repositoryPath, `refs/heads/${branch}`);
+
+  const serializeBranch = (project: FakeGitlabProject, branch: string) => {
+    const sha = getBranchSHA(project, branch);
+
+    if (!sha) throw new HttpError(404, '404 Branch Not Found');
+
+    return {
+      name: branch,
+      commit: serializeCommit(project.repositoryPath, sha),
+      merged: false,
+      protected: false,
+      default: branch === project.defaultBranch,
+      web_url: `${getProjectWebUrl(project)}/-/tree/${branch}`,
+    };
+  };
+
+  const serializePipeline = (
+    project: FakeGitlabProject,
+    mr: FakeMergeRequest
+  ) =>
+    mr.pipeline
+      ? {
+          id: mr.pipeline.id,
+          iid: mr.pipeline.id,
+          project_id: project.id,
+          sha: mr.sha,
+          ref: mr.sourceBranch,
+          status: mr.pipeline.status,
+          web_url: `${getProjectWebUrl(project)}/-/pipelines/${mr.pipeline.id}`,
+        }
+      : null;
+
+  const serializeMergeRequest = (
+    project: FakeGitlabProject,
+    mr: FakeMergeRequest
+  ) => {
+    if (mr.state === 'opened')
+      mr.sha = getBranchSHA(project, mr.sourceBranch) ?? mr.sha;
+
+    const hasConflicts =
+      mr.state === 'opened' && mergeBranches(project, mr).hasConflicts;
+
+    const pipeline = serializePipeline(project, mr);
+
+    return {
+      id: project.id * 1000 + mr.iid,
+      iid: mr.iid,
+      project_id: project.id,
+      title: mr.title,
+      description: mr.description,
+      state: mr.state,
+      source_branch: mr.sourceBranch,
+      target_branch: mr.targetBranch,
+      sha: mr.sha,
+      merge_commit_sha: mr.mergeCommitSha ?? null,
+      has_conflicts: hasConflicts,
+      merge_status: hasConflicts ? 'cannot_be_merged' : 'can_be_merged',
+      detailed_merge_status: hasConflicts
+        ? 'conflict'
+        : mr.pipeline && mr.pipeline.status !== 'success'
+          ? 'ci_must_pass'
+          : 'mergeable',
+      merge_when_pipeline_succeeds: mr.mergeWhenPipelineSucceeds,
+      force_remove_source_branch: mr.forceRemoveSourceBranch,
+      draft: /^\s*(\[draft\]|\(draft\)|draft:)/i.test(mr.title),
+      labels: mr.labels,
+      assignees: mr.assigneeIds.map(serializeUser),
+      reviewers: mr.reviewerIds.map(serializeUser),
+      milestone:
+        project.milestones.find(({ id }) => id === mr.milestoneId) ?? null,
+      squash: mr.squash,
+      head_pipeline: pipeline,
+      pipeline,
+      web_url: `${getProjectWebUrl(project)}/-/merge_requests/${mr.iid}`,
+    };
+  };
+
+  const serializeUser = (userId: number) => {
+    const user = users.find(({ id }) => id === userId);
+
+    return { id: userId, username: user?.username ?? `user-${userId}` };
+  };
+
+  /**
+   * Merges the MR source branch into the target branch without a working tree
+   *
+   * @param project Project of the MR
+   * @param mr MR to merge
+   * @param commit Create the merge commit and move the target branch to it
+   */
+  const mergeBranches = (
+    project: FakeGitlabProject,
+    mr: FakeMergeRequest,
+    { commit = false } = {}
+  ) => {
+    const targetSHA = getBranchSHA(project, mr.targetBranch);
+
+    if (!targetSHA) return { hasConflicts: false };
+
+    const { tree, hasConflicts } = mergeTree(
+      project.repositoryPath,
+      targetSHA,
+      mr.sha
+    );
+
+    if (!commit || hasConflicts) return { hasConflicts };
+
+    const mergeCommitSha = git(project.repositoryPath, [
+      'commit-tree',
+      tree,
+      '-p',
+      targetSHA,
+      '-p',
+      mr.sha,
+      '-m',
+      mr.mergeCommitMessage ??
+        `Merge branch '${mr.sourceBranch}' into '${mr.targetBranch}'`,
+    ]);
+
+    git(project.repositoryPath, [
+      'update-ref',
+      `refs/heads/${mr.targetBranch}`,
+      mergeCommitSha,
+      targetSHA,
+    ]);
+
+    mr.state = 'merged';
+    mr.mergeCommitSha = mergeCommitSha;
+    mr.mergeWhenPipelineSucceeds = false;
+
+    if (mr.forceRemoveSourceBranch)
+      git(project.repositoryPath, [
+        'update-ref',
+        '-d',
+        `refs/heads/${mr.sourceBranch}`,
+      ]);
+
+    return { hasConflicts };
+  };
+
+  const routes: Route[] = [
+    [
+      'GET',
+      'user',
+      () => ({
+        body: {
+          id: 1,
+          username,
+          name: 'Fake GitLab User',
+          email: `${username}@example.com`,
+          state: 'active',
+        },
+      }),
+    ],
+    [
+      'GET',
+      'users',
+      ({ query }) => ({
+        body: users.filter(
+          (user) =>
+            !query.get('username') || user.username === query.get('username')
+        ),
+      }),
+    ],
+    [
+      'GET',
+      'projects/:id/milestones',
+      ({ params, query }) => ({
+        body: getProject(params.id).milestones.filter(
+          (milestone) =>
+            !query.get('title') || milestone.title === query.get('title')
+        ),
+      }),
+    ],
+    [
+      'GET',
+      'projects/:id',
+      ({ params }) => {
+        const project = getProject(params.id);
+
+        return {
+          body: {
+            id: project.id,
+            path_with_namespace: project.pathWithNamespace,
+            default_branch: project.defaultBranch,
+            web_url: getProjectWebUrl(project),
+            http_url_to_repo: `${getProjectWebUrl(project)}.git`,
+          },
+        };
+      },
+    ],
+    [
+      'GET',
+      'projects/:id/repository/branches/:branch',
+      ({ params }) => ({
+        body: serializeBranch(getProject(params.id), params.branch),
+      }),
+    ],
+    [
+      'GET',
+      'projects/:id/repository/branches',
+      ({ params, query }) => {
+        const project = getProject(params.id);
+        const search = query.get('search') ?? '';
+        const branches = git(project.repositoryPath, [
+          'for-each-ref',
+          '--format=%(refname:strip=2)',
+          'refs/heads/',
+        ])
+          .split('\n')
+          .filter(Boolean);
+
+        // `^` and `$` anchor the search the same way as in GitLab
+        const matchesSearch = (branch: string) =>
+          search.startsWith('^')
+            ? branch.startsWith(search.slice(1))
+            : search.endsWith('$')
+              ? branch.endsWith(search.slice(0, -1))
+              : branch.includes(search);
+
+        return {
+          body: branches
+            .filter(matchesSearch)
+            .map((branch) => serializeBranch(project, branch)),
+        };
+      },
+    ],
+    [
+      'POST',
+      'projects/:id/repository/branches',
+      ({ params, body }) => {
+        const project = getProject(params.id);
+        const branch = String(body.branch);
+
+        if (getBranchSHA(project, branch))
+          throw new HttpError(400, 'Branch already exists');
+
+        const sha = resolveCommit(project.repositoryPath, String(body.ref));
+
+        if (!sha) throw new HttpError(400, 'Invalid reference name');
+
+        git(project.repositoryPath, [
+          'update-ref',
+          `refs/heads/${branch}`,
+          sha,
+        ]);
+
+        return { status: 201, body: serializeBranch(project, branch) };
+      },
+    ],
+    [
+      'DELETE',
+      'projects/:id/repository/branches/:branch',
+      ({ params }) => {
+        const project = getProject(params.id);
+
+        if (!getBranchSHA(project, params.branch))
+          throw new HttpError(404, '404 Branch Not Found');
+
+        git(project.repositoryPath, [
+          'update-ref',
+          '-d',
+          `refs/heads/${params.branch}`,
+        ]);
+
+        return { status: 204 };
+      },
+    ],
+    [
+      'GET',
+      'projects/:id/repository/files/:filePath/raw',
+      ({ params, query }) => {
+        const project = getProject(params.id);
+        const ref = query.get('ref') ?? project.defaultBranch;
+
+        try {
+          return {
+            body: git(project.repositoryPath, [
+              'show',
+              `${ref}:${params.filePath}`,
+            ]),
+          };
+        } catch {
+          throw new HttpError(404, '404 File Not Found');
+        }
+      },
+    ],
+    [
+      'GET',
+      'projects/:id/repository/tree',
+      ({ params, query }) => {
+        const project = getProject(params.id);
+        const ref = query.get('ref') ?? project.defaultBranch;
+        const treePath = query.get('path');
+
+        if (!resolveCommit(project.repositoryPath, ref))
+          throw new HttpError(404, '404 Tree Not Found');
+
+        const lines = git(project.repositoryPath, [
+          'ls-tree',
+          ref,
+          ...(treePath ? ['--', `${treePath}/`] : []),
+        ]);
+
+        return {
+          body: lines
+            .split('\n')
+            .filter(Boolean)
+            .map((line) => {
+              const [info, itemPath] = line.split('\t');
+              const [mode, type, id] = info.split(' ');
+
+              return {
+                id,
+                name: path.posix.basename(itemPath),
+                type,
+                path: itemPath,
+                mode,
+              };
+            }),
+        };
+      },
+    ],
+    [
+      'PUT',
+      'projects/:id/repository/submodules/:submodulePath',
+      ({ params, body }) => {
+        const project = getProject(params.id);
+        const branch = String(body.branch);
+        const commitSHA = String(body.commit_sha);
+
+        if (!getBranchSHA(project, branch))
+          throw new HttpError(
+            400,
+            'You can only create or edit files when you are on a branch'
+          );
+
+        const currentSHA = readGitlink(
+          project.repositoryPath,
+          branch,
+          params.submodulePath
+        );
+
+        if (!currentSHA) throw new HttpError(400, 'Invalid submodule path');
+
+        if (currentSHA === commitSHA)
+          throw new HttpError(400, 'The submodule is already at that commit');
+
+        const commit = commitToBareRepository(project.repositoryPath, {
+          branch,
+          gitlinks: { [params.submodulePath]: commitSHA },
+          message:
+            (body.commit_message as string | undefined) ??
+            `Update submodule ${params.submodulePath} with oid ${commitSHA}`,
+        });
+
+        return { body: serializeCommit(project.repositoryPath, commit) };
+      },
+    ],
+    [
+      'GET',
+      'projects/:id/repository/commits/:sha/signature',
+      ({ params }) => {
+        const project = getProject(params.id);
+        const commit = tryGit(project.repositoryPath, [
+          'cat-file',
+          'commit',
+          params.sha,
+        ]);
+
+        if (!commit?.includes('\ngpgsig '))
+          throw new HttpError(404, '404 Signature Not Found');
+
+        const isVerified =
+          tryGit(
+            project.repositoryPath,
+            [
+              '-c',
+              `gpg.ssh.allowedSignersFile=${allowedSignersPath}`,
+              'verify-commit',
+              params.sha,
+            ],
+            { env: { GNUPGHOME: gnupgHome } }
+          ) !== undefined;
+
+        return {
+          body: {
+            signature_type: commit.includes('BEGIN SSH SIGNATURE')
+              ? 'SSH'
+              : 'PGP',
+            verification_status: isVerified ? 'verified' : 'unverified',
+            commit_source: 'gitaly',
+          },
+        };
+      },
+    ],
+    [
+      'GET',
+      'projects/:id/repository/commits',
+      ({ params, query }) => {
+        const project = getProject(params.id);
+        const refName = query.get('ref_name') ?? project.defaultBranch;
+
+        try {
+          const shas = git(project.repositoryPath, ['rev-list', refName, '--']);
+
+          return {
+            body: shas
+              .split('\n')
+              .filter(Boolean)
+              .map((sha) => serializeCommit(project.repositoryPath, sha)),
+          };
+        } catch {
+          throw new HttpError(404, '404 Reference Not Found');
+        }
+      },
+    ],
+    [
+      'GET',
+      'projects/:id/merge_requests',
+      ({ params, query }) => {
+        const project = getProject(params.id);
+        const filters = {
+          state: query.get('state'),
+          sourceBranch: query.get('source_branch'),
+          targetBranch: query.get('target_branch'),
+        };
+
+        return {
+          body: project.mergeRequests
+            .filter(
+              (mr) =>
+                (!filters.state ||
+                  filters.state === 'all' ||
+                  mr.state === filters.state) &&
+                (!filters.sourceBranch ||
+                  mr.sourceBranch === filters.sourceBranch) &&
+                (!filters.targetBranch ||
+                  mr.targetBranch === filters.targetBranch)
+            )
+            .map((mr) => serializeMergeRequest(project, mr)),
+        };
+      },
+    ],
+    [
+      'POST',
+      'projects/:id/merge_requests',
+      ({ params, body }) => {
+        const project = getProject(params.id);
+        const sourceBranch = String(body.source_branch);
+        const targetBranch = String(body.target_branch);
+        const sha = getBranchSHA(project, sourceBranch);
+
+        if (!sha || !getBranchSHA(project, targetBranch))
+          throw new HttpError(400, 'Invalid source or target branch');
+
+        const existingMr = project.mergeRequests.find(
+          (mr) =>
+            mr.state === 'opened' &&
+            mr.sourceBranch === sourceBranch &&
+            mr.targetBranch === targetBranch
+        );
+
+        if (existingMr)
+          throw new HttpError(
+            409,
+            `Another open merge request already exists for this source branch: !${existingMr.iid}`
+          );
+
+        const mr: FakeMergeRequest = {
+          iid: project.mergeRequests.length + 1,
+          title: String(body.title),
+          description: (body.description as string | undefined) ?? '',
+          sourceBranch,
+          targetBranch,
+          state: 'opened',
+          sha,
+          mergeWhenPipelineSucceeds: false,
+          forceRemoveSourceBranch: body.remove_source_branch === true,
+          mergeCommitSha: undefined,
+          mergeCommitMessage: undefined,
+          pipeline: undefined,
+          notes: [],
+          labels: parseLabels(body.labels),
+          assigneeIds: (body.assignee_ids as number[] | undefined) ?? [],
+          reviewerIds: (body.reviewer_ids as number[] | undefined) ?? [],
+          milestoneId: body.milestone_id as number | undefined,
+          squash: body.squash === true,
+        };
+
+        project.mergeRequests.push(mr);
+
+        return { status: 201, body: serializeMergeRequest(project, mr) };
+      },
+    ],
+    [
+      'GET',
+      'projects/:id/merge_requests/:iid',
+      ({ params }) => {
+        const project = getProject(params.id);
+
+        return {
+          body: serializeMergeRequest(
+            project,
+            getMergeRequest(project, params.iid)
+          ),
+        };
+      },
+    ],
+    [
+      'PUT',
+      'projects/:id/merge_requests/:iid',
+      ({ params, body }) => {
+        const project = getProject(params.id);
+        const mr = getMergeRequest(project, params.iid);
+
+        if (typeof body.title === 'string') mr.title = body.title;
+        if (typeof body.description === 'string')
+          mr.description = body.description;
+        if (typeof body.remove_source_branch === 'boolean')
+          mr.forceRemoveSourceBranch = body.remove_source_branch;
+        if (body.labels !== undefined) mr.labels = parseLabels(body.labels);
+        if (body.add_labels !== undefined)
+          mr.labels = [
+            ...new Set([...mr.labels, ...parseLabels(body.add_labels)]),
+          ];
+        if (Array.isArray(body.assignee_ids))
+          mr.assigneeIds = body.assignee_ids as number[];
+        if (Array.isArray(body.reviewer_ids))
+          mr.reviewerIds = body.reviewer_ids as number[];
+        if (typeof body.milestone_id === 'number')
+          mr.milestoneId = body.milestone_id;
+        if (typeof body.squash === 'boolean') mr.squash = body.squash;
+        if (body.state_event === 'close' && mr.state === 'opened')
+          mr.state = 'closed';
+        if (body.state_event === 'reopen' && mr.state === 'closed')
+          mr.state = 'opened';
+
+        return { body: serializeMergeRequest(project, mr) };
+      },
+    ],
+    [
+      'PUT',
+      'projects/:id/merge_requests/:iid/merge',
+      ({ params, body }) => {
+        const project = getProject(params.id);
+        const mr = getMergeRequest(project, params.iid);
+
+        if (mr.state !== 'opened')
+          throw new HttpError(405, '405 Method Not Allowed');
+
+        const sourceSHA = getBranchSHA(project, mr.sourceBranch);
+
+        if (body.sha && body.sha !== sourceSHA)
+          throw new HttpError(
+            409,
+            `SHA does not match HEAD of source branch: ${sourceSHA}`
+          );
+
+        if (serializeMergeRequest(project, mr).has_conflicts)
+          throw new HttpError(422, 'Branch cannot be merged');
+
+        if (typeof body.merge_commit_message === 'string')
+          mr.mergeCommitMessage = body.merge_commit_message;
+        if (body.should_remove_source_branch === true)
+          mr.forceRemoveSourceBranch = true;
+
+        // "Pipelines must succeed" is enabled for every fake project
+        if (mr.pipeline && ['failed', 'canceled'].includes(mr.pipeline.status))
+          throw new HttpError(405, '405 Method Not Allowed');
+
+        if (mr.pipeline && mr.pipeline.status !== 'success') {
+          if (body.merge_when_pipeline_succeeds !== true)
+            throw new HttpError(405, '405 Method Not Allowed');
+
+          mr.mergeWhenPipelineSucceeds = true;
+
+          return { body: serializeMergeRequest(project, mr) };
+        }
+
+        mergeBranches(project, mr, { commit: true });
+
+        return { body: serializeMergeRequest(project, mr) };
+      },
+    ],
+    [
+      'GET',
+      'projects/:id/merge_requests/:iid/diffs',
+      ({ params }) => {
+        const project = getProject(params.id);
+        const mr = getMergeRequest(project, params.iid);
+        serializeMergeRequest(project, mr);
+
+        const baseSHA = git(project.repositoryPath, [
+          'merge-base',
+          mr.mergeCommitSha ? `${mr.mergeCommitSha}^1` : mr.targetBranch,
+          mr.sha,
+        ]);
+
+        return {
+          body: diffCommits(project.repositoryPath, baseSHA, mr.sha),
+        };
+      },
+    ],
+    [
+      'POST',
+      'projects/:id/merge_requests/:iid/notes',
+      ({ params, body }) => {
+        const mr = getMergeRequest(getProject(params.id), params.iid);
+
+        mr.notes.push(String(body.body));
+
+        return {
+          status: 201,
+          body: { id: mr.notes.length, body: body.body, system: false },
+        };
+      },
+    ],
+    [
+      'GET',
+      'projects/:id/pipelines/:pipelineId/jobs',
+      ({ params, query }) => {
+        const project = getProject(params.id);
+        const pipeline = project.mergeRequests.find(
+          (mr) => mr.pipeline?.id === Number(params.pipelineId)
+        )?.pipeline;
+
+        if (!pipeline) throw new HttpError(404, '404 Not found');
+
+        const scopes = [...query.getAll('scope'), ...query.getAll('scope[]')];
+
+        if (scopes.length && !scopes.includes('failed')) return { body: [] };
+
+        return {
+          body: pipeline.failedJobs.map((job, index) => {
+            const id = pipeline.id * 100 + index;
+
+            return {
+              id,
+              name: job.name,
+              stage: job.stage,
+              status: 'failed',
+              allow_failure: job.allowFailure ?? false,
+              failure_reason: job.failureReason ?? 'script_failure',
+              web_url: `${getProjectWebUrl(project)}/-/jobs/${id}`,
+            };
+          }),
+        };
+      },
+    ],
+  ];
+
+  /**
+   * Routes the request to the handler, checking the access token first
+   *
+   * @param request Incoming request
+   * @param response Server response
+   */
+  async function handleRequest(
+    request: IncomingMessage,
+    response: ServerResponse
+  ) {
+    const requestUrl = new URL(request.url ?? '/', url);
+    const body = await readJsonBody(request);
+
+    const isJobToken = request.headers['job-token'] === token;
+
+    if (
+      request.headers['private-token'] !== token &&
+      request.headers.authorization !== `Bearer ${token}` &&
+      !isJobToken
+    )
+      return sendJson(response, 401, { message: '401 Unauthorized' });
+
+    // the CI job token has no access to the users API
+    if (isJobToken && requestUrl.pathname === '/api/v4/user')
+      return sendJson(response, 401, { message: '401 Unauthorized' });
+
+    // the project IDs, branch names and file paths are URL-encoded as a single path segment
+    const segments = requestUrl.pathname
+      .replace(/^\/api\/v4\//, '')
+      .split('/')
+      .map(decodeURIComponent);
+
+    for (const [method, pattern, handler] of routes) {
+      const params = matchRoute(pattern, segments);
+
+      if (request.method !== method || !params) continue;
+
+      requests.push(`${method} ${pattern}`);
+
+      const failureIndex = failures.findIndex(
+        (failure) => failure.method === method && failure.route === pattern
+      );
+      const [failure] =
+        failureIndex === -1 ? [] : failures.splice(failureIndex, 1);
+
+      try {
+        if (failure && !failure.isHandled)
+          return sendFailure(response, failure);
+
+        const result = handler({
+          params,
+          query: requestUrl.searchParams,
+          body,
+        });
+
+        if (failure) return sendFailure(response, failure);
+
+        return sendJson(response, result.status ?? 200, result.body);
+      } catch (error) {
+        if (!(error instanceof HttpError)) throw error;
+
+        return sendJson(response, error.status, { message: error.message });
+      }
+    }
+
+    sendJson(response, 404, { message: '404 Not Found' });
+  }
+
+  const fakeGitlab: FakeGitlab = {
+    url,
+    token,
+    gitEnv: createGitConfigEnv({
+      'protocol.file.allow': 'always',
+      [`url.file://${reposDir}/.insteadOf`]: `https://127.0.0.1:${port}/`,
+    }),
+
+    createProject(pathWithNamespace, { defaultBranch = 'main' } = {}) {
+      const repositoryPath = path.join(reposDir, `${pathWithNamespace}.git`);
+
+      fs.mkdirSync(repositoryPath, { recursive: true });
+      git(repositoryPath, [
+        'init',
+        '--bare',
+        '--quiet',
+        `--initial-branch=${defaultBranch}`,
+      ]);
+
+      // GitLab serves the partial clones
+      git(repositoryPath, ['config', 'uploadpack.allowFilter', 'true']);
+
+      const project: FakeGitlabProject = {
+        id: projects.length + 1,
+        pathWithNamespace,
+        repositoryPath,
+        defaultBranch,
+        mergeRequests: [],
+        milestones: [],
+      };
+
+      projects.push(project);
+
+      return project;
+    },
+
+    getProject,
+
+    createUser(username) {
+      const user = { id: users.length + 100, username };
+
+      users.push(user);
+
+      return user;
+    },
+
+    createMilestone(projectId, title) {
+      const milestone = { id: nextMilestoneId++, title };
+
+      getProject(projectId).milestones.push(milestone);
+
+      return milestone;
+    },
+
+    setPipelineStatus(projectId, mergeRequestIid, status, failedJobs = []) {
+      const project = getProject(projectId);
+      const mr = getMergeRequest(project, mergeRequestIid);
+
+      mr.pipeline = {
+        id: mr.pipeline?.id ?? nextPipelineId++,
+        status,
+        failedJobs,
+      };
+
+      if (status === 'success' && mr.mergeWhenPipelineSucceeds)
+        mergeBranches(project, mr, { commit: true });
+
+      if (status === 'failed' || status === 'canceled')
+        mr.mergeWhenPipelineSucceeds = false;
+    },
+
+    addSigningKey(publicKey) {
+      if (publicKey.includes('BEGIN PGP PUBLIC KEY BLOCK')) {
+        fs.mkdirSync(gnupgHome, { recursive: true, mode: 0o700 });
+        execFileSync('gpg', ['--batch', '--import'], {
+          input: publicKey,
+          env: { ...process.env, GNUPGHOME: gnupgHome },
+          stdio: ['pipe', 'ignore', 'ignore'],
+        });
+      } else {
+        fs.appendFileSync(allowedSignersPath, `* ${publicKey.trim()}\n`);
+      }
+    },
+
+    failRequests(...newFailures) {
+      failures.push(...newFailures);
+    },
+
+    requests,
+
+    async close() {
+      server.closeAllConnections();
+      server.close();
+      await once(server, 'close');
+    },
+
+    [Symbol.asyncDispose]() {
+      return fakeGitlab.close();
+    },
+  };
+
+  return fakeGitlab;
+}
+
+/**
+ * Matches the URL path segments with the route pattern, e.g. `projects/:id/merge_requests/:iid`
+ *
+ * @param pattern Route pattern with the `:param` placeholders
+ * @param segments Decoded URL path segments
+ * @returns Route params, `undefined` if the path doesn't match
+ */
+function matchRoute(pattern: string, segments: string[]) {
+  const patternSegments = pattern.split('/');
+
+  if (patternSegments.length !== segments.length) return undefined;
+
+  const params: Record<string, string> = {};
+
+  for (const [index, patternSegment] of patternSegments.entries()) {
+    if (patternSegment.startsWith(':'))
+      params[patternSegment.slice(1)] = segments[index];
+    else if (patternSegment !== segments[index]) return undefined;
+  }
+
+  return params;
+}
+
+/**
+ * Parses the comma-separated labels of the MR request
+ *
+ * @param labels Labels sent as a string or an array
+ */
+function parseLabels(labels: unknown): string[] {
+  const items = Array.isArray(labels)
+    ? labels
+    : String(labels ?? '').split(',');
+
+  return items.map((label) => String(label).trim()).filter(Boolean);
+}
+
+/**
+ * Reads the JSON request body, the GitLab client sends the request options as JSON
+ *
+ * @param request Incoming request
+ */
+async function readJsonBody(
+  request: IncomingMessage
+): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+
+  const content = Buffer.concat(chunks).toString('utf8');
+
+  return content ? (JSON.parse(content) as Record<string, unknown>) : {};
+}
+
+/**
+ * Sends the JSON response, or the plain text response for the raw files
+ *
+ * @param response Server response
+ * @param status HTTP status
+ * @param body Response body, a string is sent as `text/plain`
+ */
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  if (status === 204 || body === undefined)
+    return response.writeHead(status).end();
+
+  const isText = typeof body === 'string';
+
+  response
+    .writeHead(status, {
+      'content-type': isText ? 'text/plain; charset=utf-8' : 'application/json',
+    })
+    .end(isText ? body : JSON.stringify(body));
+}
+
+/**
+ * Sends the injected failure response
+ *
+ * @param response Server response
+ * @param failure Failure to send
+ */
+function sendFailure(response: ServerResponse, failure: FakeFailure) {
+  response
+    .writeHead(failure.status, {
+      'content-type': 'application/json',
+      ...failure.headers,
+    })
+    .end(
+      failure.body ??
+        JSON.stringify({
+          message: `${failure.status} ${http.STATUS_CODES[failure.status]}`,
+        })
+    );
+}
+
+/**
+ * Creates the Git config environment variables, which apply to every Git process
+ * spawned by the commands without touching the user's global config
+ *
+ * @param config Git config keys and values
+ */
+function createGitConfigEnv(config: Record<string, string>) {
+  const entries = Object.entries(config);
+
+  return Object.fromEntries([
+    ['GIT_CONFIG_COUNT', String(entries.length)],
+    ...entries.flatMap(([key, value], index) => [
+      [`GIT_CONFIG_KEY_${index}`, key],
+      [`GIT_CONFIG_VALUE_${index}`, value],
+    ]),
+  ]);
+}
+
+/**
+ * Serializes the commit the way the GitLab commits API does
+ *
+ * @param repositoryPath Bare repository path
+ * @param sha Commit SHA
+ */
+function serializeCommit(repositoryPath: string, sha: string) {
+  const [parents, authorName, authorEmail, createdAt, message] = git(
+    repositoryPath,
+    ['show', '--no-patch', '--format=%P%x00%an%x00%ae%x00%cI%x00%B', sha]
+  ).split('\0');
+
+  return {
+    id: sha,
+    short_id: sha.slice(0, 8),
+    title: message.split('\n')[0],
+    message,
+    parent_ids: parents ? parents.split(' ') : [],
+    author_name: authorName,
+    author_email: authorEmail,
+    created_at: createdAt,
+    committed_date: createdAt,
+  };
+}
+
+/**
+ * Merges the commits with `git merge-tree`, which doesn't need a working tree
+ *
+ * @param repositoryPath Bare repository path
+ * @param targetSHA Commit to merge into
+ * @param sourceSHA Commit to merge
+ * @returns Merged tree SHA and whether the merge has conflicts
+ */
+function mergeTree(
+  repositoryPath: string,
+  targetSHA: string,
+  sourceSHA: string
+) {
+  try {
+    const tree = git(repositoryPath, [
+      'merge-tree',
+      '--write-tree',
+      '--no-messages',
+      targetSHA,
+      sourceSHA,
+    ]);
+
+    return { tree: tree.split('\n')[0], hasConflicts: false };
+  } catch (error) {
+    // `git merge-tree` exits with `1` on the conflicts
+    if ((error as { status?: number }).status !== 1) throw error;
+
+    return { tree: '', hasConflicts: true };
+  }
+}
+
+/**
+ * Lists the changed files the way the GitLab MR diffs API does
+ *
+ * @param repositoryPath Bare repository path
+ * @param baseSHA Commit to diff from, the merge base of the MR
+ * @param headSHA Commit to diff to, the MR source branch HEAD
+ */
+function diffCommits(repositoryPath: string, baseSHA: string, headSHA: string) {
+  return git(repositoryPath, [
+    'diff',
+    '--raw',
+    '--no-renames',
+    '--no-abbrev',
+    baseSHA,
+    headSHA,
+  ])
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [info, filePath] = line.split('\t');
+      const [aMode, bMode, , , status] = info.slice(1).split(' ');
+      const diff = git(repositoryPath, [
+        'diff',
+        baseSHA,
+        headSHA,
+        '--',
+        filePath,
+      ]);
+
+      return {
+        old_path: filePath,
+        new_path: filePath,
+        a_mode: aMode,
+        b_mode: bMode,
+        new_file: status === 'A',
+        renamed_file: false,
+        deleted_file: status === 'D',
+        diff: diff.slice(Math.max(0, diff.indexOf('@@'))),
+      };
+    });
+}